@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getMarketDataProvider } from '../../../../lib/market';
+import { errorResponse } from '../../../../lib/market/http';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const coins = await getMarketDataProvider().getCoinList();
+    return NextResponse.json(coins);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
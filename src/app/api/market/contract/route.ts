@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '../../../../lib/market';
+import { MarketDataError } from '../../../../lib/market/errors';
+import { errorResponse, requireParam } from '../../../../lib/market/http';
+import { chainsForAddress, isContractChain } from '../../../../lib/coinSearch';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const chain = requireParam(params, 'chain');
+    const address = requireParam(params, 'address').trim();
+    if (!isContractChain(chain)) {
+      throw new MarketDataError(`Unsupported chain: ${chain}`, 400);
+    }
+    if (!chainsForAddress(address).some(candidate => candidate.id === chain)) {
+      throw new MarketDataError(`Invalid contract address for ${chain}`, 400);
+    }
+    const coin = await getMarketDataProvider().getCoinByContract(chain, address);
+    return NextResponse.json(coin);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
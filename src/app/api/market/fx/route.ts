@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '../../../../lib/market';
+import { errorResponse, parseCurrencyParam } from '../../../../lib/market/http';
+
+export async function GET(request: NextRequest) {
+  try {
+    const vs = parseCurrencyParam(request.nextUrl.searchParams);
+    const rate = await getMarketDataProvider().getFiatRate(vs);
+    return NextResponse.json({ base: 'usd', vs, rate });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
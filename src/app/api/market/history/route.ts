@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '../../../../lib/market';
+import { errorResponse, parseQuoteParam, parseDateParam, requireParam } from '../../../../lib/market/http';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const id = requireParam(params, 'id');
+    const date = parseDateParam(params, 'date');
+    const vs = parseQuoteParam(params);
+    const price = await getMarketDataProvider().getPriceAtDate(id, date, vs);
+    return NextResponse.json({ id, date: params.get('date'), vs, price });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '../../../../lib/market';
+import { errorResponse, parseQuoteParam, requireParam } from '../../../../lib/market/http';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const id = requireParam(params, 'id');
+    const vs = parseQuoteParam(params);
+    const price = await getMarketDataProvider().getSpotPrice(id, vs);
+    return NextResponse.json(price);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
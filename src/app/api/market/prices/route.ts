@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '../../../../lib/market';
+import { MarketDataError } from '../../../../lib/market/errors';
+import { errorResponse, parseQuoteParam, requireParam } from '../../../../lib/market/http';
+
+const MAX_IDS = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const ids = Array.from(new Set(requireParam(params, 'ids').split(',').map(id => id.trim()).filter(Boolean)));
+    if (ids.length > MAX_IDS) {
+      throw new MarketDataError(`At most ${MAX_IDS} ids can be requested at once`, 400);
+    }
+    const vs = parseQuoteParam(params);
+    const prices = await getMarketDataProvider().getSpotPrices(ids, vs);
+    return NextResponse.json(prices);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
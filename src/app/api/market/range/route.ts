@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider, MarketDataError } from '../../../../lib/market';
+import { errorResponse, parseQuoteParam, parseDateParam, requireParam } from '../../../../lib/market/http';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const id = requireParam(params, 'id');
+    const from = parseDateParam(params, 'from');
+    // Make the end date inclusive
+    const to = new Date(parseDateParam(params, 'to').getTime() + DAY_MS - 1);
+    if (from > to) {
+      throw new MarketDataError('from must not be after to', 400);
+    }
+    const vs = parseQuoteParam(params);
+    const prices = await getMarketDataProvider().getPriceRange(id, from, to, vs);
+    return NextResponse.json(prices);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+
+beforeAll(() => {
+  vi.stubEnv('MARKET_DATA_PROVIDER', 'local');
+});
+
+const get = async (query: string) => {
+  const response = await GET(new NextRequest(`http://localhost/api/v1/historical-returns?${query}`));
+  return { status: response.status, body: await response.json() };
+};
+
+describe('GET /api/v1/historical-returns', () => {
+  it('returns one row per purchase date', async () => {
+    const { status, body } = await get('coin=bitcoin&amount=100&interval=yearly&from=2020-01-01&to=2022-01-01');
+    expect(status).toBe(200);
+    expect(body).toHaveLength(3);
+  });
+
+  it('labels benchmarks as US dollars whatever the currency', async () => {
+    const { body } = await get('coin=bitcoin&interval=yearly&from=2020-01-01&to=2020-01-01&vs=eur&benchmarks=sp500');
+    expect(body[0].comparisons).toEqual([expect.objectContaining({ id: 'sp500', currency: 'usd' })]);
+  });
+
+  it('gives no benchmark comparison for purchases after its data ends', async () => {
+    const { body } = await get('coin=bitcoin&interval=monthly&from=2020-01-01&benchmarks=sp500,gold');
+    const [latest] = body;
+    const [dataEnd] = latest.comparisons.map((comparison: { dataEnd: string }) => comparison.dataEnd);
+    expect(latest.date > dataEnd).toBe(true);
+    latest.comparisons.forEach((comparison: { currentValue: number | null; stats: { multiplier: number | null; cagr: number | null } }) => {
+      expect(comparison.currentValue).toBeNull();
+      expect(comparison.stats).toMatchObject({ multiplier: null, cagr: null });
+    });
+
+    const before = body.find((row: { date: string }) => row.date === '2020-01-01');
+    expect(before.comparisons[0].stats.multiplier).toBeGreaterThan(1);
+  });
+
+  it('rejects invalid parameters with the failing fields', async () => {
+    const { status, body } = await get('coin=bitcoin&amount=0&benchmarks=gold,moon');
+    expect(status).toBe(400);
+    expect(body.details.map((detail: { field: string }) => detail.field)).toEqual(['amount', 'benchmarks']);
+  });
+
+  it('returns 404 for an unknown coin', async () => {
+    const { status, body } = await get('coin=not-a-coin');
+    expect(status).toBe(404);
+    expect(body).toEqual({ error: 'Unknown coin: not-a-coin' });
+  });
+});
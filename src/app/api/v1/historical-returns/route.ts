@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '../../../../lib/market';
+import { ReturnInterval } from '../../../../lib/historical';
+import { getCurrency } from '../../../../lib/currency';
+import { DEFAULT_COMPARISON_ITEMS } from '../../../../lib/comparisonItems';
+import { BENCHMARKS, BenchmarkId } from '../../../../lib/benchmarks';
+import { benchmarkAssets, buildHistoricalReturns, coinValueAt, comparedAsset } from '../../../../lib/historicalReturns';
+import { FieldError, validate } from '../../../../lib/api/schema';
+import { ApiError, apiErrorResponse } from '../../../../lib/api/errors';
+import { findCoin, HISTORICAL_RETURNS_QUERY } from '../../../../lib/api/v1';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface HistoricalReturnsQuery {
+  coin: string;
+  amount: number;
+  interval: ReturnInterval;
+  from: string;
+  to?: string;
+  vs: string;
+  benchmarks: string;
+}
+
+const parseDate = (value: string) => new Date(`${value}T00:00:00Z`);
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = validate(HISTORICAL_RETURNS_QUERY, params, true);
+    const query = validation.value as unknown as HistoricalReturnsQuery;
+    const errors: FieldError[] = [...validation.errors];
+
+    const now = Date.now();
+    const start = parseDate(query.from ?? '');
+    const end = query.to ? parseDate(query.to) : new Date(now);
+    if (errors.length === 0 && start > end) errors.push({ field: 'from', message: 'must not be after to' });
+
+    const benchmarkIds = (query.benchmarks ?? '').split(',').map(id => id.trim()).filter(Boolean);
+    const unknown = benchmarkIds.filter(id => !BENCHMARKS.some(benchmark => benchmark.id === id));
+    if (unknown.length > 0) {
+      errors.push({
+        field: 'benchmarks',
+        message: `unknown ${unknown.join(', ')}; expected any of: ${BENCHMARKS.map(benchmark => benchmark.id).join(', ')}`
+      });
+    }
+    if (errors.length > 0) {
+      throw new ApiError('Invalid query parameters', 400, errors);
+    }
+
+    const provider = getMarketDataProvider();
+    const coin = await findCoin(provider, query.coin);
+    // One range request covers every period, with the end date inclusive
+    const [spot, usdRate, series] = await Promise.all([
+      provider.getSpotPrice(coin.id, query.vs),
+      provider.getFiatRate(query.vs),
+      provider.getPriceRange(coin.id, start, new Date(Math.min(end.getTime() + DAY_MS - 1, now)), query.vs)
+    ]);
+
+    const rows = series.length === 0 ? [] : buildHistoricalReturns({
+      coin: comparedAsset(coin.id, coin.name, query.vs, coinValueAt(series, spot.price, now), start, now),
+      compared: benchmarkAssets(benchmarkIds as BenchmarkId[], start, now),
+      currentPrice: spot.price,
+      investment: query.amount,
+      interval: query.interval,
+      start,
+      end,
+      currency: query.vs,
+      locale: getCurrency(query.vs).locale,
+      usdRate,
+      comparisonItems: DEFAULT_COMPARISON_ITEMS
+    });
+    return NextResponse.json(rows);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from 'next/server';
+import { openApiDocument } from '../../../../lib/api/v1';
+
+export async function GET() {
+  return NextResponse.json(openApiDocument());
+}
@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { POST } from './route';
+
+// Bitcoin is quoted at 105000 USD in the local fixtures
+beforeAll(() => {
+  vi.stubEnv('MARKET_DATA_PROVIDER', 'local');
+});
+
+const post = async (body: unknown) => {
+  const response = await POST(new NextRequest('http://localhost/api/v1/profit', {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  }));
+  return { status: response.status, body: await response.json() };
+};
+
+describe('POST /api/v1/profit', () => {
+  it('calculates the profit at the current price', async () => {
+    const { status, body } = await post({
+      cryptocurrency: 'bitcoin',
+      investmentType: 'quantity',
+      quantity: 2,
+      targetPrice: 110000,
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      crypto: { id: 'bitcoin', symbol: 'BTC' },
+      quantity: 2,
+      buyPrice: 105000,
+      initialInvestment: 210000,
+      potentialValue: 220000,
+      profitAmount: 10000,
+    });
+  });
+
+  it('prices a past entry at the start of the UTC day without a time', async () => {
+    const { status, body } = await post({
+      cryptocurrency: 'bitcoin',
+      investmentType: 'quantity',
+      quantity: 1,
+      targetPrice: 110000,
+      entryMode: 'past',
+      entryDate: '2014-01-01',
+    });
+    expect(status).toBe(200);
+    expect(body.buyPrice).toBe(754);
+    expect(body.pastEntry).toMatchObject({ date: '2014-01-01', currentPrice: 105000 });
+  });
+
+  it('rejects an invalid body with the failing fields', async () => {
+    const { status, body } = await post({ cryptocurrency: 'bitcoin', investmentType: 'shares', entryTime: '9am' });
+    expect(status).toBe(400);
+    expect(body.error).toBe('Invalid request body');
+    expect(body.details.map((detail: { field: string }) => detail.field)).toEqual(
+      expect.arrayContaining(['targetPrice', 'investmentType', 'entryTime'])
+    );
+  });
+
+  it('rejects a time that is not on the clock', async () => {
+    const { status, body } = await post({
+      cryptocurrency: 'bitcoin',
+      initialInvestment: 100,
+      targetPrice: 110000,
+      entryMode: 'past',
+      entryDate: '2020-01-01',
+      entryTime: '25:99',
+    });
+    expect(status).toBe(400);
+    expect(body.details).toEqual([{ field: 'entryTime', message: 'must match HH:MM' }]);
+  });
+
+  it('rejects a date that is not on the calendar', async () => {
+    const { status, body } = await post({
+      cryptocurrency: 'bitcoin',
+      initialInvestment: 100,
+      targetPrice: 110000,
+      entryMode: 'past',
+      entryDate: '2020-02-31',
+    });
+    expect(status).toBe(400);
+    expect(body.details).toEqual([{ field: 'entryDate', message: 'is not a valid date' }]);
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    const { status, body } = await post('{');
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: 'Request body must be valid JSON' });
+  });
+
+  it('returns 404 for an unknown coin', async () => {
+    const { status, body } = await post({ cryptocurrency: 'not-a-coin', initialInvestment: 100, targetPrice: 1 });
+    expect(status).toBe(404);
+    expect(body).toEqual({ error: 'Unknown coin: not-a-coin' });
+  });
+
+  it('returns 422 for a zero quantity', async () => {
+    const { status, body } = await post({
+      cryptocurrency: 'bitcoin',
+      investmentType: 'quantity',
+      quantity: 0,
+      targetPrice: 110000,
+    });
+    expect(status).toBe(422);
+    expect(body.error).toMatch(/quantity above zero/);
+  });
+
+  it('returns 422 for a stop-loss on the wrong side of the entry', async () => {
+    const { status } = await post({
+      cryptocurrency: 'bitcoin',
+      investmentType: 'risk',
+      stopLossPrice: 120000,
+      targetPrice: 130000,
+    });
+    expect(status).toBe(422);
+  });
+});
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '../../../../lib/market';
+import { FEE_PRESETS } from '../../../../lib/fees';
+import { calculateProfit, CryptoProfitCalculatorForm, entryMoment, sizePosition } from '../../../../lib/profit';
+import { FieldError, validate } from '../../../../lib/api/schema';
+import { ApiError, apiErrorResponse } from '../../../../lib/api/errors';
+import { findCoin, priceAtMoment, PROFIT_REQUEST } from '../../../../lib/api/v1';
+import { findJurisdiction, taxDependsOnCurrency } from '../../../../lib/tax';
+
+// Checks that depend on more than one field
+const crossFieldErrors = (form: CryptoProfitCalculatorForm): FieldError[] => {
+  const errors: FieldError[] = [];
+  const requireWhen = (field: keyof CryptoProfitCalculatorForm, when: string) => {
+    if (form[field] === undefined) errors.push({ field, message: `is required when ${when}` });
+  };
+  if (form.investmentType === 'amount') requireWhen('initialInvestment', 'investmentType is "amount"');
+  if (form.investmentType === 'quantity') requireWhen('quantity', 'investmentType is "quantity"');
+  if (form.investmentType === 'risk') requireWhen('stopLossPrice', 'investmentType is "risk"');
+  if (form.entryMode === 'past') requireWhen('entryDate', 'entryMode is "past"');
+  return errors;
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('Request body must be valid JSON');
+    }
+
+    const validation = validate(PROFIT_REQUEST, body);
+    const form = { ...validation.value, useLedger: false } as unknown as CryptoProfitCalculatorForm & { currency: string };
+    const errors = validation.errors.length > 0 ? validation.errors : crossFieldErrors(form);
+    if (errors.length > 0) {
+      throw new ApiError('Invalid request body', 400, errors);
+    }
+
+    // Explicit fee rates win over the preset, as when editing them after picking one
+    const preset = FEE_PRESETS.find(p => p.id === form.feePreset);
+    const provided = body as Record<string, unknown>;
+    if (preset) {
+      if (provided.buyFeePercent === undefined) form.buyFeePercent = preset.feePercent;
+      if (provided.sellFeePercent === undefined) form.sellFeePercent = preset.feePercent;
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    form.purchaseDate = form.purchaseDate ?? (form.entryMode === 'past' ? form.entryDate : today);
+    form.saleDate = form.saleDate ?? today;
+
+    const provider = getMarketDataProvider();
+    const coin = await findCoin(provider, form.cryptocurrency);
+    // Every price is in the quote coin when there is one
+    const quoteCoin = form.quoteAsset ? await findCoin(provider, form.quoteAsset) : null;
+    const vs = quoteCoin ? quoteCoin.id : form.currency;
+    const spot = await provider.getSpotPrice(coin.id, vs);
+    const quoteSpot = quoteCoin ? await provider.getSpotPrice(quoteCoin.id, form.currency) : null;
+
+    let pastPrice: number | null = null;
+    let pastQuotePrice: number | null = null;
+    if (form.entryMode === 'past') {
+      const entryAt = entryMoment(form.entryDate, form.entryTime);
+      if (entryAt.getTime() > Date.now()) {
+        throw new ApiError('entryDate and entryTime must not be in the future', 422);
+      }
+      pastPrice = await priceAtMoment(provider, coin.id, entryAt, Boolean(form.entryTime), vs);
+      if (!pastPrice) {
+        throw new ApiError(`No ${coin.name} price is available for ${form.entryDate}`, 422);
+      }
+      if (quoteCoin) {
+        pastQuotePrice = await priceAtMoment(provider, quoteCoin.id, entryAt, Boolean(form.entryTime), form.currency);
+      }
+    }
+
+    // Tax brackets are in the jurisdiction's currency; without a rate the
+    // response leaves the tax section out
+    const jurisdiction = findJurisdiction(form.taxJurisdiction);
+    let taxCurrencyRate: number | null = null;
+    if (jurisdiction && taxDependsOnCurrency(jurisdiction)) {
+      const taxCurrency = jurisdiction.currency.toLowerCase();
+      taxCurrencyRate = taxCurrency === form.currency
+        ? 1
+        : await Promise.all([provider.getFiatRate(taxCurrency), provider.getFiatRate(form.currency)])
+          .then(([taxRate, rate]) => (rate > 0 ? taxRate / rate : null))
+          .catch(() => null);
+    }
+
+    const sized = sizePosition(form, pastPrice ?? spot.price);
+    if (!sized) {
+      throw new ApiError(form.investmentType === 'risk'
+        ? 'The stop-loss must be on the losing side of the entry price to size the position by risk'
+        : 'Could not work out the position size from the entry price', 422);
+    }
+
+    const { calculation, error } = calculateProfit({ ...form, initialInvestment: sized.initialInvestment, quantity: sized.quantity }, {
+      crypto: { id: coin.id, name: coin.name, symbol: coin.symbol },
+      currentPrice: spot.price,
+      pastPrice,
+      ledgerPosition: null,
+      taxCurrencyRate,
+      quote: quoteCoin ? {
+        id: quoteCoin.id,
+        name: quoteCoin.name,
+        symbol: quoteCoin.symbol,
+        fiatCurrency: form.currency,
+        fiatPrice: quoteSpot.price,
+        entryFiatPrice: pastQuotePrice ?? undefined
+      } : undefined
+    });
+    if (error) {
+      throw new ApiError(error, 422);
+    }
+    return NextResponse.json(calculation);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
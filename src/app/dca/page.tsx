@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { fetchCoinList, fetchPriceRange, fetchSpotPrice, Freshness } from '../../lib/market/client';
+import { describeMarketError } from '../../lib/market/errors';
+import { CoinListItem } from '../../lib/market/types';
+import { includeCoin } from '../../lib/coinSearch';
+import { DCA_FREQUENCIES, DcaFrequency, purchaseDates, simulateDca, simulateLumpSum, SimulationResult } from '../../lib/dca';
+import CurrencySelector from '../../components/CurrencySelector';
+import { useCurrency } from '../../components/CurrencyProvider';
+import PriceFreshness from '../../components/PriceFreshness';
+import CoinCombobox from '../../components/CoinCombobox';
+
+const DEFAULT_COIN: CoinListItem = { id: 'bitcoin', name: 'Bitcoin', symbol: 'BTC', market_cap_rank: 1 };
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const parseDateInput = (value: string) => new Date(`${value}T00:00:00Z`);
+
+const oneYearAgo = () => {
+  const date = new Date();
+  date.setUTCFullYear(date.getUTCFullYear() - 1);
+  return date;
+};
+
+const inputClassName = 'shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline';
+
+export default function DcaSimulator() {
+  const [loading, setLoading] = useState(false);
+  const [coinList, setCoinList] = useState<CoinListItem[]>([DEFAULT_COIN]);
+  const [coinId, setCoinId] = useState(DEFAULT_COIN.id);
+  const [amount, setAmount] = useState<number>(100);
+  const [frequency, setFrequency] = useState<DcaFrequency>('weekly');
+  const [startDate, setStartDate] = useState(toDateInput(oneYearAgo()));
+  const [endDate, setEndDate] = useState(toDateInput(new Date()));
+  const [feePercent, setFeePercent] = useState<number>(0);
+  const [feeFlat, setFeeFlat] = useState<number>(0);
+  const [dca, setDca] = useState<SimulationResult | null>(null);
+  const [lumpSum, setLumpSum] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string>('');
+  const [coinListError, setCoinListError] = useState('');
+  const [priceFreshness, setPriceFreshness] = useState<Freshness | null>(null);
+  const { currency, symbol, formatCurrency, formatCrypto } = useCurrency();
+
+  const coin = coinList.find(c => c.id === coinId) || DEFAULT_COIN;
+
+  useEffect(() => {
+    fetchCoinList()
+      .then(coins => {
+        if (coins.length > 0) setCoinList(coins);
+      })
+      .catch(error => setCoinListError(describeMarketError(error, 'Failed to load the list of cryptocurrencies.')));
+  }, []);
+
+  // Results are in the previous currency once it changes
+  useEffect(() => {
+    setDca(null);
+    setLumpSum(null);
+  }, [currency]);
+
+  const runSimulation = async () => {
+    const start = parseDateInput(startDate);
+    const end = parseDateInput(endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      setError('Please choose a start date before the end date.');
+      return;
+    }
+    if (!(amount > 0)) {
+      setError('Please enter an amount per purchase.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const [spot, prices] = await Promise.all([
+        fetchSpotPrice(coinId, currency),
+        fetchPriceRange(coinId, start, end, currency)
+      ]);
+      const dates = purchaseDates(start, end, frequency);
+      const fees = { feePercent: feePercent || 0, feeFlat: feeFlat || 0 };
+      const dcaResult = simulateDca(prices, spot.price, amount, dates, fees);
+      if (dcaResult.purchases.length === 0) {
+        setError(`No ${coin.name} prices available in this date range.`);
+        setDca(null);
+        setLumpSum(null);
+        return;
+      }
+      setDca(dcaResult);
+      setPriceFreshness({ asOf: spot.asOf, stale: spot.stale });
+      setLumpSum(simulateLumpSum(prices, spot.price, dcaResult.totalInvested, dates, fees));
+    } catch (error) {
+      setError(describeMarketError(error, 'Failed to fetch data. Please try again later.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderResult = (title: string, result: SimulationResult, highlight: boolean) => (
+    <div className={`p-6 rounded-lg ${highlight ? 'bg-green-50 ring-2 ring-green-400' : 'bg-gray-50'}`}>
+      <h3 className="text-xl font-bold mb-4 text-gray-800">{title}</h3>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-sm text-gray-600">Total Invested</p>
+          <p className="font-semibold">{formatCurrency(result.totalInvested)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Fees Paid</p>
+          <p className="font-semibold">{formatCurrency(result.totalFees)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">{coin.symbol} Accumulated</p>
+          <p className="font-semibold">{formatCrypto(result.quantity)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Average Cost</p>
+          <p className="font-semibold">{formatCurrency(result.averageCost)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Current Value</p>
+          <p className="font-bold text-lg">{formatCurrency(result.currentValue)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">ROI</p>
+          <p className={`font-bold text-lg ${result.roi >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {result.roi >= 0 ? '+' : ''}{result.roi.toFixed(2)}%
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <Link
+            href="/"
+            className="inline-block text-white hover:text-blue-200 mb-4"
+          >
+            ← Back to Calculator
+          </Link>
+          <div className="mb-4">
+            <CurrencySelector />
+          </div>
+          <h1 className="text-4xl font-bold text-white mb-4">
+            Dollar-Cost Averaging Simulator
+          </h1>
+          <p className="text-xl text-blue-200">
+            Compare buying a fixed amount on a schedule with investing everything up front
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-xl p-6 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Cryptocurrency</label>
+              <CoinCombobox
+                coins={coinList}
+                value={coinId}
+                onChange={(coin) => {
+                  if (!coin) return;
+                  setCoinList(list => includeCoin(list, coin));
+                  setCoinId(coin.id);
+                }}
+                inputClassName={inputClassName}
+              />
+              {coinListError && <p className="text-red-500 text-xs italic mt-1">{coinListError}</p>}
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Amount per Purchase ({symbol})</label>
+              <input
+                type="number"
+                min="1"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Frequency</label>
+              <select
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value as DcaFrequency)}
+                className={inputClassName}
+              >
+                {DCA_FREQUENCIES.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">End Date</label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                max={toDateInput(new Date())}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-gray-700 text-sm font-bold mb-2">Fee (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={feePercent}
+                  onChange={(e) => setFeePercent(Number(e.target.value))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-700 text-sm font-bold mb-2">Fee ({symbol})</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={feeFlat}
+                  onChange={(e) => setFeeFlat(Number(e.target.value))}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+
+          <button
+            onClick={runSimulation}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline disabled:opacity-50"
+            disabled={loading}
+          >
+            {loading ? 'Loading...' : 'Simulate'}
+          </button>
+
+          {error && (
+            <div className="text-red-600 text-center mt-6">
+              {error}
+            </div>
+          )}
+
+          {dca && lumpSum && (
+            <div className="mt-8 space-y-6">
+              {priceFreshness && (
+                <p className="text-sm text-gray-600">
+                  Valued at the current {coin.name} price{' '}
+                  <PriceFreshness asOf={priceFreshness.asOf} stale={priceFreshness.stale} />
+                </p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {renderResult(`DCA (${dca.purchases.length} purchases)`, dca, dca.currentValue >= lumpSum.currentValue)}
+                {renderResult(
+                  `Lump Sum (${lumpSum.purchases[0]?.date ?? startDate})`,
+                  lumpSum,
+                  lumpSum.currentValue > dca.currentValue
+                )}
+              </div>
+
+              {dca.skippedPeriods > 0 && (
+                <p className="text-sm text-gray-500 text-center">
+                  {dca.skippedPeriods} scheduled purchases were skipped because {coin.name} had no listed price yet.
+                </p>
+              )}
+
+              <details className="border border-gray-200 rounded-md p-4">
+                <summary className="text-sm font-medium text-gray-700 cursor-pointer">DCA Purchases</summary>
+                <div className="overflow-x-auto mt-4">
+                  <table className="min-w-full bg-white text-sm">
+                    <thead>
+                      <tr className="bg-gray-100 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        <th className="px-4 py-2">Date</th>
+                        <th className="px-4 py-2">Price</th>
+                        <th className="px-4 py-2">Spent</th>
+                        <th className="px-4 py-2">Fee</th>
+                        <th className="px-4 py-2">{coin.symbol} Bought</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {dca.purchases.map((purchase) => (
+                        <tr key={purchase.date}>
+                          <td className="px-4 py-2">{purchase.date}</td>
+                          <td className="px-4 py-2">{formatCurrency(purchase.price)}</td>
+                          <td className="px-4 py-2">{formatCurrency(purchase.amount)}</td>
+                          <td className="px-4 py-2">{formatCurrency(purchase.fee)}</td>
+                          <td className="px-4 py-2">{formatCrypto(purchase.quantity)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </details>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,176 +1,338 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import axios from 'axios';
+import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
+import { fetchCoinList, fetchFiatRate, fetchPriceRange, fetchSpotPrice, Freshness } from '../../lib/market/client';
+import { describeMarketError } from '../../lib/market/errors';
+import { CoinListItem, PricePoint } from '../../lib/market/types';
+import { includeCoin } from '../../lib/coinSearch';
+import { RETURN_INTERVALS, ReturnInterval } from '../../lib/historical';
+import { getCurrency } from '../../lib/currency';
+import { hasCpiData } from '../../lib/inflation';
+import {
+  ComparisonItem,
+  createComparisonItemId,
+  DEFAULT_COMPARISON_ITEMS,
+  describeAffordable
+} from '../../lib/comparisonItems';
+import { BENCHMARKS, BenchmarkId, benchmarkDataEnd } from '../../lib/benchmarks';
+import { EMPTY_STATS, PerformanceStats, samplesSince } from '../../lib/performance';
+import {
+  benchmarkAssets,
+  buildHistoricalReturns,
+  coinValueAt,
+  comparedAsset,
+  HistoricalReturn
+} from '../../lib/historicalReturns';
+import { usePersistentState } from '../../hooks/usePersistentState';
+import { downloadCsv, downloadJson, exportTimestamp } from '../../lib/export';
+import CurrencySelector from '../../components/CurrencySelector';
+import GrowthChart from '../../components/GrowthChart';
+import ComparisonItemsEditor from '../../components/ComparisonItemsEditor';
+import ComparisonChart from '../../components/ComparisonChart';
+import PriceFreshness from '../../components/PriceFreshness';
+import CoinCombobox from '../../components/CoinCombobox';
+import { useCurrency } from '../../components/CurrencyProvider';
 
-interface HistoricalReturn {
-  year: number;
-  price: number;
-  currentValue: number;
-  multiplier: number;
-  whatYouCanBuy: string[];
-}
+const ASSET_COLORS: Record<string, string> = {
+  coin: '#7c3aed',
+  sp500: '#2563eb',
+  gold: '#d97706',
+  tbills: '#059669',
+  cash: '#6b7280',
+  other: '#db2777',
+};
 
-interface LuxuryItem {
-  name: string;
-  price: number;
-  image: string;
-}
+const DEFAULT_COIN: CoinListItem = { id: 'bitcoin', name: 'Bitcoin', symbol: 'BTC', market_cap_rank: 1 };
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const parseDateInput = (value: string) => new Date(`${value}T00:00:00Z`);
+
+const formatPercent = (value: number | null, signed = false) =>
+  value === null ? '—' : `${signed && value > 0 ? '+' : ''}${value.toFixed(1)}%`;
 
-const LUXURY_ITEMS: LuxuryItem[] = [
-  { name: 'Lamborghini Aventador', price: 500000, image: '🚗' },
-  { name: 'Luxury Yacht', price: 1000000, image: '⛵' },
-  { name: 'Private Island', price: 5000000, image: '🏝️' },
-  { name: 'Private Jet', price: 20000000, image: '✈️' },
-  { name: 'Mansion in Beverly Hills', price: 30000000, image: '🏰' },
-  { name: 'Super Yacht', price: 50000000, image: '🛥️' },
-];
+const describeStats = (stats: PerformanceStats) =>
+  `CAGR ${formatPercent(stats.cagr, true)} · Max DD ${formatPercent(stats.maxDrawdown)} · Vol ${formatPercent(stats.volatility)}`;
 
 export default function HistoricalReturns() {
   const [loading, setLoading] = useState(false);
-  const [currentBtcPrice, setCurrentBtcPrice] = useState<number>(0);
+  const [coinList, setCoinList] = useState<CoinListItem[]>([DEFAULT_COIN]);
+  const [coinId, setCoinId] = useState(DEFAULT_COIN.id);
+  const [returnInterval, setReturnInterval] = useState<ReturnInterval>('yearly');
+  const [startDate, setStartDate] = useState('2010-01-01');
+  const [endDate, setEndDate] = useState(toDateInput(new Date()));
+  const [currentPrice, setCurrentPrice] = useState<number>(0);
+  const [priceFreshness, setPriceFreshness] = useState<Freshness | null>(null);
+  const [usdRate, setUsdRate] = useState<number>(1);
+  const [series, setSeries] = useState<PricePoint[]>([]);
   const [investment, setInvestment] = useState<number>(1000);
-  const [historicalData, setHistoricalData] = useState<HistoricalReturn[]>([]);
   const [error, setError] = useState<string>('');
+  const [coinListError, setCoinListError] = useState('');
+  const [comparisonItems, setComparisonItems] = usePersistentState<ComparisonItem[]>('comparison-items', DEFAULT_COMPARISON_ITEMS);
+  const [benchmarkIds, setBenchmarkIds] = usePersistentState<BenchmarkId[]>('benchmarks', BENCHMARKS.map(b => b.id));
+  const [compareCoinId, setCompareCoinId] = useState('');
+  const [compareSeries, setCompareSeries] = useState<PricePoint[]>([]);
+  const [comparePrice, setComparePrice] = useState<number>(0);
+  const [compareError, setCompareError] = useState('');
+  // Bumped to fetch the data again for the same inputs
+  const [reloadCount, setReloadCount] = useState(0);
+  const { currency, formatCurrency, formatLargeNumber } = useCurrency();
+
+  const coin = coinList.find(c => c.id === coinId) || DEFAULT_COIN;
+  const compareCoin = coinList.find(c => c.id === compareCoinId);
 
   useEffect(() => {
-    fetchData();
-  }, [investment]);
+    fetchCoinList()
+      .then(coins => {
+        if (coins.length > 0) setCoinList(coins);
+      })
+      .catch(error => setCoinListError(describeMarketError(error, 'Failed to load the list of cryptocurrencies.')));
+  }, []);
 
-  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  // Each change of coin, currency or range supersedes the previous request, so
+  // a slow response can't overwrite a newer one
+  const coinName = coin.name;
+  useEffect(() => {
+    const start = parseDateInput(startDate);
+    const end = parseDateInput(endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      setError('Please choose a start date before the end date.');
+      return;
+    }
 
-  const fetchData = async () => {
+    let cancelled = false;
     setLoading(true);
     setError('');
-    try {
-      // Get current BTC price
-      const currentPriceResponse = await axios.get(
-        'https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd'
-      );
-      const currentPrice = currentPriceResponse.data.bitcoin.usd;
-      setCurrentBtcPrice(currentPrice);
-
-      // Get historical data with delay between requests
-      const years = Array.from({ length: new Date().getFullYear() - 2009 + 1 }, (_, i) => 2009 + i);
-      const historicalPrices = [];
-
-      for (const year of years) {
-        try {
-          // Add delay between requests to avoid rate limiting
-          await delay(1200); // 1.2 second delay between requests
-
-          if (year <= 2010) {
-            // Use approximate values for early years
-            const price = year === 2009 ? 0.05 : 0.1;
-            const btcAmount = investment / price;
-            const currentValue = btcAmount * currentPrice;
-            const multiplier = currentValue / investment;
-
-            const affordableItems = LUXURY_ITEMS
-              .filter(item => currentValue >= item.price)
-              .map(item => `${item.image} ${item.name}`);
-
-            historicalPrices.push({
-              year,
-              price,
-              currentValue,
-              multiplier,
-              whatYouCanBuy: affordableItems,
-            });
-            continue;
-          }
-
-          // Format date as DD-MM-YYYY
-          const date = `01-01-${year}`;
-          const response = await axios.get(
-            `https://api.coingecko.com/api/v3/coins/bitcoin/history?date=${date}&localization=false`
-          );
-
-          const price = response.data.market_data?.current_price?.usd;
-          if (!price) {
-            console.log(`No price data for ${year}, response:`, response.data);
-            continue;
-          }
-
-          const btcAmount = investment / price;
-          const currentValue = btcAmount * currentPrice;
-          const multiplier = currentValue / investment;
-
-          const affordableItems = LUXURY_ITEMS
-            .filter(item => currentValue >= item.price)
-            .map(item => `${item.image} ${item.name}`);
-
-          historicalPrices.push({
-            year,
-            price,
-            currentValue,
-            multiplier,
-            whatYouCanBuy: affordableItems,
-          });
-        } catch (error) {
-          console.error(`Error fetching data for ${year}:`, error);
-          // Continue with next year if there's an error
-          continue;
+    // One range request covers every period; the amount and interval are applied locally
+    Promise.all([
+      fetchSpotPrice(coinId, currency),
+      fetchFiatRate(currency),
+      fetchPriceRange(coinId, start, end, currency)
+    ])
+      .then(([spot, rate, prices]) => {
+        if (cancelled) return;
+        setCurrentPrice(spot.price);
+        setPriceFreshness({ asOf: spot.asOf, stale: spot.stale });
+        setUsdRate(rate);
+        setSeries(prices);
+        if (prices.length === 0) {
+          setError(`No historical data available for ${coinName} in this date range.`);
         }
-      }
-
-      const validPrices = historicalPrices.reverse();
-      if (validPrices.length === 0) {
-        setError('No historical data available. Please try again later.');
-      } else {
-        setHistoricalData(validPrices);
-      }
-    } catch (error) {
-      console.error('Error fetching data:', error);
-      setError('Failed to fetch data. Please try again later. CoinGecko API may be rate limited - please wait a minute and try again.');
-    } finally {
-      setLoading(false);
+      })
+      .catch(error => {
+        if (!cancelled) setError(describeMarketError(error, 'Failed to fetch data. Please try again later.'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [coinId, coinName, currency, startDate, endDate, reloadCount]);
+
+  useEffect(() => {
+    setCompareSeries([]);
+    setComparePrice(0);
+    setCompareError('');
+    const start = parseDateInput(startDate);
+    const end = parseDateInput(endDate);
+    if (!compareCoinId || isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) return;
+
+    let cancelled = false;
+    Promise.all([fetchSpotPrice(compareCoinId, currency), fetchPriceRange(compareCoinId, start, end, currency)])
+      .then(([spot, prices]) => {
+        if (cancelled) return;
+        setComparePrice(spot.price);
+        setCompareSeries(prices);
+      })
+      .catch(error => {
+        if (!cancelled) setCompareError(describeMarketError(error, 'Failed to load the comparison coin.'));
+      });
+    return () => { cancelled = true; };
+  }, [compareCoinId, currency, startDate, endDate]);
+
+  // Sampled once per input change; each row reuses the samples after its date
+  const { coinAsset, comparedAssets } = useMemo(() => {
+    const now = Date.now();
+    const start = parseDateInput(startDate);
+    const compared = benchmarkAssets(benchmarkIds, start, now);
+    if (compareCoin && compareCoin.id !== coinId && compareSeries.length > 0 && comparePrice > 0) {
+      compared.push(comparedAsset(compareCoin.id, compareCoin.name, currency, coinValueAt(compareSeries, comparePrice, now), start, now));
     }
-  };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(value);
-  };
+    return {
+      coinAsset: series.length > 0 && currentPrice > 0
+        ? comparedAsset(coinId, coin.name, currency, coinValueAt(series, currentPrice, now), start, now)
+        : null,
+      comparedAssets: compared
+    };
+  }, [series, currentPrice, coinId, coin.name, currency, startDate, benchmarkIds, compareCoin, compareSeries, comparePrice]);
+
+  const historicalData = useMemo<HistoricalReturn[]>(() => {
+    if (!coinAsset) return [];
+    return buildHistoricalReturns({
+      coin: coinAsset,
+      compared: comparedAssets,
+      currentPrice,
+      investment,
+      interval: returnInterval,
+      start: parseDateInput(startDate),
+      end: parseDateInput(endDate),
+      currency,
+      locale: getCurrency(currency).locale,
+      usdRate,
+      comparisonItems
+    });
+  }, [coinAsset, comparedAssets, currentPrice, usdRate, investment, returnInterval, startDate, endDate, currency, comparisonItems]);
+
+  const firstListedDate = [...historicalData].reverse().find(row => row.price !== null)?.date;
 
-  const formatLargeNumber = (value: number) => {
-    if (value >= 1e9) {
-      return `${(value / 1e9).toFixed(2)}B`;
-    } else if (value >= 1e6) {
-      return `${(value / 1e6).toFixed(2)}M`;
-    } else if (value >= 1e3) {
-      return `${(value / 1e3).toFixed(2)}K`;
+  // Every asset bought on the coin's first listed purchase date
+  const comparisonSeries = useMemo(() => {
+    if (!coinAsset || !firstListedDate || comparedAssets.length === 0) return [];
+    const from = parseDateInput(firstListedDate).getTime();
+    return [coinAsset, ...comparedAssets].map(asset => ({
+      id: asset.id,
+      label: asset.name,
+      color: asset.id === coinAsset.id ? ASSET_COLORS.coin : ASSET_COLORS[asset.id] ?? ASSET_COLORS.other,
+      points: samplesSince(asset.samples, from, asset.valueAt)
+    }));
+  }, [firstListedDate, coinAsset, comparedAssets]);
+
+  const toggleBenchmark = (id: BenchmarkId) =>
+    setBenchmarkIds(benchmarkIds.includes(id) ? benchmarkIds.filter(b => b !== id) : [...benchmarkIds, id]);
+
+  const exportTable = (format: 'csv' | 'json') => {
+    const filename = `${coin.id}-historical-returns-${exportTimestamp()}`;
+    if (format === 'csv') {
+      downloadCsv(
+        `${filename}.csv`,
+        [
+          'Bought',
+          'Period',
+          `Price (${currency.toUpperCase()})`,
+          'Current Value',
+          'Multiplier',
+          'Invested in Today\'s Money',
+          'Real Return (%)',
+          'CAGR (%)',
+          'Max Drawdown (%)',
+          'Volatility (%)',
+          ...comparedAssets.flatMap(asset => [
+            `${asset.name} Multiplier`,
+            `${asset.name} CAGR (%)`,
+            `${asset.name} Max Drawdown (%)`,
+            `${asset.name} Volatility (%)`
+          ]),
+          'What You Could Buy Today'
+        ],
+        historicalData.map(row => [
+          row.date,
+          row.label,
+          row.price,
+          row.currentValue,
+          row.multiplier,
+          row.realReturn?.adjustedInvestment ?? null,
+          row.realReturn?.realReturnPercent ?? null,
+          row.performance.cagr,
+          row.performance.maxDrawdown,
+          row.performance.volatility,
+          ...comparedAssets.flatMap(asset => {
+            const stats = row.comparisons.find(comparison => comparison.id === asset.id)?.stats ?? EMPTY_STATS;
+            return [stats.multiplier, stats.cagr, stats.maxDrawdown, stats.volatility];
+          }),
+          row.whatYouCanBuy.map(describeAffordable).join('; ')
+        ])
+      );
+    } else {
+      downloadJson(`${filename}.json`, {
+        coin: coin.id,
+        currency,
+        investment,
+        interval: returnInterval,
+        startDate,
+        endDate,
+        currentPrice,
+        generatedAt: new Date().toISOString(),
+        returns: historicalData
+      });
     }
-    return value.toFixed(2);
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-6">
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-6 print:bg-none print:py-0">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="text-center mb-8">
           <Link 
             href="/"
-            className="inline-block text-white hover:text-blue-200 mb-4"
+            className="inline-block text-white hover:text-blue-200 mb-4 print:hidden"
           >
             ← Back to Calculator
           </Link>
-          <h1 className="text-4xl font-bold text-white mb-4">
-            Bitcoin Time Machine
+          <div className="mb-4 print:hidden">
+            <CurrencySelector />
+          </div>
+          <h1 className="text-4xl font-bold text-white mb-4 print:text-gray-900">
+            {coin.name} Time Machine
           </h1>
-          <p className="text-xl text-blue-200">
-            See what your investment would be worth if you bought Bitcoin in previous years
+          <p className="text-xl text-blue-200 print:text-gray-600">
+            See what your investment would be worth if you bought {coin.name} in the past
           </p>
         </div>
 
-        <div className="bg-white rounded-lg shadow-xl p-6 mb-8">
-          <div className="mb-6">
+        <div className="bg-white rounded-lg shadow-xl p-6 mb-8 print:shadow-none print:p-0">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6 print:hidden">
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Cryptocurrency</label>
+              <CoinCombobox
+                coins={coinList}
+                value={coinId}
+                onChange={(coin) => {
+                  if (!coin) return;
+                  setCoinList(list => includeCoin(list, coin));
+                  setCoinId(coin.id);
+                }}
+                inputClassName="shadow border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+              />
+              {coinListError && <p className="text-red-500 text-xs italic mt-1">{coinListError}</p>}
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Interval</label>
+              <select
+                value={returnInterval}
+                onChange={(e) => setReturnInterval(e.target.value as ReturnInterval)}
+                className="shadow border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+              >
+                {RETURN_INTERVALS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">End Date</label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                max={toDateInput(new Date())}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+              />
+            </div>
+          </div>
+
+          <div className="mb-6 print:hidden">
             <label className="block text-gray-700 text-sm font-bold mb-2">
-              Investment Amount (USD)
+              Investment Amount ({currency.toUpperCase()})
             </label>
             <div className="flex gap-4">
               <input
@@ -182,7 +344,7 @@ export default function HistoricalReturns() {
                 min="1"
               />
               <button
-                onClick={() => fetchData()}
+                onClick={() => setReloadCount(count => count + 1)}
                 className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
                 disabled={loading}
               >
@@ -191,10 +353,41 @@ export default function HistoricalReturns() {
             </div>
           </div>
 
-          {currentBtcPrice > 0 && (
+          <div className="mb-6 print:hidden">
+            <label className="block text-gray-700 text-sm font-bold mb-2">Compare Against</label>
+            <div className="flex flex-wrap items-center gap-4">
+              {BENCHMARKS.map((benchmark) => (
+                <label key={benchmark.id} className="inline-flex items-center gap-2 text-sm text-gray-700" title={benchmark.description}>
+                  <input
+                    type="checkbox"
+                    checked={benchmarkIds.includes(benchmark.id)}
+                    onChange={() => toggleBenchmark(benchmark.id)}
+                  />
+                  {benchmark.name}
+                </label>
+              ))}
+              <CoinCombobox
+                coins={coinList}
+                value={compareCoinId}
+                onChange={(coin) => {
+                  if (coin) setCoinList(list => includeCoin(list, coin));
+                  setCompareCoinId(coin ? coin.id : '');
+                }}
+                noneLabel="No other coin"
+                exclude={[coinId]}
+                placeholder="Compare with another coin..."
+                className="w-72"
+                inputClassName="shadow border rounded w-full py-1 px-2 text-sm text-gray-700 focus:outline-none focus:shadow-outline"
+              />
+            </div>
+            {compareError && <p className="text-red-500 text-xs italic mt-1">{compareError}</p>}
+          </div>
+
+          {currentPrice > 0 && (
             <div className="text-center mb-6 p-4 bg-blue-50 rounded-lg">
-              <p className="text-gray-600">Current Bitcoin Price</p>
-              <p className="text-2xl font-bold text-blue-600">{formatCurrency(currentBtcPrice)}</p>
+              <p className="text-gray-600">Current {coin.name} Price</p>
+              <p className="text-2xl font-bold text-blue-600">{formatCurrency(currentPrice)}</p>
+              {priceFreshness && <PriceFreshness asOf={priceFreshness.asOf} stale={priceFreshness.stale} />}
             </div>
           )}
 
@@ -204,15 +397,55 @@ export default function HistoricalReturns() {
             </div>
           )}
 
+          {historicalData.length > 0 && (
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-sm text-gray-600">
+                {formatCurrency(investment)} invested in {coin.name}, {startDate} to {endDate}
+              </p>
+              <div className="flex gap-2 print:hidden">
+                <button onClick={() => exportTable('csv')} className="text-sm px-3 py-1 rounded bg-gray-200 text-gray-800 hover:bg-gray-300">
+                  Export CSV
+                </button>
+                <button onClick={() => exportTable('json')} className="text-sm px-3 py-1 rounded bg-gray-200 text-gray-800 hover:bg-gray-300">
+                  Export JSON
+                </button>
+                <button onClick={() => window.print()} className="text-sm px-3 py-1 rounded bg-gray-200 text-gray-800 hover:bg-gray-300">
+                  Print
+                </button>
+              </div>
+            </div>
+          )}
+
+          {historicalData.length > 1 && (
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Value today by purchase date (log scale)</h3>
+              <GrowthChart
+                invested={investment}
+                points={historicalData
+                  .filter(row => row.currentValue !== null)
+                  .map(row => ({ date: row.date, value: row.currentValue as number }))}
+              />
+            </div>
+          )}
+
+          {comparisonSeries.length > 1 && (
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                {formatCurrency(investment)} invested on {firstListedDate} (log scale)
+              </h3>
+              <ComparisonChart invested={investment} series={comparisonSeries} />
+            </div>
+          )}
+
           <div className="overflow-x-auto">
             <table className="min-w-full bg-white">
               <thead>
                 <tr className="bg-gray-100">
                   <th className="px-6 py-3 border-b text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Year
+                    Bought
                   </th>
                   <th className="px-6 py-3 border-b text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Bitcoin Price
+                    {coin.symbol} Price
                   </th>
                   <th className="px-6 py-3 border-b text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Current Value
@@ -220,16 +453,33 @@ export default function HistoricalReturns() {
                   <th className="px-6 py-3 border-b text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Return Multiplier
                   </th>
+                  {comparedAssets.map((asset) => (
+                    <th key={asset.id} className="px-6 py-3 border-b text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {asset.name}
+                    </th>
+                  ))}
+                  <th className="px-6 py-3 border-b text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    After Inflation
+                  </th>
                   <th className="px-6 py-3 border-b text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     What You Could Buy Today
                   </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {historicalData.map((data) => (
-                  <tr key={data.year} className="hover:bg-gray-50">
+                {historicalData.map((data) => data.price === null ? (
+                  <tr key={data.date} className="bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-400">
+                      {data.label}
+                    </td>
+                    <td colSpan={5 + comparedAssets.length} className="px-6 py-4 text-sm italic text-gray-400">
+                      Not listed yet - no {coin.name} price available for this date
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={data.date} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                      {data.year}
+                      {data.label}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatCurrency(data.price)}
@@ -247,15 +497,47 @@ export default function HistoricalReturns() {
                       <span className="font-bold text-blue-600">
                         {data.multiplier.toFixed(2)}x
                       </span>
+                      <br />
+                      <span className="text-xs text-gray-500">{describeStats(data.performance)}</span>
+                    </td>
+                    {data.comparisons.map((comparison) => (
+                      <td key={comparison.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {comparison.stats.multiplier === null ? (
+                          <span className="text-xs text-gray-400">No data</span>
+                        ) : (
+                          <>
+                            <span className="font-semibold text-gray-700">
+                              {comparison.stats.multiplier.toFixed(2)}x
+                            </span>
+                            <br />
+                            <span className="text-xs text-gray-500">{describeStats(comparison.stats)}</span>
+                          </>
+                        )}
+                      </td>
+                    ))}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {data.realReturn && data.realReturn.realReturnPercent !== null ? (
+                        <>
+                          <span className={`font-semibold ${data.realReturn.realReturnPercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {data.realReturn.realReturnPercent >= 0 ? '+' : ''}{data.realReturn.realReturnPercent.toFixed(1)}%
+                          </span>
+                          <br />
+                          <span className="text-xs text-gray-500">
+                            {formatCurrency(data.realReturn.adjustedInvestment)} in today&apos;s money
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-xs text-gray-400">No CPI data</span>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-500">
                       <div className="flex flex-wrap gap-2">
-                        {data.whatYouCanBuy.map((item, index) => (
+                        {data.whatYouCanBuy.map((affordable) => (
                           <span
-                            key={index}
+                            key={affordable.item.id}
                             className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
                           >
-                            {item}
+                            {describeAffordable(affordable)}
                           </span>
                         ))}
                       </div>
@@ -265,6 +547,37 @@ export default function HistoricalReturns() {
               </tbody>
             </table>
           </div>
+
+          {historicalData.length > 0 && (
+            <p className="mt-3 text-xs text-gray-500">
+              Risk figures use month-end prices: CAGR is the annualized return, Max DD the largest fall from a previous high
+              and Vol the annualized volatility.
+              {benchmarkIds.length > 0 && (
+                <> Benchmarks are measured in US dollars with approximate data through{' '}
+                  {new Date(Math.min(...benchmarkIds.map(benchmarkDataEnd))).toISOString().slice(0, 7)}: later purchase dates are not
+                  compared, and earlier ones are valued at the last reading.</>
+              )}
+            </p>
+          )}
+
+          {historicalData.length > 0 && !hasCpiData(currency) && (
+            <p className="mt-3 text-xs text-gray-500">
+              Inflation data is not available for {currency.toUpperCase()}, so real returns are not shown.
+            </p>
+          )}
+
+          <details className="mt-6 print:hidden">
+            <summary className="cursor-pointer text-sm font-semibold text-gray-700">Comparison Items</summary>
+            <div className="mt-3">
+              <ComparisonItemsEditor
+                items={comparisonItems}
+                usdRate={usdRate}
+                onChange={setComparisonItems}
+                // Fresh ids remount the rows so edited prices are replaced
+                onReset={() => setComparisonItems(DEFAULT_COMPARISON_ITEMS.map(item => ({ ...item, id: createComparisonItemId() })))}
+              />
+            </div>
+          </details>
         </div>
       </div>
     </div>
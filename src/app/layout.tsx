@@ -1,6 +1,9 @@
 import './globals.css'
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
+import { CurrencyProvider } from '../components/CurrencyProvider'
+import { WatchlistProvider } from '../components/WatchlistProvider'
+import { OfflineStatus } from '../components/OfflineStatus'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -16,7 +19,12 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className={inter.className}>{children}</body>
+      <body className={inter.className}>
+        <OfflineStatus />
+        <CurrencyProvider>
+          <WatchlistProvider>{children}</WatchlistProvider>
+        </CurrencyProvider>
+      </body>
     </html>
   )
 }
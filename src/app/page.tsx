@@ -1,17 +1,44 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useForm } from 'react-hook-form';
-import axios from 'axios';
 import Link from 'next/link';
-
-interface CryptoProfitCalculatorForm {
-  cryptocurrency: string;
-  investmentType: 'amount' | 'quantity';
-  initialInvestment: number;
-  quantity?: number;
-  targetPrice: number;
-}
+import { fetchCoinList, fetchFiatRate, fetchPriceAtDate, fetchPriceAtTime, fetchSpotPrice } from '../lib/market/client';
+import { describeMarketError } from '../lib/market/errors';
+import { CoinListItem } from '../lib/market/types';
+import { includeCoin } from '../lib/coinSearch';
+import { FEE_PRESETS, NO_TRADING_COSTS } from '../lib/fees';
+import { amountForQuantity, quantityForAmount } from '../lib/calculation';
+import { POSITION_TYPES } from '../lib/futures';
+import { COMPOUNDING_FREQUENCIES, RATE_TYPES } from '../lib/staking';
+import {
+  calculateProfit as computeProfit,
+  CryptoProfitCalculatorForm,
+  entryMoment,
+  ProfitCalculation,
+  sizePosition,
+  toNumber
+} from '../lib/profit';
+import { calculatePosition, COST_BASIS_METHODS, CostBasisMethod, createEntryId, LedgerEntry } from '../lib/ledger';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { DEFAULT_CURRENCY, isSupportedCurrency } from '../lib/currency';
+import { formatAssetAmount } from '../lib/format';
+import LotLedger from '../components/LotLedger';
+import CurrencySelector from '../components/CurrencySelector';
+import { QuoteCurrencyProvider, useCurrency } from '../components/CurrencyProvider';
+import { useWatchlist } from '../components/WatchlistProvider';
+import { crossingAlert } from '../lib/alerts';
+import TakeProfitLadder from '../components/TakeProfitLadder';
+import SensitivityTable from '../components/SensitivityTable';
+import MonteCarloPanel from '../components/MonteCarloPanel';
+import TradeImport from '../components/TradeImport';
+import PriceChart from '../components/PriceChart';
+import PriceFreshness from '../components/PriceFreshness';
+import CoinCombobox from '../components/CoinCombobox';
+import { ImportedEntry } from '../lib/tradeImport';
+import { CalculatorPermalink, decodePermalink, encodePermalink } from '../lib/permalink';
+import { downloadCsv, downloadJson, exportTimestamp } from '../lib/export';
+import { findJurisdiction, TAX_JURISDICTIONS, taxDependsOnCurrency } from '../lib/tax';
 
 interface CryptoData {
   id: string;
@@ -19,179 +46,522 @@ interface CryptoData {
   symbol: string;
   currentPrice: number;
   price_change_24h_percentage?: number;
+  // Currency the price is quoted in and when it was fetched
+  priceCurrency: string;
+  priceAsOf: number;
+  priceStale: boolean;
 }
 
-interface ProfitCalculation {
-  initialInvestment: number;
-  quantity: number;
-  buyPrice: number;
-  targetPrice: number;
-  potentialValue: number;
-  profitAmount: number;
-  profitPercentage: number;
-  breakevenPrice: number;
-}
-
-interface CryptoListItem {
-  id: string;
-  name: string;
-  symbol: string;
-  market_cap_rank?: number;
-}
+const today = () => new Date().toISOString().slice(0, 10);
 
 export default function CryptoProfitCalculator() {
   const [selectedCrypto, setSelectedCrypto] = useState<CryptoData | null>(null);
   const [profitCalc, setProfitCalc] = useState<ProfitCalculation | null>(null);
   const [loading, setLoading] = useState(false);
-  const [cryptoList, setCryptoList] = useState<CryptoListItem[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [cryptoList, setCryptoList] = useState<CoinListItem[]>([]);
   const [loadingCryptoList, setLoadingCryptoList] = useState(true);
-  const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<CryptoProfitCalculatorForm>({
+  const [cryptoListError, setCryptoListError] = useState('');
+  const [priceError, setPriceError] = useState('');
+  const [ledgerEntries, setLedgerEntries] = usePersistentState<LedgerEntry[]>('ledger', []);
+  const [costBasisMethod, setCostBasisMethod] = usePersistentState<CostBasisMethod>('cost-basis-method', 'fifo');
+  const { currency, setCurrency, symbol: fiatSymbol, formatCurrency: formatFiat, formatCrypto } = useCurrency();
+  const [linkCopied, setLinkCopied] = useState(false);
+  const { addAlert, addToWatchlist } = useWatchlist();
+  const [alertAdded, setAlertAdded] = useState('');
+  const [calculationError, setCalculationError] = useState('');
+  const [pastPrice, setPastPrice] = useState<number | null>(null);
+  const [pastPriceError, setPastPriceError] = useState('');
+  // Fiat price of one unit of the quote coin, today and at the past entry
+  const [quoteFiatPrice, setQuoteFiatPrice] = useState<number | null>(null);
+  // Jurisdiction currency per unit of the selected currency, for the tax estimate
+  const [taxCurrencyRate, setTaxCurrencyRate] = useState<number | null>(null);
+  const [pastQuoteFiatPrice, setPastQuoteFiatPrice] = useState<number | null>(null);
+  // Form state from a shared link, applied once the coin list has loaded
+  const pendingPermalink = useRef<CalculatorPermalink | null>(null);
+  const priceRequest = useRef(0);
+  const { register, handleSubmit, watch, setValue, getValues, formState: { errors } } = useForm<CryptoProfitCalculatorForm>({
     defaultValues: {
-      investmentType: 'amount'
+      quoteAsset: '',
+      investmentType: 'amount',
+      entryMode: 'current',
+      entryDate: '',
+      entryTime: '',
+      accountSize: 10000,
+      riskPercent: 1,
+      positionType: 'spot',
+      leverage: 10,
+      marginMode: 'isolated',
+      maintenanceMarginPercent: 0.5,
+      fundingRatePercent: 0.01,
+      holdingDays: 7,
+      crossBalance: 0,
+      feePreset: '',
+      ...NO_TRADING_COSTS,
+      useLedger: false,
+      taxJurisdiction: '',
+      purchaseDate: today(),
+      saleDate: today(),
+      otherIncome: 0,
+      stakingEnabled: false,
+      stakingRateType: 'apy',
+      stakingRatePercent: 5,
+      stakingCompounding: 'daily',
+      stakingCommissionPercent: 0,
+      stakingLockupDays: 0,
+      stakingHorizonDays: 365
     }
   });
 
   const watchCrypto = watch('cryptocurrency');
+  const watchQuoteAsset = watch('quoteAsset');
   const watchInvestmentType = watch('investmentType');
   const watchInitialInvestment = watch('initialInvestment');
   const watchQuantity = watch('quantity');
+  const watchFeePreset = watch('feePreset');
+  const watchUseLedger = watch('useLedger');
+  const watchTaxJurisdiction = watch('taxJurisdiction');
+  const watchTargetPrice = watch('targetPrice');
+  const watchPositionType = watch('positionType');
+  const watchStakingEnabled = watch('stakingEnabled');
+  const watchMarginMode = watch('marginMode');
+  const watchStopLossPrice = watch('stopLossPrice');
+  const watchAccountSize = watch('accountSize');
+  const watchRiskPercent = watch('riskPercent');
+  const watchBuyFeePercent = watch('buyFeePercent');
+  const watchSellFeePercent = watch('sellFeePercent');
+  const watchSlippagePercent = watch('slippagePercent');
+  const watchEntryMode = watch('entryMode');
+  const watchEntryDate = watch('entryDate');
+  const watchEntryTime = watch('entryTime');
+  const pastEntryMode = watchEntryMode === 'past' && !watchUseLedger;
+  // Price the position is bought at: today's, or the historical one in past-entry mode
+  const entryPrice = !selectedCrypto ? null : pastEntryMode ? pastPrice : selectedCrypto.currentPrice;
+  const selectedJurisdiction = findJurisdiction(watchTaxJurisdiction);
+
+  // The coin prices are quoted in, or null for the selected fiat currency.
+  // Amounts entered and shown by the calculator are all in `priceCurrency`.
+  // Follows the list entry rather than the list, so adding coins to the list
+  // doesn't refetch the quote's prices
+  const quoteListing = watchQuoteAsset ? cryptoList.find(c => c.id === watchQuoteAsset) : undefined;
+  const quoteCoin = useMemo(
+    () => quoteListing ? { id: quoteListing.id, name: quoteListing.name, symbol: quoteListing.symbol } : null,
+    [quoteListing]
+  );
+  const priceCurrency = quoteCoin ? quoteCoin.id : currency;
+  const symbol = quoteCoin ? quoteCoin.symbol : fiatSymbol;
+  const formatCurrency = (value: number) =>
+    quoteCoin ? formatAssetAmount(value, quoteCoin.symbol, currency) : formatFiat(value);
 
   useEffect(() => {
-    if (watchCrypto) {
-      fetchCryptoPrice(watchCrypto);
+    setQuoteFiatPrice(null);
+    if (!quoteCoin) return;
+    let cancelled = false;
+    fetchSpotPrice(quoteCoin.id, currency)
+      .then(quote => {
+        if (!cancelled) setQuoteFiatPrice(quote.price);
+      })
+      .catch(error => {
+        if (!cancelled) setPriceError(describeMarketError(error, `Failed to fetch the ${quoteCoin.name} price.`));
+      });
+    return () => { cancelled = true; };
+  }, [quoteCoin, currency]);
+
+  // Tax brackets are in the jurisdiction's currency; both fiat rates are per USD
+  useEffect(() => {
+    setTaxCurrencyRate(null);
+    if (!selectedJurisdiction || !taxDependsOnCurrency(selectedJurisdiction)) return;
+    const taxCurrency = selectedJurisdiction.currency.toLowerCase();
+    if (taxCurrency === currency) {
+      setTaxCurrencyRate(1);
+      return;
     }
-  }, [watchCrypto]);
+    let cancelled = false;
+    Promise.all([fetchFiatRate(taxCurrency), fetchFiatRate(currency)])
+      .then(([taxRate, rate]) => {
+        if (!cancelled && rate > 0) setTaxCurrencyRate(taxRate / rate);
+      })
+      // Without a rate the estimate is left out, which the results point out
+      .catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [selectedJurisdiction, currency]);
 
+  // A result computed in another currency would be mislabelled
   useEffect(() => {
+    setProfitCalc(null);
+  }, [currency, priceCurrency]);
+
+  useEffect(() => {
+    pendingPermalink.current = decodePermalink(window.location.search);
     fetchCryptoList();
   }, []);
 
+  useEffect(() => {
+    const link = pendingPermalink.current;
+    if (!link || cryptoList.length === 0) return;
+    if (!cryptoList.some(c => c.id === link.coin)) {
+      pendingPermalink.current = null;
+      return;
+    }
+    if (link.currency && isSupportedCurrency(link.currency)) {
+      setCurrency(link.currency);
+    }
+    setValue('useLedger', false);
+    setValue('investmentType', link.investmentType);
+    if (link.investmentType === 'amount') {
+      setValue('initialInvestment', link.amount);
+    } else {
+      setValue('quantity', link.quantity);
+    }
+    setValue('targetPrice', link.targetPrice);
+    setValue('entryMode', link.entryDate ? 'past' : 'current');
+    setValue('entryDate', link.entryDate || '');
+    setValue('entryTime', link.entryTime || '');
+    setValue('quoteAsset', link.quoteAsset && cryptoList.some(c => c.id === link.quoteAsset) ? link.quoteAsset : '');
+    setValue('cryptocurrency', link.coin);
+  }, [cryptoList, setCurrency, setValue]);
+
   const fetchCryptoList = async () => {
     setLoadingCryptoList(true);
+    setCryptoListError('');
     try {
-      const response = await axios.get(
-        'https://api.coingecko.com/api/v3/coins/markets',
-        {
-          params: {
-            vs_currency: 'usd',
-            order: 'market_cap_desc',
-            per_page: 1000,
-            page: 1,
-            sparkline: false
-          }
-        }
-      );
-      const cryptos = response.data.map((crypto: any) => ({
-        id: crypto.id,
-        name: crypto.name,
-        symbol: crypto.symbol.toUpperCase(),
-        market_cap_rank: crypto.market_cap_rank
-      }));
+      const cryptos = await fetchCoinList();
       setCryptoList(cryptos);
     } catch (error) {
-      console.error('Error fetching crypto list:', error);
+      setCryptoListError(describeMarketError(error, 'Failed to load the list of cryptocurrencies.'));
     } finally {
       setLoadingCryptoList(false);
     }
   };
 
-  const fetchCryptoPrice = async (cryptoId: string) => {
+  // Only the latest request may update the price, so switching coins quickly
+  // can't leave an earlier coin's late response on screen
+  const fetchCryptoPrice = useCallback(async (cryptoId: string) => {
+    const request = ++priceRequest.current;
     setLoading(true);
+    setPriceError('');
     try {
-      const response = await axios.get(
-        `https://api.coingecko.com/api/v3/simple/price?ids=${cryptoId}&vs_currencies=usd&include_24hr_change=true`
-      );
-      const price = response.data[cryptoId].usd;
-      const priceChange = response.data[cryptoId].usd_24h_change;
+      const { price, change24h: priceChange, asOf, stale } = await fetchSpotPrice(cryptoId, priceCurrency);
+      if (request !== priceRequest.current) return;
       const crypto = cryptoList.find(c => c.id === cryptoId);
       if (crypto) {
         setSelectedCrypto({
           ...crypto,
           currentPrice: price,
-          price_change_24h_percentage: priceChange
+          price_change_24h_percentage: priceChange,
+          priceCurrency,
+          priceAsOf: asOf,
+          priceStale: stale
         });
       }
     } catch (error) {
-      console.error('Error fetching price:', error);
+      if (request !== priceRequest.current) return;
+      setPriceError(describeMarketError(error, 'Failed to fetch the current price.'));
+      // Keep an older price for the same coin and currency, but never another coin's
+      setSelectedCrypto(current => current?.id === cryptoId && current.priceCurrency === priceCurrency ? current : null);
     } finally {
-      setLoading(false);
+      if (request === priceRequest.current) setLoading(false);
+    }
+  }, [cryptoList, priceCurrency]);
+
+  useEffect(() => {
+    if (watchCrypto) {
+      fetchCryptoPrice(watchCrypto);
+    }
+  }, [watchCrypto, fetchCryptoPrice]);
+
+  const selectCrypto = (coin: CoinListItem | null) => {
+    if (!coin) return;
+    setCryptoList(list => includeCoin(list, coin));
+    setValue('cryptocurrency', coin.id, { shouldValidate: true });
+  };
+
+  // The ledger is kept in fiat, so it is set aside while a quote coin is used
+  const selectQuoteAsset = (coin: CoinListItem | null) => {
+    if (coin) {
+      setCryptoList(list => includeCoin(list, coin));
+      setValue('useLedger', false);
     }
+    setValue('quoteAsset', coin ? coin.id : '');
   };
 
-  const filteredCryptoList = useMemo(() => {
-    if (!searchQuery) return cryptoList;
-    const query = searchQuery.toLowerCase();
-    return cryptoList.filter(
-      crypto =>
-        crypto.name.toLowerCase().includes(query) ||
-        crypto.symbol.toLowerCase().includes(query) ||
-        crypto.id.toLowerCase().includes(query)
-    );
-  }, [cryptoList, searchQuery]);
+  const coinLedgerEntries = useMemo(
+    () => ledgerEntries.filter(
+      entry => entry.coinId === selectedCrypto?.id && (entry.currency || DEFAULT_CURRENCY) === currency
+    ),
+    [ledgerEntries, selectedCrypto, currency]
+  );
 
-  const calculateProfit = (data: CryptoProfitCalculatorForm) => {
+  const ledgerPosition = useMemo(() => {
+    if (!selectedCrypto || selectedCrypto.priceCurrency !== currency || coinLedgerEntries.length === 0) return null;
+    return calculatePosition(coinLedgerEntries, costBasisMethod, selectedCrypto.currentPrice);
+  }, [coinLedgerEntries, costBasisMethod, selectedCrypto, currency]);
+
+  const addLedgerEntry = (entry: Omit<LedgerEntry, 'id' | 'coinId' | 'currency'>) => {
     if (!selectedCrypto) return;
+    setLedgerEntries(entries => [...entries, { ...entry, id: createEntryId(), coinId: selectedCrypto.id, currency }]);
+  };
 
-    const investment = parseFloat(data.initialInvestment.toString());
-    const quantity = parseFloat((data.quantity || 0).toString());
-    const targetPrice = parseFloat(data.targetPrice.toString());
-    const buyPrice = investment / quantity;
-
-    const potentialValue = quantity * targetPrice;
-    const profitAmount = potentialValue - investment;
-    const profitPercentage = (profitAmount / investment) * 100;
-    const breakevenPrice = investment / quantity;
-
-    setProfitCalc({
-      initialInvestment: investment,
-      quantity: quantity,
-      buyPrice: buyPrice,
-      targetPrice: targetPrice,
-      potentialValue: potentialValue,
-      profitAmount: profitAmount,
-      profitPercentage: profitPercentage,
-      breakevenPrice: breakevenPrice
-    });
+  const importLedgerEntries = (entries: ImportedEntry[]) => {
+    setLedgerEntries(current => [...current, ...entries.map(entry => ({ ...entry, id: createEntryId() }))]);
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(value);
+  const showLedgerPosition = (coinId: string) => {
+    setValue('quoteAsset', '');
+    setValue('cryptocurrency', coinId);
+    setValue('useLedger', true);
   };
 
-  const formatCrypto = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 8
-    }).format(value);
+  const removeLedgerEntry = (id: string) => {
+    setLedgerEntries(entries => entries.filter(entry => entry.id !== id));
   };
 
+  const calculateProfit = (data: CryptoProfitCalculatorForm) => {
+    if (!selectedCrypto) return;
+    if (quoteCoin && quoteFiatPrice === null) {
+      setCalculationError(`The ${quoteCoin.name} price in ${currency.toUpperCase()} is still loading. Please try again in a moment.`);
+      return;
+    }
+
+    const { calculation, error } = computeProfit(data, {
+      crypto: { id: selectedCrypto.id, name: selectedCrypto.name, symbol: selectedCrypto.symbol },
+      currentPrice: selectedCrypto.currentPrice,
+      pastPrice,
+      ledgerPosition,
+      taxCurrencyRate,
+      quote: quoteCoin ? {
+        ...quoteCoin,
+        fiatCurrency: currency,
+        fiatPrice: quoteFiatPrice,
+        entryFiatPrice: pastQuoteFiatPrice ?? undefined
+      } : undefined
+    });
+    setAlertAdded('');
+    setCalculationError(error || '');
+    setProfitCalc(calculation);
+  };
+
+  // Fill both sides' fee rates from the selected exchange preset
+  useEffect(() => {
+    const preset = FEE_PRESETS.find(p => p.id === watchFeePreset);
+    if (preset) {
+      setValue('buyFeePercent', preset.feePercent);
+      setValue('sellFeePercent', preset.feePercent);
+    }
+  }, [watchFeePreset, setValue]);
+
+  // Look up the buy price for past-entry mode. Keyed on the coin id so the
+  // periodic spot refresh doesn't refetch it.
+  const selectedCoinId = selectedCrypto?.id;
+  const selectedCoinName = selectedCrypto?.name;
+  useEffect(() => {
+    setPastPrice(null);
+    setPastPriceError('');
+    setPastQuoteFiatPrice(null);
+    if (!selectedCoinId || !pastEntryMode || !watchEntryDate) return;
+    const at = entryMoment(watchEntryDate, watchEntryTime);
+    if (isNaN(at.getTime()) || at.getTime() > Date.now()) {
+      setPastPriceError('Please choose a purchase date in the past.');
+      return;
+    }
+
+    let cancelled = false;
+    const priceOn = (id: string, vs: string) => watchEntryTime ? fetchPriceAtTime(id, at, vs) : fetchPriceAtDate(id, at, vs);
+    // Without the quote coin's fiat price on that day, the fiat equivalents
+    // fall back to today's
+    const quoteLookup = quoteCoin
+      ? priceOn(quoteCoin.id, currency).catch(() => null)
+      : Promise.resolve(null);
+    Promise.all([priceOn(selectedCoinId, priceCurrency), quoteLookup])
+      .then(([price, quotePrice]) => {
+        if (cancelled) return;
+        if (price === null) {
+          setPastPriceError(`No ${selectedCoinName} price is available for that date.`);
+        } else {
+          setPastPrice(price);
+          setPastQuoteFiatPrice(quotePrice);
+        }
+      })
+      .catch(error => {
+        if (!cancelled) setPastPriceError(describeMarketError(error, 'Failed to fetch the historical price. Please try again.'));
+      });
+    return () => { cancelled = true; };
+  }, [selectedCoinId, selectedCoinName, pastEntryMode, watchEntryDate, watchEntryTime, priceCurrency, currency, quoteCoin]);
+
+  // The tax estimate's acquisition date follows the past purchase date
+  useEffect(() => {
+    if (pastEntryMode && watchEntryDate) {
+      setValue('purchaseDate', watchEntryDate);
+    }
+  }, [pastEntryMode, watchEntryDate, setValue]);
+
   // Auto-calculate quantity when investment amount changes
   useEffect(() => {
-    if (selectedCrypto && watchInvestmentType === 'amount' && watchInitialInvestment > 0) {
-      const quantity = watchInitialInvestment / selectedCrypto.currentPrice;
-      setValue('quantity', parseFloat(quantity.toFixed(8)));
+    if (entryPrice && watchInvestmentType === 'amount' && watchInitialInvestment > 0) {
+      const quantity = quantityForAmount(watchInitialInvestment, entryPrice);
+      if (quantity !== null) setValue('quantity', quantity);
     }
-  }, [watchInvestmentType, watchInitialInvestment, selectedCrypto]);
+  }, [watchInvestmentType, watchInitialInvestment, entryPrice, setValue]);
 
   // Auto-calculate investment when quantity changes
   useEffect(() => {
-    if (selectedCrypto && watchInvestmentType === 'quantity' && watchQuantity > 0) {
-      const investment = watchQuantity * selectedCrypto.currentPrice;
-      setValue('initialInvestment', parseFloat(investment.toFixed(2)));
+    if (entryPrice && watchInvestmentType === 'quantity' && watchQuantity > 0) {
+      setValue('initialInvestment', amountForQuantity(watchQuantity, entryPrice, Boolean(quoteCoin)));
+    }
+  }, [watchInvestmentType, watchQuantity, entryPrice, quoteCoin, setValue]);
+
+  // Size the position from the account risk and stop distance
+  const riskSizing = useMemo(() => {
+    if (!entryPrice || watchInvestmentType !== 'risk') return null;
+    return sizePosition({
+      investmentType: 'risk',
+      quoteAsset: watchQuoteAsset,
+      positionType: watchPositionType,
+      accountSize: watchAccountSize,
+      riskPercent: watchRiskPercent,
+      stopLossPrice: watchStopLossPrice,
+      buyFeePercent: watchBuyFeePercent,
+      sellFeePercent: watchSellFeePercent,
+      slippagePercent: watchSlippagePercent
+    }, entryPrice);
+  }, [entryPrice, watchInvestmentType, watchQuoteAsset, watchPositionType, watchAccountSize, watchRiskPercent,
+    watchStopLossPrice, watchBuyFeePercent, watchSellFeePercent, watchSlippagePercent]);
+
+  useEffect(() => {
+    if (riskSizing) {
+      setValue('quantity', riskSizing.quantity);
+      setValue('initialInvestment', riskSizing.initialInvestment);
     }
-  }, [watchInvestmentType, watchQuantity, selectedCrypto]);
+  }, [riskSizing, setValue]);
+
+  // Recompute a shared calculation once its coin's price has arrived. Declared
+  // after the auto-calculate effects so the derived field is already filled.
+  useEffect(() => {
+    const link = pendingPermalink.current;
+    const priced = selectedCrypto?.priceCurrency === priceCurrency && (!quoteCoin || quoteFiatPrice !== null);
+    if (link && selectedCrypto?.id === link.coin && entryPrice && priced) {
+      pendingPermalink.current = null;
+      handleSubmit(calculateProfit)();
+    }
+    // Only the arrival of prices should trigger this; the submit handler is
+    // rebuilt on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCrypto, entryPrice, quoteFiatPrice]);
+
+  // Alerts fire when the price moves from today's price to the given level,
+  // in whichever direction that is
+  const alertAtPrice = (price: number, label: string) => {
+    if (!profitCalc || !isFinite(price)) return;
+    const currentPrice = selectedCrypto?.id === profitCalc.crypto.id ? selectedCrypto.currentPrice : profitCalc.buyPrice;
+    addAlert(crossingAlert(profitCalc.crypto.id, currency, price, currentPrice, label));
+    addToWatchlist(profitCalc.crypto.id);
+    setAlertAdded(label);
+  };
+
+  // Dragging the target line on the chart edits the form; an existing result is
+  // recalculated so the overlays follow
+  const updateTargetFromChart = (price: number) => {
+    setValue('targetPrice', price, { shouldValidate: true });
+    if (profitCalc) {
+      handleSubmit(calculateProfit)();
+    }
+  };
+
+  const chartCalc = profitCalc && selectedCrypto && profitCalc.crypto.id === selectedCrypto.id ? profitCalc : null;
+
+  const shareLink = async () => {
+    if (!profitCalc) return;
+    const query = encodePermalink({
+      coin: profitCalc.crypto.id,
+      investmentType: getValues('investmentType') === 'amount' ? 'amount' : 'quantity',
+      amount: profitCalc.initialInvestment,
+      quantity: profitCalc.quantity,
+      targetPrice: profitCalc.targetPrice,
+      currency,
+      quoteAsset: profitCalc.quote?.id,
+      entryDate: profitCalc.pastEntry?.date,
+      entryTime: profitCalc.pastEntry?.time
+    });
+    const url = `${window.location.origin}${window.location.pathname}?${query}`;
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard access denied: the link is already in the address bar
+    }
+  };
+
+  const summaryRows = (calc: ProfitCalculation): [string, string | number][] => [
+    ['Coin', calc.crypto.name],
+    ['Currency', calc.quote ? calc.quote.symbol : currency.toUpperCase()],
+    ['Initial Investment', calc.initialInvestment],
+    ['Quantity', calc.quantity],
+    ['Average Buy Price', calc.buyPrice],
+    ['Target Price', calc.targetPrice],
+    ['Potential Value', calc.potentialValue],
+    ['Gross Profit', calc.grossProfit],
+    ['Total Fees', calc.totalFees],
+    ['Total Cost', calc.totalCost],
+    ['Net Profit', calc.netProfit],
+    ['Profit Percentage', calc.profitPercentage],
+    ['Breakeven Price', calc.breakevenPrice],
+    ...(calc.pastEntry ? [
+      ['Purchase Date', calc.pastEntry.time ? `${calc.pastEntry.date} ${calc.pastEntry.time} UTC` : calc.pastEntry.date],
+      ['Value Today', calc.pastEntry.currentValue],
+      ['Profit/Loss to Date', calc.pastEntry.currentProfit.amount],
+      ['Holding Period (days)', calc.pastEntry.holdingDays],
+      ['CAGR', calc.pastEntry.cagr ?? 'N/A']
+    ] as [string, string | number][] : []),
+    ...(calc.risk ? [
+      ['Stop-Loss Price', calc.risk.stopLossPrice],
+      ['Loss at Stop', calc.risk.lossAtStop],
+      ['Risk/Reward Ratio', calc.risk.riskRewardRatio ?? 'N/A'],
+      ['Break-even Win Rate', calc.risk.breakevenWinRate ?? 'N/A']
+    ] as [string, string | number][] : []),
+    ...(calc.futures ? [
+      ['Position', `${calc.futures.side} ${calc.futures.leverage}x ${calc.futures.marginMode}`],
+      ['Required Margin', calc.futures.requiredMargin],
+      ['Liquidation Price', calc.futures.liquidationPrice ?? 'None'],
+      ['Funding Cost', calc.futures.fundingCost],
+      ['ROE', calc.futures.roe]
+    ] as [string, string | number][] : []),
+    ...(calc.staking ? [
+      ['Staking Net Yield (%/yr)', calc.staking.netApy],
+      ['Staking Horizon (days)', calc.staking.params.horizonDays],
+      ['Balance incl. Rewards', calc.staking.finalQuantity],
+      ['Value at Target incl. Rewards', calc.staking.potentialValue],
+      ['Net Profit incl. Rewards', calc.staking.netProfit],
+      ['Profit from Price', calc.staking.priceProfit],
+      ['Profit from Yield', calc.staking.yieldProfit]
+    ] as [string, number][] : []),
+    ...(calc.quote ? [
+      [`${calc.quote.symbol} Price (${currency.toUpperCase()})`, calc.quote.fiatPrice],
+      [`Initial Investment (${currency.toUpperCase()})`, calc.quote.fiatInvestment],
+      [`Potential Value (${currency.toUpperCase()})`, calc.quote.fiatPotentialValue],
+      [`Net Profit (${currency.toUpperCase()})`, calc.quote.fiatNetProfit]
+    ] as [string, number][] : []),
+    ...(calc.tax ? [
+      ['Estimated Tax', calc.tax.tax],
+      ['After-Tax Profit', calc.tax.afterTaxProfit]
+    ] as [string, number][] : [])
+  ];
+
+  const exportSummary = (format: 'csv' | 'json') => {
+    if (!profitCalc) return;
+    const filename = `${profitCalc.crypto.id}-profit-${exportTimestamp()}`;
+    if (format === 'csv') {
+      downloadCsv(`${filename}.csv`, ['Field', 'Value'], summaryRows(profitCalc));
+    } else {
+      downloadJson(`${filename}.json`, { currency, generatedAt: new Date().toISOString(), ...profitCalc });
+    }
+  };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-6 flex flex-col justify-center sm:py-12">
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-6 flex flex-col justify-center sm:py-12 print:bg-none print:py-0">
       <div className="relative py-3 sm:max-w-xl sm:mx-auto">
-        <div className="absolute inset-0 bg-gradient-to-r from-cyan-400 to-light-blue-500 shadow-lg transform -skew-y-6 sm:skew-y-0 sm:-rotate-6 sm:rounded-3xl"></div>
-        <div className="relative px-4 py-10 bg-white shadow-lg sm:rounded-3xl sm:p-20">
+        <div className="absolute inset-0 bg-gradient-to-r from-cyan-400 to-light-blue-500 shadow-lg transform -skew-y-6 sm:skew-y-0 sm:-rotate-6 sm:rounded-3xl print:hidden"></div>
+        <div className="relative px-4 py-10 bg-white shadow-lg sm:rounded-3xl sm:p-20 print:shadow-none print:p-0">
           <div className="max-w-md mx-auto">
             <div className="divide-y divide-gray-200">
               <div className="py-8 text-base leading-6 space-y-4 text-gray-700 sm:text-lg sm:leading-7">
@@ -199,57 +569,105 @@ export default function CryptoProfitCalculator() {
                   Crypto Profit Calculator
                 </h2>
                 
-                <div className="mb-8 text-center">
+                <div className="mb-8 flex flex-col items-center space-y-4 print:hidden">
+                  <CurrencySelector />
                   <Link 
                     href="/historical-returns" 
                     className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
                   >
-                    🚀 Check Historical Bitcoin Returns
+                    🚀 Check Historical Returns
+                  </Link>
+                  <Link 
+                    href="/dca" 
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+                  >
+                    📈 Dollar-Cost Averaging Simulator
+                  </Link>
+                  <Link 
+                    href="/watchlist" 
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+                  >
+                    🔔 Watchlist & Alerts
+                  </Link>
+                  <Link 
+                    href="/portfolio" 
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+                  >
+                    💼 Portfolio & Rebalancing
                   </Link>
                 </div>
 
-                <form onSubmit={handleSubmit(calculateProfit)} className="space-y-6">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Search Cryptocurrency</label>
-                    <input
-                      type="text"
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Search by name or symbol..."
-                      value={searchQuery}
-                      onChange={(e) => setSearchQuery(e.target.value)}
-                    />
-                  </div>
-
+                <form onSubmit={handleSubmit(calculateProfit)} className="space-y-6 print:hidden">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Select Cryptocurrency</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Cryptocurrency</label>
+                    <input type="hidden" {...register('cryptocurrency', { required: true })} />
                     {loadingCryptoList ? (
                       <div className="text-center py-4">
                         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
                         <p className="mt-2 text-sm text-gray-500">Loading cryptocurrencies...</p>
                       </div>
                     ) : (
-                      <select
-                        {...register('cryptocurrency', { required: true })}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      >
-                        <option value="">Select a cryptocurrency</option>
-                        {filteredCryptoList.map((crypto) => (
-                          <option key={crypto.id} value={crypto.id}>
-                            {crypto.market_cap_rank ? `#${crypto.market_cap_rank} ` : ''}{crypto.name} ({crypto.symbol})
-                          </option>
-                        ))}
-                      </select>
+                      <CoinCombobox coins={cryptoList} value={watchCrypto} onChange={selectCrypto} />
                     )}
                     {errors.cryptocurrency && (
                       <span className="text-red-500 text-sm">Please select a cryptocurrency</span>
                     )}
+                    {cryptoListError && (
+                      <div className="mt-2 flex items-center justify-between gap-2 bg-red-50 border border-red-200 text-red-700 text-sm px-3 py-2 rounded-md">
+                        <span>{cryptoListError}</span>
+                        <button type="button" onClick={fetchCryptoList} className="font-medium hover:text-red-900">
+                          Retry
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Quote Asset</label>
+                    <input type="hidden" {...register('quoteAsset')} />
+                    <CoinCombobox
+                      coins={cryptoList}
+                      value={watchQuoteAsset}
+                      onChange={selectQuoteAsset}
+                      noneLabel={`${currency.toUpperCase()} (selected currency)`}
+                      exclude={watchCrypto ? [watchCrypto] : []}
+                      placeholder={`${currency.toUpperCase()} (selected currency)`}
+                    />
+                    {quoteCoin && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Prices, amounts and fees are in {quoteCoin.symbol}; results also show the {currency.toUpperCase()} equivalent.
+                        {quoteFiatPrice !== null && ` 1 ${quoteCoin.symbol} = ${formatFiat(quoteFiatPrice)}.`}
+                      </p>
+                    )}
                   </div>
 
+                  {priceError && (
+                    <div className="flex items-center justify-between gap-2 bg-red-50 border border-red-200 text-red-700 text-sm px-3 py-2 rounded-md">
+                      <span>{priceError}</span>
+                      {watchCrypto && (
+                        <button type="button" onClick={() => fetchCryptoPrice(watchCrypto)} className="font-medium hover:text-red-900">
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  )}
+
                   {selectedCrypto && (
                     <div className="bg-blue-50 p-4 rounded-md space-y-2">
                       <p className="text-sm text-blue-800">
                         Current {selectedCrypto.name} Price: {formatCurrency(selectedCrypto.currentPrice)}
                       </p>
+                      <div className="flex items-center gap-3">
+                        <PriceFreshness asOf={selectedCrypto.priceAsOf} stale={selectedCrypto.priceStale} />
+                        <button
+                          type="button"
+                          onClick={() => fetchCryptoPrice(selectedCrypto.id)}
+                          disabled={loading}
+                          className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          Refresh
+                        </button>
+                      </div>
                       {selectedCrypto.price_change_24h_percentage && (
                         <p className={`text-sm ${selectedCrypto.price_change_24h_percentage >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                           24h Change: {selectedCrypto.price_change_24h_percentage.toFixed(2)}%
@@ -258,62 +676,286 @@ export default function CryptoProfitCalculator() {
                     </div>
                   )}
 
-                  <div className="flex space-x-4">
-                    <label className="flex items-center">
-                      <input
-                        type="radio"
-                        value="amount"
-                        {...register('investmentType')}
-                        className="mr-2"
+                  {selectedCrypto && (
+                    <QuoteCurrencyProvider asset={quoteCoin}>
+                      <PriceChart
+                        coinId={selectedCrypto.id}
+                        buyPrice={chartCalc?.buyPrice}
+                        breakevenPrice={chartCalc?.breakevenPrice}
+                        targetPrice={toNumber(watchTargetPrice) || undefined}
+                        stopLossPrice={toNumber(watchStopLossPrice) || undefined}
+                        onTargetChange={updateTargetFromChart}
                       />
-                      Invest Amount
-                    </label>
-                    <label className="flex items-center">
-                      <input
-                        type="radio"
-                        value="quantity"
-                        {...register('investmentType')}
-                        className="mr-2"
+                    </QuoteCurrencyProvider>
+                  )}
+
+                  {selectedCrypto && !quoteCoin && (
+                    <details className="border border-gray-200 rounded-md p-4" open={watchUseLedger}>
+                      <summary className="text-sm font-medium text-gray-700 cursor-pointer">Position Ledger</summary>
+                      <div className="mt-4 space-y-4">
+                        <label className="flex items-center text-sm">
+                          <input type="checkbox" {...register('useLedger')} className="mr-2" />
+                          Use ledger position for {selectedCrypto.symbol}
+                        </label>
+                        <LotLedger
+                          coinSymbol={selectedCrypto.symbol}
+                          entries={coinLedgerEntries}
+                          method={costBasisMethod}
+                          position={ledgerPosition}
+                          onMethodChange={setCostBasisMethod}
+                          onAdd={addLedgerEntry}
+                          onRemove={removeLedgerEntry}
+                        />
+                      </div>
+                    </details>
+                  )}
+
+                  <details className="border border-gray-200 rounded-md p-4">
+                    <summary className="text-sm font-medium text-gray-700 cursor-pointer">Import Trades (CSV)</summary>
+                    <div className="mt-4">
+                      <TradeImport
+                        coins={cryptoList}
+                        currency={currency}
+                        onImport={importLedgerEntries}
+                        onSelectCoin={showLedgerPosition}
                       />
-                      Enter Quantity
-                    </label>
+                    </div>
+                  </details>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Position Type</label>
+                    <select {...register('positionType')} className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500">
+                      {POSITION_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
                   </div>
 
-                  {watchInvestmentType === 'amount' ? (
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Investment Amount ($)</label>
-                      <input
-                        type="number"
-                        step="0.01"
-                        {...register('initialInvestment', { required: true, min: 0 })}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                        placeholder="Enter investment amount"
-                      />
-                      {errors.initialInvestment && (
-                        <span className="text-red-500 text-sm">Please enter a valid amount</span>
-                      )}
+                  {watchPositionType !== 'spot' && (
+                    <div className="border border-gray-200 rounded-md p-4 space-y-4">
+                      <p className="text-sm text-gray-600">
+                        The amount or quantity below is the position size at today&apos;s price. Opening and closing use the buy and sell fee rates from Fees &amp; Slippage.
+                      </p>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Leverage (x)</label>
+                          <input
+                            type="number"
+                            step="any"
+                            {...register('leverage', { min: 1 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Margin Mode</label>
+                          <select {...register('marginMode')} className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500">
+                            <option value="isolated">Isolated</option>
+                            <option value="cross">Cross</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Maintenance Margin (%)</label>
+                          <input
+                            type="number"
+                            step="any"
+                            {...register('maintenanceMarginPercent', { min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Funding Rate (% per 8h)</label>
+                          <input
+                            type="number"
+                            step="any"
+                            {...register('fundingRatePercent', { min: -100 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Holding Period (days)</label>
+                          <input
+                            type="number"
+                            step="any"
+                            {...register('holdingDays', { min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        {watchMarginMode === 'cross' && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Other Wallet Balance ({symbol})</label>
+                            <input
+                              type="number"
+                              step="any"
+                              {...register('crossBalance', { min: 0 })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  ) : (
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
-                      <input
-                        type="number"
-                        step="0.000001"
-                        {...register('quantity', { required: true, min: 0 })}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                        placeholder="Enter quantity"
-                      />
-                      {errors.quantity && (
-                        <span className="text-red-500 text-sm">Please enter a valid quantity</span>
+                  )}
+
+                  {!watchUseLedger && (
+                    <>
+                      <div className="flex space-x-4">
+                        <label className="flex items-center">
+                          <input
+                            type="radio"
+                            value="current"
+                            {...register('entryMode')}
+                            className="mr-2"
+                          />
+                          Buy at Current Price
+                        </label>
+                        <label className="flex items-center">
+                          <input
+                            type="radio"
+                            value="past"
+                            {...register('entryMode')}
+                            className="mr-2"
+                          />
+                          Bought in the Past
+                        </label>
+                      </div>
+
+                      {pastEntryMode && (
+                        <div className="space-y-2">
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Purchase Date</label>
+                              <input
+                                type="date"
+                                max={today()}
+                                {...register('entryDate', { required: pastEntryMode })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Time (optional, UTC)</label>
+                              <input
+                                type="time"
+                                {...register('entryTime')}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                          </div>
+                          {errors.entryDate && (
+                            <span className="text-red-500 text-sm">Please choose a purchase date</span>
+                          )}
+                          {pastPriceError && <p className="text-red-500 text-sm">{pastPriceError}</p>}
+                          {pastPrice !== null && selectedCrypto && (
+                            <p className="text-sm text-blue-800">
+                              {selectedCrypto.name} price then: {formatCurrency(pastPrice)}
+                            </p>
+                          )}
+                        </div>
                       )}
-                    </div>
+
+                      <div className="flex space-x-4">
+                        <label className="flex items-center">
+                          <input
+                            type="radio"
+                            value="amount"
+                            {...register('investmentType')}
+                            className="mr-2"
+                          />
+                          Invest Amount
+                        </label>
+                        <label className="flex items-center">
+                          <input
+                            type="radio"
+                            value="quantity"
+                            {...register('investmentType')}
+                            className="mr-2"
+                          />
+                          Enter Quantity
+                        </label>
+                        <label className="flex items-center">
+                          <input
+                            type="radio"
+                            value="risk"
+                            {...register('investmentType')}
+                            className="mr-2"
+                          />
+                          Size by Risk
+                        </label>
+                      </div>
+
+                      {watchInvestmentType === 'amount' ? (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            {watchPositionType === 'spot' ? 'Investment Amount' : 'Position Size'} ({symbol})
+                          </label>
+                          <input
+                            type="number"
+                            step="any"
+                            {...register('initialInvestment', { required: true, min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="Enter investment amount"
+                          />
+                          {errors.initialInvestment && (
+                            <span className="text-red-500 text-sm">Please enter a valid amount</span>
+                          )}
+                        </div>
+                      ) : watchInvestmentType === 'quantity' ? (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
+                          <input
+                            type="number"
+                            step="any"
+                            {...register('quantity', { required: true, min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            placeholder="Enter quantity"
+                          />
+                          {errors.quantity && (
+                            <span className="text-red-500 text-sm">Please enter a valid quantity</span>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="space-y-4">
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Account Size ({symbol})</label>
+                              <input
+                                type="number"
+                                step="any"
+                                {...register('accountSize', { min: 0 })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Risk per Trade (%)</label>
+                              <input
+                                type="number"
+                                step="any"
+                                {...register('riskPercent', { min: 0, max: 100 })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                          </div>
+                          {riskSizing?.risk ? (
+                            <div className="bg-blue-50 p-4 rounded-md text-sm text-blue-800 space-y-1">
+                              <p>Risking {formatCurrency(riskSizing.risk.riskAmount)} ({formatCurrency(riskSizing.risk.riskPerUnit)} per coin to the stop)</p>
+                              <p>Buy {formatCrypto(riskSizing.quantity)} {selectedCrypto?.symbol} for {formatCurrency(riskSizing.risk.investment)}</p>
+                              {riskSizing.risk.exceedsAccount && (
+                                <p className="text-red-600">This position is larger than the account and needs leverage.</p>
+                              )}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-gray-500">
+                              Enter a stop-loss {watchPositionType === 'short' ? 'above' : 'below'} the current price to size the position.
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </>
                   )}
 
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Target Price ($)</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Target Price ({symbol})</label>
                     <input
                       type="number"
-                      step="0.01"
+                      step="any"
                       {...register('targetPrice', { required: true, min: 0 })}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       placeholder="Enter target price"
@@ -323,6 +965,226 @@ export default function CryptoProfitCalculator() {
                     )}
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Stop-Loss Price ({symbol}){watchInvestmentType !== 'risk' && ' - optional'}
+                    </label>
+                    <input
+                      type="number"
+                      step="any"
+                      {...register('stopLossPrice', { required: watchInvestmentType === 'risk' && !watchUseLedger, min: 0 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Enter stop-loss price"
+                    />
+                    {errors.stopLossPrice && (
+                      <span className="text-red-500 text-sm">Please enter a stop-loss price</span>
+                    )}
+                  </div>
+
+                  <details className="border border-gray-200 rounded-md p-4">
+                    <summary className="text-sm font-medium text-gray-700 cursor-pointer">Fees &amp; Slippage</summary>
+                    <div className="mt-4 space-y-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Exchange Fee Preset</label>
+                        <select
+                          {...register('feePreset')}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="">Custom</option>
+                          {FEE_PRESETS.map((preset) => (
+                            <option key={preset.id} value={preset.id}>
+                              {preset.name} - {preset.feePercent}%
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Buy Fee (%)</label>
+                          <input
+                            type="number"
+                            step="0.001"
+                            {...register('buyFeePercent', { min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Buy Fee ({symbol} flat)</label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            {...register('buyFeeFlat', { min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Sell Fee (%)</label>
+                          <input
+                            type="number"
+                            step="0.001"
+                            {...register('sellFeePercent', { min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Sell Fee ({symbol} flat)</label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            {...register('sellFeeFlat', { min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Spread / Slippage (%)</label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            {...register('slippagePercent', { min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Withdrawal Fee (coins)</label>
+                          <input
+                            type="number"
+                            step="0.00000001"
+                            {...register('withdrawalFee', { min: 0 })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  </details>
+
+                  {watchPositionType === 'spot' && (
+                    <details className="border border-gray-200 rounded-md p-4" open={watchStakingEnabled}>
+                      <summary className="text-sm font-medium text-gray-700 cursor-pointer">Staking &amp; Yield</summary>
+                      <div className="mt-4 space-y-4">
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                          <input type="checkbox" {...register('stakingEnabled')} />
+                          Project staking or lending rewards until the sale
+                        </label>
+                        {watchStakingEnabled && (
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Reward Rate (%)</label>
+                              <input
+                                type="number"
+                                step="0.01"
+                                {...register('stakingRatePercent', { min: 0 })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Rate Type</label>
+                              <select {...register('stakingRateType')} className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500">
+                                {RATE_TYPES.map((type) => (
+                                  <option key={type.value} value={type.value}>{type.label}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Compounding</label>
+                              <select {...register('stakingCompounding')} className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500">
+                                {COMPOUNDING_FREQUENCIES.map((frequency) => (
+                                  <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Validator / Platform Commission (%)</label>
+                              <input
+                                type="number"
+                                step="0.1"
+                                {...register('stakingCommissionPercent', { min: 0, max: 100 })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Lock-up (days)</label>
+                              <input
+                                type="number"
+                                step="1"
+                                {...register('stakingLockupDays', { min: 0 })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Held For (days)</label>
+                              <input
+                                type="number"
+                                step="1"
+                                {...register('stakingHorizonDays', { min: 0 })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <p className="col-span-2 text-xs text-gray-500">
+                              Rewards are assumed to be sold at the target price along with the original coins. Many jurisdictions tax rewards as income when received; the tax estimate covers the price gain only.
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    </details>
+                  )}
+
+                  <details className="border border-gray-200 rounded-md p-4">
+                    <summary className="text-sm font-medium text-gray-700 cursor-pointer">Tax Estimate</summary>
+                    <div className="mt-4 space-y-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Jurisdiction</label>
+                        <select
+                          {...register('taxJurisdiction')}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="">No tax estimate</option>
+                          {TAX_JURISDICTIONS.map((jurisdiction) => (
+                            <option key={jurisdiction.id} value={jurisdiction.id}>{jurisdiction.name}</option>
+                          ))}
+                        </select>
+                        {selectedJurisdiction && (
+                          <p className="mt-2 text-xs text-gray-500">
+                            {selectedJurisdiction.notes} Bracket amounts are in {selectedJurisdiction.currency}
+                            {taxDependsOnCurrency(selectedJurisdiction) && selectedJurisdiction.currency.toLowerCase() !== currency
+                              ? `; gains and other income in ${currency.toUpperCase()} are converted at today's exchange rate.`
+                              : '.'}
+                          </p>
+                        )}
+                      </div>
+                      {selectedJurisdiction && (
+                        <div className="grid grid-cols-2 gap-4">
+                          {!watchUseLedger && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Purchase Date</label>
+                              <input
+                                type="date"
+                                {...register('purchaseDate', { required: true })}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                          )}
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Sale Date</label>
+                            <input
+                              type="date"
+                              {...register('saleDate', { required: true })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          </div>
+                          <div className="col-span-2">
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Other Taxable Income This Year</label>
+                            <input
+                              type="number"
+                              step="1"
+                              {...register('otherIncome', { min: 0 })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </details>
+
                   <button
                     type="submit"
                     disabled={loading}
@@ -330,11 +1192,52 @@ export default function CryptoProfitCalculator() {
                   >
                     {loading ? 'Loading...' : 'Calculate Profit'}
                   </button>
+                  {calculationError && (
+                    <p className="text-red-500 text-sm">{calculationError}</p>
+                  )}
                 </form>
 
                 {profitCalc && (
                   <div className="mt-6 p-6 bg-gradient-to-r from-gray-50 to-gray-100 rounded-lg space-y-4">
-                    <h3 className="text-xl font-bold mb-4 text-gray-800">Investment Summary</h3>
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="text-xl font-bold mb-4 text-gray-800">
+                        Investment Summary
+                        <span className="block text-sm font-normal text-gray-500">
+                          {profitCalc.crypto.name} ({profitCalc.crypto.symbol}) · {profitCalc.quote ? `${profitCalc.crypto.symbol}/${profitCalc.quote.symbol}` : currency.toUpperCase()}
+                        </span>
+                      </h3>
+                      <div className="flex flex-wrap justify-end gap-1 print:hidden">
+                        {!profitCalc.ledger && !profitCalc.futures && (
+                          <button type="button" onClick={shareLink} className="text-xs px-2 py-1 rounded-md bg-blue-100 text-blue-800 hover:bg-blue-200">
+                            {linkCopied ? 'Link copied!' : 'Share Link'}
+                          </button>
+                        )}
+                        <button type="button" onClick={() => exportSummary('csv')} className="text-xs px-2 py-1 rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300">
+                          CSV
+                        </button>
+                        <button type="button" onClick={() => exportSummary('json')} className="text-xs px-2 py-1 rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300">
+                          JSON
+                        </button>
+                        <button type="button" onClick={() => window.print()} className="text-xs px-2 py-1 rounded-md bg-gray-200 text-gray-800 hover:bg-gray-300">
+                          Print
+                        </button>
+                        {!profitCalc.quote && (
+                          <button type="button" onClick={() => alertAtPrice(profitCalc.targetPrice, 'Target price')} className="text-xs px-2 py-1 rounded-md bg-yellow-100 text-yellow-800 hover:bg-yellow-200">
+                            Alert at Target
+                          </button>
+                        )}
+                        {!profitCalc.quote && isFinite(profitCalc.breakevenPrice) && (
+                          <button type="button" onClick={() => alertAtPrice(profitCalc.breakevenPrice, 'Breakeven')} className="text-xs px-2 py-1 rounded-md bg-yellow-100 text-yellow-800 hover:bg-yellow-200">
+                            Alert at Breakeven
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {alertAdded && (
+                      <p className="text-sm text-yellow-800 print:hidden">
+                        {alertAdded} alert added. Manage it on the <Link href="/watchlist" className="underline">watchlist</Link>.
+                      </p>
+                    )}
                     
                     <div className="grid grid-cols-2 gap-4">
                       <div>
@@ -355,6 +1258,103 @@ export default function CryptoProfitCalculator() {
                       </div>
                     </div>
 
+                    {profitCalc.ledger && (
+                      <div className="grid grid-cols-2 gap-4 border-t border-gray-200 pt-4">
+                        <div>
+                          <p className="text-sm text-gray-600">Cost Basis ({COST_BASIS_METHODS.find(m => m.value === profitCalc.ledger.method)?.label})</p>
+                          <p className="font-semibold">{formatCurrency(profitCalc.ledger.costBasis)}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-600">Realized P/L</p>
+                          <p className={`font-semibold ${profitCalc.ledger.realizedPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatCurrency(profitCalc.ledger.realizedPnl)}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-600">Unrealized P/L (current price)</p>
+                          <p className={`font-semibold ${profitCalc.ledger.unrealizedPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatCurrency(profitCalc.ledger.unrealizedPnl)}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
+                    {profitCalc.pastEntry && (
+                      <div className="grid grid-cols-2 gap-4 border-t border-gray-200 pt-4">
+                        <div>
+                          <p className="text-sm text-gray-600">Bought</p>
+                          <p className="font-semibold">
+                            {profitCalc.pastEntry.date}{profitCalc.pastEntry.time && ` ${profitCalc.pastEntry.time} UTC`}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-600">Holding Period</p>
+                          <p className="font-semibold">
+                            {profitCalc.pastEntry.holdingDays} days ({(profitCalc.pastEntry.holdingDays / 365.25).toFixed(1)} years)
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-600">Value Today ({formatCurrency(profitCalc.pastEntry.currentPrice)})</p>
+                          <p className="font-semibold">{formatCurrency(profitCalc.pastEntry.currentValue)}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-600">Profit/Loss to Date</p>
+                          <p className={`font-semibold ${profitCalc.pastEntry.currentProfit.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatCurrency(profitCalc.pastEntry.currentProfit.amount)}
+                            {profitCalc.pastEntry.currentProfit.percentage !== null && (
+                              <span className="text-sm ml-2">({profitCalc.pastEntry.currentProfit.percentage.toFixed(2)}%)</span>
+                            )}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-600">Annualized Return (CAGR)</p>
+                          <p className="font-semibold">
+                            {profitCalc.pastEntry.cagr === null ? 'N/A (held under a day)' : `${profitCalc.pastEntry.cagr.toFixed(2)}%`}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
+                    {profitCalc.futures && (
+                      <div className="border-t border-gray-200 pt-4 space-y-4">
+                        {profitCalc.futures.targetBeyondLiquidation && (
+                          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm">
+                            The target price is beyond the liquidation price. The position would be liquidated before reaching it.
+                          </div>
+                        )}
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <p className="text-sm text-gray-600">Position</p>
+                            <p className="font-semibold">
+                              {profitCalc.futures.side === 'long' ? 'Long' : 'Short'} {profitCalc.futures.leverage}x ({profitCalc.futures.marginMode})
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">Notional</p>
+                            <p className="font-semibold">{formatCurrency(profitCalc.futures.notional)}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">Required Margin</p>
+                            <p className="font-semibold">{formatCurrency(profitCalc.futures.requiredMargin)}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">Liquidation Price</p>
+                            <p className="font-semibold text-red-600">
+                              {profitCalc.futures.liquidationPrice === null ? 'None' : formatCurrency(profitCalc.futures.liquidationPrice)}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">Trading Fees</p>
+                            <p className="font-semibold">{formatCurrency(profitCalc.futures.fees)}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">Funding ({profitCalc.futures.fundingCost >= 0 ? 'paid' : 'received'})</p>
+                            <p className="font-semibold">{formatCurrency(Math.abs(profitCalc.futures.fundingCost))}</p>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="border-t border-gray-200 pt-4 mt-4">
                       <h4 className="text-lg font-semibold mb-3">Profit Analysis</h4>
                       <div className="space-y-3">
@@ -362,8 +1362,22 @@ export default function CryptoProfitCalculator() {
                           <p className="text-sm text-gray-600">Potential Value</p>
                           <p className="font-bold text-lg">{formatCurrency(profitCalc.potentialValue)}</p>
                         </div>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <p className="text-sm text-gray-600">Gross Profit</p>
+                            <p className="font-semibold">{formatCurrency(profitCalc.grossProfit)}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">Total Fees &amp; Costs</p>
+                            <p className="font-semibold">{formatCurrency(profitCalc.totalFees)}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">{profitCalc.futures ? 'Margin Posted' : 'Total Cost (incl. fees)'}</p>
+                            <p className="font-semibold">{formatCurrency(profitCalc.totalCost)}</p>
+                          </div>
+                        </div>
                         <div>
-                          <p className="text-sm text-gray-600">Profit/Loss</p>
+                          <p className="text-sm text-gray-600">Net Profit/Loss{profitCalc.futures && ' (ROE on margin)'}</p>
                           <p className={`font-bold text-lg ${profitCalc.profitAmount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                             {formatCurrency(profitCalc.profitAmount)}
                             <span className="text-sm ml-2">
@@ -371,12 +1385,215 @@ export default function CryptoProfitCalculator() {
                             </span>
                           </p>
                         </div>
+                        {profitCalc.quote && (
+                          <div className="bg-white rounded-md p-3 space-y-2">
+                            <p className="text-sm text-gray-600">
+                              A profit in {profitCalc.quote.symbol} means the trade beat holding {profitCalc.quote.symbol}.
+                              In {currency.toUpperCase()}, at 1 {profitCalc.quote.symbol} = {formatFiat(profitCalc.quote.fiatPrice)}
+                              {profitCalc.pastEntry && profitCalc.quote.entryFiatPrice !== undefined && (
+                                <> ({formatFiat(profitCalc.quote.entryFiatPrice)} on {profitCalc.pastEntry.date})</>
+                              )}:
+                            </p>
+                            <div className="grid grid-cols-2 gap-4">
+                              <div>
+                                <p className="text-sm text-gray-600">Total Cost</p>
+                                <p className="font-semibold">{formatFiat(profitCalc.quote.fiatTotalCost)}</p>
+                              </div>
+                              <div>
+                                <p className="text-sm text-gray-600">Value at Target</p>
+                                <p className="font-semibold">{formatFiat(profitCalc.quote.fiatPotentialValue)}</p>
+                              </div>
+                              <div>
+                                <p className="text-sm text-gray-600">Net Profit/Loss</p>
+                                <p className={`font-semibold ${profitCalc.quote.fiatNetProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                  {formatFiat(profitCalc.quote.fiatNetProfit)}
+                                </p>
+                              </div>
+                              {profitCalc.quote.fiatProfitToDate !== undefined && (
+                                <div>
+                                  <p className="text-sm text-gray-600">Profit/Loss to Date</p>
+                                  <p className={`font-semibold ${profitCalc.quote.fiatProfitToDate >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                    {formatFiat(profitCalc.quote.fiatProfitToDate)}
+                                  </p>
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                        {selectedJurisdiction && !profitCalc.tax && (
+                          <p className="text-sm text-gray-500">
+                            No tax estimate: the {currency.toUpperCase()} to {selectedJurisdiction.currency} exchange rate is unavailable.
+                          </p>
+                        )}
+                        {profitCalc.tax && (
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <p className="text-sm text-gray-600">Estimated Tax</p>
+                              <p className="font-semibold">
+                                {formatFiat(profitCalc.tax.tax)}
+                                <span className="text-sm ml-2 text-gray-500">({profitCalc.tax.effectiveRate.toFixed(1)}%)</span>
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                Short-term {formatFiat(profitCalc.tax.shortTermGain)} / Long-term {formatFiat(profitCalc.tax.longTermGain)}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-gray-600">After-Tax Profit</p>
+                              <p className={`font-bold text-lg ${profitCalc.tax.afterTaxProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {formatFiat(profitCalc.tax.afterTaxProfit)}
+                              </p>
+                            </div>
+                          </div>
+                        )}
                         <div>
                           <p className="text-sm text-gray-600">Breakeven Price</p>
                           <p className="font-semibold">{formatCurrency(profitCalc.breakevenPrice)}</p>
                         </div>
+                        {profitCalc.risk && (
+                          <div className="grid grid-cols-2 gap-4 border-t border-gray-200 pt-3">
+                            <div>
+                              <p className="text-sm text-gray-600">Loss at Stop ({formatCurrency(profitCalc.risk.stopLossPrice)})</p>
+                              <p className="font-semibold text-red-600">{formatCurrency(profitCalc.risk.lossAtStop)}</p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-gray-600">Reward at Target</p>
+                              <p className={`font-semibold ${profitCalc.risk.rewardAtTarget >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {formatCurrency(profitCalc.risk.rewardAtTarget)}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-gray-600">Risk/Reward</p>
+                              <p className="font-semibold">
+                                {profitCalc.risk.riskRewardRatio === null ? 'No risk at stop' : `1 : ${profitCalc.risk.riskRewardRatio.toFixed(2)}`}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-gray-600">Break-even Win Rate</p>
+                              <p className="font-semibold">
+                                {profitCalc.risk.breakevenWinRate === null ? 'N/A' : `${profitCalc.risk.breakevenWinRate.toFixed(1)}%`}
+                              </p>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
+
+                    {profitCalc.staking && (
+                      <div className="border-t border-gray-200 pt-4 space-y-4">
+                        <h4 className="text-lg font-semibold">Staking &amp; Yield</h4>
+                        {profitCalc.staking.lockedAtHorizon && (
+                          <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded text-sm">
+                            The coins are still locked after {profitCalc.staking.params.horizonDays} days; the lock-up ends on day {profitCalc.staking.params.lockupDays}.
+                          </div>
+                        )}
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <p className="text-sm text-gray-600">Net Yield (after commission)</p>
+                            <p className="font-semibold">{profitCalc.staking.netApy.toFixed(2)}% per year</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">Balance After {profitCalc.staking.params.horizonDays} Days</p>
+                            <p className="font-semibold">
+                              {formatCrypto(profitCalc.staking.finalQuantity)} {profitCalc.crypto.symbol}
+                              <span className="text-sm ml-2 text-green-600">+{formatCrypto(profitCalc.staking.rewardQuantity)}</span>
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">Value at Target incl. Rewards</p>
+                            <p className="font-semibold">{formatCurrency(profitCalc.staking.potentialValue)}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">Net Profit incl. Rewards</p>
+                            <p className={`font-bold text-lg ${profitCalc.staking.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {formatCurrency(profitCalc.staking.netProfit)}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">From Price Appreciation</p>
+                            <p className={`font-semibold ${profitCalc.staking.priceProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {formatCurrency(profitCalc.staking.priceProfit)}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-600">From Yield ({formatCurrency(profitCalc.staking.rewardsValue)} of rewards, less fees)</p>
+                            <p className="font-semibold text-green-600">{formatCurrency(profitCalc.staking.yieldProfit)}</p>
+                          </div>
+                        </div>
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-600">
+                              <th className="py-1">Day</th>
+                              <th className="py-1 text-right">Balance ({profitCalc.crypto.symbol})</th>
+                              <th className="py-1 text-right">Rewards</th>
+                              <th className="py-1 text-right">Value at Target</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {profitCalc.staking.schedule.map((point) => (
+                              <tr key={point.day} className="border-t border-gray-200">
+                                <td className="py-1">
+                                  {point.day}
+                                  {point.day === profitCalc.staking.params.lockupDays && point.day > 0 && (
+                                    <span className="ml-2 text-xs text-gray-500">unlocks</span>
+                                  )}
+                                </td>
+                                <td className="py-1 text-right">{formatCrypto(point.quantity)}</td>
+                                <td className="py-1 text-right">{formatCrypto(point.rewards)}</td>
+                                <td className="py-1 text-right">{formatCurrency(point.quantity * profitCalc.targetPrice)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
+                    {!profitCalc.futures && (
+                      <QuoteCurrencyProvider asset={quoteCoin}>
+                        <details className="border-t border-gray-200 pt-4">
+                          <summary className="text-lg font-semibold cursor-pointer">Take-Profit Ladder</summary>
+                          <div className="mt-3">
+                            <TakeProfitLadder
+                              key={profitCalc.targetPrice}
+                              quantity={profitCalc.quantity}
+                              totalCost={profitCalc.totalCost}
+                              targetPrice={profitCalc.targetPrice}
+                              costs={profitCalc.costs}
+                            />
+                          </div>
+                        </details>
+
+                        <details className="border-t border-gray-200 pt-4">
+                          <summary className="text-lg font-semibold cursor-pointer">Target Price Scenarios</summary>
+                          <div className="mt-3">
+                            <SensitivityTable
+                              quantity={profitCalc.quantity}
+                              buyPrice={profitCalc.buyPrice}
+                              costs={profitCalc.costs}
+                              entryCostsIncluded={profitCalc.entryCostsIncluded}
+                            />
+                          </div>
+                        </details>
+
+                        {chartCalc && (
+                          <details className="border-t border-gray-200 pt-4">
+                            <summary className="text-lg font-semibold cursor-pointer">Probability Simulation</summary>
+                            <div className="mt-3">
+                              <MonteCarloPanel
+                                key={`${chartCalc.crypto.id}-${chartCalc.targetPrice}`}
+                                coinId={chartCalc.crypto.id}
+                                startPrice={selectedCrypto.currentPrice}
+                                quantity={chartCalc.quantity}
+                                buyPrice={chartCalc.buyPrice}
+                                targetPrice={chartCalc.targetPrice}
+                                breakevenPrice={chartCalc.breakevenPrice}
+                                costs={chartCalc.costs}
+                                entryCostsIncluded={chartCalc.entryCostsIncluded}
+                              />
+                            </div>
+                          </details>
+                        )}
+                      </QuoteCurrencyProvider>
+                    )}
                   </div>
                 )}
               </div>
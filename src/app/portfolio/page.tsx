@@ -0,0 +1,605 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { fetchCoinList, fetchSpotPrice, fetchSpotPrices, Quote } from '../../lib/market/client';
+import { describeMarketError } from '../../lib/market/errors';
+import { CoinListItem } from '../../lib/market/types';
+import { includeCoin } from '../../lib/coinSearch';
+import { COST_BASIS_METHODS, CostBasisMethod, createEntryId, LedgerEntry } from '../../lib/ledger';
+import { entriesInCurrency, summarizePortfolio } from '../../lib/portfolio';
+import { planRebalance, RebalanceAsset, targetSum } from '../../lib/rebalance';
+import { FEE_PRESETS } from '../../lib/fees';
+import { DEFAULT_CURRENCY } from '../../lib/currency';
+import { usePersistentState } from '../../hooks/usePersistentState';
+import CurrencySelector from '../../components/CurrencySelector';
+import { useCurrency } from '../../components/CurrencyProvider';
+import PriceFreshness from '../../components/PriceFreshness';
+import CoinCombobox from '../../components/CoinCombobox';
+
+const DEFAULT_COIN: CoinListItem = { id: 'bitcoin', name: 'Bitcoin', symbol: 'BTC', market_cap_rank: 1 };
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+// The most ids /api/market/prices takes in one request
+const PRICE_BATCH_SIZE = 100;
+// Target weights may be off by rounding before we warn
+const TARGET_SUM_TOLERANCE = 0.1;
+
+const ALLOCATION_COLORS = ['bg-blue-500', 'bg-purple-500', 'bg-pink-500', 'bg-green-500', 'bg-yellow-500', 'bg-indigo-500', 'bg-red-500', 'bg-teal-500'];
+
+const inputClassName = 'shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline';
+
+const changeClassName = (change?: number | null) =>
+  change === undefined || change === null ? 'text-gray-500' : change >= 0 ? 'text-green-600' : 'text-red-600';
+
+interface RebalanceSettings {
+  feePercent: number;
+  minTradeValue: number;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function Portfolio() {
+  const [coinList, setCoinList] = useState<CoinListItem[]>([DEFAULT_COIN]);
+  const [coinListError, setCoinListError] = useState('');
+  const [ledgerEntries, setLedgerEntries, ledgerLoaded] = usePersistentState<LedgerEntry[]>('ledger', []);
+  const [costBasisMethod, setCostBasisMethod] = usePersistentState<CostBasisMethod>('cost-basis-method', 'fifo');
+  // Target weights in percent, by coin id
+  const [targets, setTargets, targetsLoaded] = usePersistentState<Record<string, number>>('portfolio-targets', {});
+  const [settings, setSettings] = usePersistentState<RebalanceSettings>('portfolio-rebalance-settings', {
+    feePercent: 0.1,
+    minTradeValue: 10
+  });
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [priceError, setPriceError] = useState('');
+  const [newCoinId, setNewCoinId] = useState(DEFAULT_COIN.id);
+  const [newQuantity, setNewQuantity] = useState<number>(0);
+  const [newPrice, setNewPrice] = useState<number>(0);
+  const [newFee, setNewFee] = useState<number>(0);
+  const [newDate, setNewDate] = useState(today);
+  const [targetCoinId, setTargetCoinId] = useState('');
+  const { currency, symbol, formatCurrency, formatCrypto } = useCurrency();
+
+  useEffect(() => {
+    fetchCoinList()
+      .then(coins => {
+        if (coins.length > 0) setCoinList(coins);
+      })
+      .catch(error => setCoinListError(describeMarketError(error, 'Failed to load the coin list.')));
+  }, []);
+
+  const entries = useMemo(() => entriesInCurrency(ledgerEntries, currency), [ledgerEntries, currency]);
+
+  // Held coins and coins that only have a target are priced together
+  const priceIds = useMemo(
+    () => Array.from(new Set([...entries.map(entry => entry.coinId), ...Object.keys(targets)])).sort(),
+    [entries, targets]
+  );
+  const priceIdsKey = priceIds.join(',');
+
+  const refresh = useCallback(async () => {
+    const ids = priceIdsKey ? priceIdsKey.split(',') : [];
+    if (ids.length === 0) {
+      setQuotes({});
+      return;
+    }
+    try {
+      const batches: string[][] = [];
+      for (let i = 0; i < ids.length; i += PRICE_BATCH_SIZE) batches.push(ids.slice(i, i + PRICE_BATCH_SIZE));
+      const latest = (await Promise.all(batches.map(batch => fetchSpotPrices(batch, currency)))).flat();
+      setQuotes(Object.fromEntries(latest.map(quote => [quote.id, quote])));
+      if (latest.every(quote => !quote.stale)) setLastUpdated(new Date());
+      setPriceError('');
+    } catch (error) {
+      setPriceError(`${describeMarketError(error, 'Failed to refresh prices.')} Retrying shortly.`);
+    }
+  }, [priceIdsKey, currency]);
+
+  useEffect(() => {
+    if (!ledgerLoaded || !targetsLoaded) return;
+    refresh();
+    const timer = window.setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [ledgerLoaded, targetsLoaded, refresh]);
+
+  // Prefill the price of a newly picked coin with its current price
+  useEffect(() => {
+    if (!newCoinId) return;
+    let cancelled = false;
+    fetchSpotPrice(newCoinId, currency)
+      .then(quote => {
+        if (!cancelled) setNewPrice(Number(quote.price.toPrecision(8)));
+      })
+      // Only a prefill: the price field is left for the user to fill in
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [newCoinId, currency]);
+
+  const summary = useMemo(
+    () => summarizePortfolio(entries, costBasisMethod, quotes),
+    [entries, costBasisMethod, quotes]
+  );
+
+  const coinName = (id: string) => {
+    const coin = coinList.find(c => c.id === id);
+    return coin ? `${coin.name} (${coin.symbol})` : id;
+  };
+
+  const oldestQuote = Object.values(quotes).reduce<Quote | null>(
+    (oldest, quote) => (!oldest || quote.asOf < oldest.asOf ? quote : oldest),
+    null
+  );
+
+  const addPosition = () => {
+    if (!newCoinId || !(newQuantity > 0) || !(newPrice > 0)) return;
+    setLedgerEntries(current => [
+      ...current,
+      {
+        id: createEntryId(),
+        coinId: newCoinId,
+        type: 'buy',
+        date: newDate,
+        quantity: newQuantity,
+        price: newPrice,
+        fee: newFee || 0,
+        currency
+      }
+    ]);
+    setNewQuantity(0);
+    setNewFee(0);
+  };
+
+  const removeHolding = (coinId: string) => {
+    setLedgerEntries(current =>
+      current.filter(entry => !(entry.coinId === coinId && (entry.currency || DEFAULT_CURRENCY) === currency))
+    );
+  };
+
+  // Every held coin can take a target; coins held at 0% are sold off
+  const rebalanceIds = useMemo(
+    () => Array.from(new Set([...summary.holdings.map(holding => holding.coinId), ...Object.keys(targets)])),
+    [summary, targets]
+  );
+
+  const rebalanceAssets = useMemo<RebalanceAsset[]>(
+    () => rebalanceIds
+      .filter(coinId => quotes[coinId] !== undefined)
+      .map(coinId => ({
+        coinId,
+        value: summary.holdings.find(holding => holding.coinId === coinId)?.value ?? 0,
+        price: quotes[coinId].price,
+        targetPercent: targets[coinId] ?? 0
+      })),
+    [rebalanceIds, summary, quotes, targets]
+  );
+  const unpricedTargets = rebalanceIds.filter(coinId => quotes[coinId] === undefined);
+
+  const totalTarget = targetSum(rebalanceAssets);
+  const targetsValid = Math.abs(totalTarget - 100) <= TARGET_SUM_TOLERANCE;
+  const plan = useMemo(
+    () => (targetsValid && summary.totalValue > 0 ? planRebalance(rebalanceAssets, settings) : null),
+    [targetsValid, summary, rebalanceAssets, settings]
+  );
+
+  const setTarget = (coinId: string, percent: number) =>
+    setTargets(current => ({ ...current, [coinId]: Math.max(0, percent || 0) }));
+
+  const removeTarget = (coinId: string) =>
+    setTargets(current => {
+      const { [coinId]: _removed, ...rest } = current;
+      return rest;
+    });
+
+  const applyCurrentWeights = () =>
+    setTargets(Object.fromEntries(
+      summary.holdings
+        .filter(holding => holding.allocation !== null)
+        .map(holding => [holding.coinId, Number(holding.allocation.toFixed(2))])
+    ));
+
+  const applyEqualWeights = () => {
+    if (rebalanceIds.length === 0) return;
+    const weight = Number((100 / rebalanceIds.length).toFixed(2));
+    setTargets(Object.fromEntries(rebalanceIds.map(coinId => [coinId, weight])));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <Link
+            href="/"
+            className="inline-block text-white hover:text-blue-200 mb-4"
+          >
+            ← Back to Calculator
+          </Link>
+          <div className="mb-4">
+            <CurrencySelector />
+          </div>
+          <h1 className="text-4xl font-bold text-white mb-4">
+            Portfolio
+          </h1>
+          <p className="text-xl text-blue-200">
+            Every position in the ledger, valued at live prices, with rebalancing toward target weights
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-xl p-6 mb-8">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Add Position</h2>
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+            <div className="md:col-span-2">
+              <label className="block text-gray-700 text-sm font-bold mb-2">Coin</label>
+              <CoinCombobox
+                coins={coinList}
+                value={newCoinId}
+                onChange={(coin) => {
+                  if (!coin) return;
+                  setCoinList(list => includeCoin(list, coin));
+                  setNewCoinId(coin.id);
+                }}
+                inputClassName={inputClassName}
+              />
+              {coinListError && <p className="text-red-500 text-xs italic mt-1">{coinListError}</p>}
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Quantity</label>
+              <input type="number" min="0" step="any" value={newQuantity} onChange={(e) => setNewQuantity(Number(e.target.value))} className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Price per Coin ({symbol})</label>
+              <input type="number" min="0" step="any" value={newPrice} onChange={(e) => setNewPrice(Number(e.target.value))} className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Fee ({symbol})</label>
+              <input type="number" min="0" step="any" value={newFee} onChange={(e) => setNewFee(Number(e.target.value))} className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Date</label>
+              <input type="date" value={newDate} max={today()} onChange={(e) => setNewDate(e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-4 mt-4">
+            <button
+              type="button"
+              onClick={addPosition}
+              disabled={!(newQuantity > 0) || !(newPrice > 0)}
+              className="bg-blue-500 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
+            >
+              Add Buy
+            </button>
+            <p className="text-sm text-gray-600">
+              Positions share the calculator&apos;s lot ledger, so sells and imported trades recorded there show up here too.
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-xl p-6 mb-8">
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-bold text-gray-800">Holdings</h2>
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-gray-700 text-sm font-bold mb-2">Cost Basis</label>
+                <select value={costBasisMethod} onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)} className={inputClassName}>
+                  {COST_BASIS_METHODS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={refresh}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
+              >
+                Refresh Now
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-600">
+            <span>{lastUpdated ? `Last updated ${lastUpdated.toLocaleTimeString()}` : 'Not updated yet'}</span>
+            {oldestQuote && <PriceFreshness asOf={oldestQuote.asOf} stale={oldestQuote.stale} />}
+          </div>
+
+          {priceError && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+              {priceError}
+            </div>
+          )}
+
+          {summary.holdings.length === 0 ? (
+            <p className="text-gray-600">
+              No open positions in {currency.toUpperCase()}. Add a buy above, or record trades in the calculator&apos;s position tracker.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">Total Value</p>
+                  <p className="text-xl font-semibold">{formatCurrency(summary.totalValue)}</p>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">Cost Basis</p>
+                  <p className="text-xl font-semibold">{formatCurrency(summary.totalCost)}</p>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">Unrealized P/L</p>
+                  <p className={`text-xl font-semibold ${changeClassName(summary.unrealizedPnl)}`}>
+                    {formatCurrency(summary.unrealizedPnl)}
+                    {summary.totalCost > 0 && (
+                      <span className="text-sm ml-1">({((summary.unrealizedPnl / summary.totalCost) * 100).toFixed(2)}%)</span>
+                    )}
+                  </p>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">Realized P/L</p>
+                  <p className={`text-xl font-semibold ${changeClassName(summary.realizedPnl)}`}>{formatCurrency(summary.realizedPnl)}</p>
+                </div>
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600">24h Change</p>
+                  <p className={`text-xl font-semibold ${changeClassName(summary.change24hPercent)}`}>
+                    {formatCurrency(summary.change24hValue)}
+                    {summary.change24hPercent !== null && (
+                      <span className="text-sm ml-1">({summary.change24hPercent.toFixed(2)}%)</span>
+                    )}
+                  </p>
+                </div>
+              </div>
+
+              {summary.unpricedCount > 0 && (
+                <p className="text-sm text-yellow-700 mb-4">
+                  {summary.unpricedCount} position{summary.unpricedCount === 1 ? ' has' : 's have'} no price yet and {summary.unpricedCount === 1 ? 'is' : 'are'} left out of the totals.
+                </p>
+              )}
+
+              {summary.totalValue > 0 && (
+                <div className="mb-6">
+                  <div className="flex h-4 rounded overflow-hidden">
+                    {summary.holdings.filter(holding => holding.allocation).map((holding, index) => (
+                      <div
+                        key={holding.coinId}
+                        className={ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]}
+                        style={{ width: `${holding.allocation}%` }}
+                        title={`${coinName(holding.coinId)}: ${holding.allocation.toFixed(2)}%`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-sm text-gray-600">
+                    {summary.holdings.filter(holding => holding.allocation).map((holding, index) => (
+                      <span key={holding.coinId} className="inline-flex items-center">
+                        <span className={`inline-block w-3 h-3 rounded-sm mr-1 ${ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]}`} />
+                        {coinName(holding.coinId)} {holding.allocation.toFixed(1)}%
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full table-auto">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">Coin</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Quantity</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Avg. Cost</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Price</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">24h</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Value</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Unrealized P/L</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Allocation</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.holdings.map((holding) => (
+                      <tr key={holding.coinId} className="border-t">
+                        <td className="px-4 py-2 font-medium text-gray-800">{coinName(holding.coinId)}</td>
+                        <td className="px-4 py-2 text-right">{formatCrypto(holding.quantity)}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(holding.averageBuyPrice)}</td>
+                        <td className="px-4 py-2 text-right">{holding.price !== null ? formatCurrency(holding.price) : '...'}</td>
+                        <td className={`px-4 py-2 text-right ${changeClassName(holding.change24h)}`}>
+                          {holding.change24h !== undefined ? `${holding.change24h.toFixed(2)}%` : 'N/A'}
+                        </td>
+                        <td className="px-4 py-2 text-right">{holding.value !== null ? formatCurrency(holding.value) : '...'}</td>
+                        <td className={`px-4 py-2 text-right ${changeClassName(holding.unrealizedPnl)}`}>
+                          {holding.unrealizedPnl !== null ? formatCurrency(holding.unrealizedPnl) : '...'}
+                          {holding.unrealizedPnlPercent !== null && (
+                            <span className="text-xs ml-1">({holding.unrealizedPnlPercent.toFixed(2)}%)</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right">{holding.allocation !== null ? `${holding.allocation.toFixed(2)}%` : '...'}</td>
+                        <td className="px-4 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (window.confirm(`Remove every ${currency.toUpperCase()} ledger entry for ${coinName(holding.coinId)}?`)) {
+                                removeHolding(holding.coinId);
+                              }
+                            }}
+                            className="text-red-600 hover:text-red-800 text-sm"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-xl p-6">
+          <h2 className="text-2xl font-bold mb-2 text-gray-800">Rebalancing</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Set a target weight for each coin. Sales fund the purchases, and every trade pays the fee, so the plan targets the value left after fees. Trades below the minimum are skipped.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end mb-6">
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Fee per Trade (%)</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={settings.feePercent}
+                onChange={(e) => setSettings(current => ({ ...current, feePercent: Math.max(0, Number(e.target.value)) }))}
+                className={inputClassName}
+              />
+              <select
+                value=""
+                onChange={(e) => {
+                  const preset = FEE_PRESETS.find(p => p.id === e.target.value);
+                  if (preset) setSettings(current => ({ ...current, feePercent: preset.feePercent }));
+                }}
+                className={`${inputClassName} mt-2`}
+              >
+                <option value="">Use an exchange preset...</option>
+                {FEE_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name} ({preset.feePercent}%)</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Minimum Trade ({symbol})</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={settings.minTradeValue}
+                onChange={(e) => setSettings(current => ({ ...current, minTradeValue: Math.max(0, Number(e.target.value)) }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-bold mb-2">Add Target Coin</label>
+              <CoinCombobox
+                coins={coinList}
+                value={targetCoinId}
+                placeholder="Search for a coin to target"
+                exclude={rebalanceIds}
+                onChange={(coin) => {
+                  if (!coin) return;
+                  setCoinList(list => includeCoin(list, coin));
+                  setTarget(coin.id, 0);
+                  setTargetCoinId('');
+                }}
+                inputClassName={inputClassName}
+              />
+            </div>
+          </div>
+
+          {rebalanceIds.length === 0 ? (
+            <p className="text-gray-600">Add a position or a target coin to plan a rebalance.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-3 mb-4">
+                <button
+                  type="button"
+                  onClick={applyCurrentWeights}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
+                >
+                  Use Current Weights
+                </button>
+                <button
+                  type="button"
+                  onClick={applyEqualWeights}
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
+                >
+                  Equal Weights
+                </button>
+              </div>
+
+              <div className="overflow-x-auto mb-4">
+                <table className="min-w-full table-auto">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">Coin</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Current</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Target (%)</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">After</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Trade</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rebalanceIds.map((coinId) => {
+                      const holding = summary.holdings.find(h => h.coinId === coinId);
+                      const trade = plan?.trades.find(t => t.coinId === coinId);
+                      const after = plan?.after.find(a => a.coinId === coinId);
+                      return (
+                        <tr key={coinId} className="border-t">
+                          <td className="px-4 py-2 font-medium text-gray-800">{coinName(coinId)}</td>
+                          <td className="px-4 py-2 text-right">
+                            {holding && holding.allocation !== null ? `${holding.allocation.toFixed(2)}%` : '0.00%'}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="any"
+                              value={targets[coinId] ?? 0}
+                              onChange={(e) => setTarget(coinId, Number(e.target.value))}
+                              className={`${inputClassName} w-24 text-right`}
+                            />
+                          </td>
+                          <td className="px-4 py-2 text-right">{after ? `${after.percent.toFixed(2)}%` : '-'}</td>
+                          <td className={`px-4 py-2 text-right ${trade ? (trade.side === 'buy' ? 'text-green-600' : 'text-red-600') : 'text-gray-500'}`}>
+                            {trade ? (
+                              <>
+                                {trade.side === 'buy' ? 'Buy' : 'Sell'} {formatCurrency(trade.value)}
+                                <br />
+                                <span className="text-xs">{formatCrypto(trade.quantity)} coins, fee {formatCurrency(trade.fee)}</span>
+                              </>
+                            ) : plan ? 'No trade' : '-'}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            {!holding && (
+                              <button type="button" onClick={() => removeTarget(coinId)} className="text-red-600 hover:text-red-800 text-sm">
+                                Remove
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className={`text-sm mb-4 ${targetsValid ? 'text-gray-600' : 'text-red-600'}`}>
+                Targets add up to {totalTarget.toFixed(2)}%{!targetsValid && '; they must add up to 100% before a plan can be made'}.
+              </p>
+              {unpricedTargets.length > 0 && (
+                <p className="text-sm text-yellow-700 mb-4">
+                  Waiting for prices for {unpricedTargets.map(coinName).join(', ')}; {unpricedTargets.length === 1 ? 'it is' : 'they are'} left out of the plan.
+                </p>
+              )}
+
+              {plan && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-sm text-gray-600">Trades</p>
+                    <p className="text-xl font-semibold">{plan.trades.length}</p>
+                  </div>
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-sm text-gray-600">Estimated Fees</p>
+                    <p className="text-xl font-semibold">{formatCurrency(plan.totalFees)}</p>
+                  </div>
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <p className="text-sm text-gray-600">Cash Left Over</p>
+                    <p className="text-xl font-semibold">{formatCurrency(plan.unallocatedCash)}</p>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchCoinList } from '../../lib/market/client';
+import { describeMarketError } from '../../lib/market/errors';
+import { CoinListItem } from '../../lib/market/types';
+import { includeCoin } from '../../lib/coinSearch';
+import { ALERT_CONDITIONS, AlertCondition, createAlertId, describeAlert } from '../../lib/alerts';
+import { formatCurrency as formatIn } from '../../lib/format';
+import CurrencySelector from '../../components/CurrencySelector';
+import { useCurrency } from '../../components/CurrencyProvider';
+import { useWatchlist } from '../../components/WatchlistProvider';
+import PriceFreshness from '../../components/PriceFreshness';
+import CoinCombobox from '../../components/CoinCombobox';
+
+const DEFAULT_COIN: CoinListItem = { id: 'bitcoin', name: 'Bitcoin', symbol: 'BTC', market_cap_rank: 1 };
+
+const inputClassName = 'shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline';
+
+const changeClassName = (change?: number) =>
+  change === undefined ? 'text-gray-500' : change >= 0 ? 'text-green-600' : 'text-red-600';
+
+export default function Watchlist() {
+  const [coinList, setCoinList] = useState<CoinListItem[]>([DEFAULT_COIN]);
+  const [newCoinId, setNewCoinId] = useState(DEFAULT_COIN.id);
+  const [coinListError, setCoinListError] = useState('');
+  const [alertCoinId, setAlertCoinId] = useState('');
+  const [condition, setCondition] = useState<AlertCondition>('above');
+  const [threshold, setThreshold] = useState<number>(0);
+  const { currency, symbol, formatCurrency } = useCurrency();
+  const {
+    watchlist,
+    addToWatchlist,
+    removeFromWatchlist,
+    alerts,
+    addAlert,
+    removeAlert,
+    rearmAlert,
+    quotes,
+    lastUpdated,
+    error,
+    refresh,
+    notificationPermission,
+    requestNotificationPermission
+  } = useWatchlist();
+
+  useEffect(() => {
+    fetchCoinList()
+      .then(coins => {
+        if (coins.length > 0) setCoinList(coins);
+      })
+      .catch(error => setCoinListError(describeMarketError(error, 'Failed to load the coin list.')));
+  }, []);
+
+  const coinName = (id: string) => {
+    const coin = coinList.find(c => c.id === id);
+    return coin ? `${coin.name} (${coin.symbol})` : id;
+  };
+
+  const openAlertForm = (coinId: string) => {
+    const price = quotes[coinId]?.price;
+    setAlertCoinId(coinId);
+    setCondition('above');
+    setThreshold(price ? Number(price.toPrecision(6)) : 0);
+  };
+
+  const saveAlert = () => {
+    if (!alertCoinId || !(threshold > 0)) return;
+    addAlert({
+      id: createAlertId(),
+      coinId: alertCoinId,
+      currency,
+      condition,
+      threshold,
+      active: true,
+      createdAt: new Date().toISOString()
+    });
+    setAlertCoinId('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <Link
+            href="/"
+            className="inline-block text-white hover:text-blue-200 mb-4"
+          >
+            ← Back to Calculator
+          </Link>
+          <div className="mb-4">
+            <CurrencySelector />
+          </div>
+          <h1 className="text-4xl font-bold text-white mb-4">
+            Watchlist & Price Alerts
+          </h1>
+          <p className="text-xl text-blue-200">
+            Prices refresh every minute and alerts are checked on every refresh while the app is open
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-xl p-6 mb-8">
+          <div className="flex flex-col md:flex-row md:items-end gap-4 mb-6">
+            <div className="flex-1">
+              <label className="block text-gray-700 text-sm font-bold mb-2">Add Coin</label>
+              <CoinCombobox
+                coins={coinList}
+                value={newCoinId}
+                onChange={(coin) => {
+                  if (!coin) return;
+                  setCoinList(list => includeCoin(list, coin));
+                  setNewCoinId(coin.id);
+                }}
+                inputClassName={inputClassName}
+              />
+              {coinListError && <p className="text-red-500 text-xs italic mt-1">{coinListError}</p>}
+            </div>
+            <button
+              type="button"
+              onClick={() => addToWatchlist(newCoinId)}
+              className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
+            >
+              Add to Watchlist
+            </button>
+            <button
+              type="button"
+              onClick={refresh}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
+            >
+              Refresh Now
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4 text-sm text-gray-600">
+            <span>{lastUpdated ? `Last updated ${lastUpdated.toLocaleTimeString()}` : 'Not updated yet'}</span>
+            {notificationPermission === 'default' && (
+              <button type="button" onClick={requestNotificationPermission} className="text-blue-600 hover:text-blue-800">
+                Enable browser notifications
+              </button>
+            )}
+            {notificationPermission === 'denied' && (
+              <span>Browser notifications are blocked; alerts will only show in the app.</span>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+              {error}
+            </div>
+          )}
+
+          {watchlist.length === 0 ? (
+            <p className="text-gray-600">Your watchlist is empty. Add a coin above to start tracking it.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full table-auto">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">Coin</th>
+                    <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Price</th>
+                    <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">24h</th>
+                    <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">Active Alerts</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {watchlist.map((coinId) => {
+                    const quote = quotes[coinId];
+                    const activeCount = alerts.filter(alert => alert.coinId === coinId && alert.active).length;
+                    return (
+                      <tr key={coinId} className="border-t">
+                        <td className="px-4 py-2 font-medium text-gray-800">{coinName(coinId)}</td>
+                        <td className="px-4 py-2 text-right">
+                          {quote ? (
+                            <>
+                              {formatCurrency(quote.price)}
+                              <br />
+                              <PriceFreshness asOf={quote.asOf} stale={quote.stale} />
+                            </>
+                          ) : '...'}
+                        </td>
+                        <td className={`px-4 py-2 text-right ${changeClassName(quote?.change24h)}`}>
+                          {quote?.change24h !== undefined ? `${quote.change24h.toFixed(2)}%` : 'N/A'}
+                        </td>
+                        <td className="px-4 py-2 text-right">{activeCount}</td>
+                        <td className="px-4 py-2 text-right space-x-3 whitespace-nowrap">
+                          <button type="button" onClick={() => openAlertForm(coinId)} className="text-blue-600 hover:text-blue-800 text-sm">
+                            Add Alert
+                          </button>
+                          <button type="button" onClick={() => removeFromWatchlist(coinId)} className="text-red-600 hover:text-red-800 text-sm">
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {alertCoinId && (
+            <div className="mt-6 p-4 bg-gray-50 rounded-lg">
+              <h3 className="font-semibold text-gray-800 mb-3">New alert for {coinName(alertCoinId)}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div>
+                  <label className="block text-gray-700 text-sm font-bold mb-2">Condition</label>
+                  <select value={condition} onChange={(e) => setCondition(e.target.value as AlertCondition)} className={inputClassName}>
+                    {ALERT_CONDITIONS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-gray-700 text-sm font-bold mb-2">
+                    {condition === 'change24h' ? 'Move (%)' : `Price (${symbol})`}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={threshold}
+                    onChange={(e) => setThreshold(Number(e.target.value))}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={saveAlert}
+                    className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
+                  >
+                    Save Alert
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setAlertCoinId('')}
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-xl p-6">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Alerts</h2>
+          {alerts.length === 0 ? (
+            <p className="text-gray-600">
+              No alerts yet. Add one from the watchlist, or from a calculation on the calculator page.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {alerts.map((alert) => (
+                <li key={alert.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div>
+                    <span className="font-medium text-gray-800">{coinName(alert.coinId)}</span>
+                    {alert.label && <span className="ml-2 text-sm text-gray-500">{alert.label}</span>}
+                    <div className="text-sm text-gray-600">
+                      {describeAlert(alert, value => formatIn(value, alert.currency))}
+                      {alert.currency !== currency && ` (only checked while ${alert.currency.toUpperCase()} is selected)`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 text-sm">
+                    {alert.active ? (
+                      <span className="text-green-600">Active</span>
+                    ) : (
+                      <span className="text-yellow-700">
+                        Triggered {alert.triggeredAt ? new Date(alert.triggeredAt).toLocaleString() : ''}
+                        {alert.triggeredPrice !== undefined && ` at ${formatIn(alert.triggeredPrice, alert.currency)}`}
+                      </span>
+                    )}
+                    {!alert.active && (
+                      <button type="button" onClick={() => rearmAlert(alert.id)} className="text-blue-600 hover:text-blue-800">
+                        Re-arm
+                      </button>
+                    )}
+                    <button type="button" onClick={() => removeAlert(alert.id)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
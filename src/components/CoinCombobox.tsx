@@ -0,0 +1,404 @@
+'use client';
+
+import { KeyboardEvent, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { CoinListItem } from '../lib/market/types';
+import { fetchCoinByContract, fetchSpotPrices } from '../lib/market/client';
+import { describeMarketError } from '../lib/market/errors';
+import { addRecentCoin, chainsForAddress, searchCoins } from '../lib/coinSearch';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { useCurrency } from './CurrencyProvider';
+
+interface CoinComboboxProps {
+  coins: CoinListItem[];
+  value: string;
+  // Called with null only when `noneLabel` is set and chosen
+  onChange: (coin: CoinListItem | null) => void;
+  // Adds a first option that selects no coin
+  noneLabel?: string;
+  // Coins that can't be picked here, e.g. the one already selected elsewhere
+  exclude?: string[];
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+}
+
+type Row =
+  | { kind: 'header'; label: string }
+  | { kind: 'none' }
+  | { kind: 'coin'; coin: CoinListItem };
+
+const ROW_HEIGHT = 40;
+const MAX_VISIBLE_ROWS = 8;
+// Rows rendered above and below the visible window
+const OVERSCAN = 4;
+const PRICE_DELAY_MS = 250;
+const CONTRACT_DELAY_MS = 400;
+
+const coinLabel = (coin: CoinListItem) => `${coin.name} (${coin.symbol})`;
+
+function CoinLogo({ coin }: { coin: CoinListItem }) {
+  if (coin.image) {
+    // Logos come from whichever hosts the data provider uses, which next/image
+    // would need configured one by one
+    // eslint-disable-next-line @next/next/no-img-element
+    return <img src={coin.image} alt="" width={20} height={20} loading="lazy" className="w-5 h-5 rounded-full shrink-0" />;
+  }
+  return (
+    <span className="w-5 h-5 rounded-full bg-gray-200 text-gray-600 text-[10px] font-semibold flex items-center justify-center shrink-0">
+      {coin.symbol.charAt(0)}
+    </span>
+  );
+}
+
+// Searchable coin picker for catalogs of thousands of coins. Only the rows in
+// view are rendered and priced. Recent and favorite coins are listed first,
+// and a pasted token contract address is looked up on the chosen chain.
+export default function CoinCombobox({
+  coins,
+  value,
+  onChange,
+  noneLabel,
+  exclude = [],
+  placeholder = 'Search by name, symbol or contract address...',
+  className = '',
+  inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+}: CoinComboboxProps) {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [favorites, setFavorites] = usePersistentState<string[]>('favorite-coins', []);
+  const [recent, setRecent] = usePersistentState<string[]>('recent-coins', []);
+  const [contractChain, setContractChain] = useState('');
+  const [contractCoin, setContractCoin] = useState<CoinListItem | null>(null);
+  const [contractStatus, setContractStatus] = useState('');
+  // Keyed by currency and coin id; null once a lookup found no price
+  const [prices, setPrices] = useState<Record<string, number | null>>({});
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const listboxId = useId();
+  const { currency, formatCurrency } = useCurrency();
+
+  const selected = coins.find(coin => coin.id === value);
+  const addressChains = chainsForAddress(query);
+  const chain = addressChains.find(candidate => candidate.id === contractChain) ?? addressChains[0];
+
+  const ranked = useMemo(() => searchCoins(coins, ''), [coins]);
+
+  // Callers usually pass a fresh array, so compare by content
+  const excludeKey = exclude.join(',');
+
+  const rows = useMemo<Row[]>(() => {
+    const excluded = excludeKey.split(',');
+    const allowed = (coin: CoinListItem) => !excluded.includes(coin.id);
+    const byId = (ids: string[]) =>
+      ids.map(id => coins.find(coin => coin.id === id)).filter((coin): coin is CoinListItem => Boolean(coin) && allowed(coin));
+    const section = (label: string, list: CoinListItem[]): Row[] =>
+      list.length === 0 ? [] : [{ kind: 'header', label }, ...list.map(coin => ({ kind: 'coin' as const, coin }))];
+
+    if (query.trim()) {
+      const contractRows = contractCoin && chain && allowed(contractCoin)
+        ? section(`Contract on ${chain.name}`, [contractCoin])
+        : [];
+      return [...contractRows, ...section('Matches', searchCoins(coins, query).filter(allowed))];
+    }
+    return [
+      ...(noneLabel ? [{ kind: 'none' as const }] : []),
+      ...section('Favorites', byId(favorites)),
+      ...section('Recent', byId(recent.filter(id => !favorites.includes(id)))),
+      ...section('All coins', ranked.filter(allowed))
+    ];
+  }, [coins, ranked, query, favorites, recent, excludeKey, noneLabel, contractCoin, chain]);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(rows.length, Math.ceil(scrollTop / ROW_HEIGHT) + MAX_VISIBLE_ROWS + OVERSCAN);
+  const visibleRows = rows.slice(firstVisible, lastVisible);
+  const visibleIds = visibleRows.flatMap(row => (row.kind === 'coin' ? [row.coin.id] : []));
+  const missingIds = open ? visibleIds.filter(id => prices[`${currency}:${id}`] === undefined) : [];
+  const missingKey = missingIds.join(',');
+
+  // Prices for the rows in view, once scrolling pauses
+  useEffect(() => {
+    if (!missingKey) return;
+    const ids = missingKey.split(',');
+    const timer = window.setTimeout(() => {
+      fetchSpotPrices(ids, currency)
+        .then(quotes => setPrices(current => {
+          const next = { ...current };
+          ids.forEach(id => {
+            next[`${currency}:${id}`] = quotes.find(quote => quote.id === id)?.price ?? null;
+          });
+          return next;
+        }))
+        // Prices are a nicety here; a failure just leaves them blank
+        .catch(() => setPrices(current => ({
+          ...current,
+          ...Object.fromEntries(ids.map(id => [`${currency}:${id}`, null]))
+        })));
+    }, PRICE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [missingKey, currency]);
+
+  // Look up a pasted contract address once typing pauses
+  useEffect(() => {
+    setContractCoin(null);
+    setContractStatus('');
+    if (!chain) return;
+    const address = query.trim();
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      setContractStatus('Looking up contract...');
+      fetchCoinByContract(chain.id, address)
+        .then(coin => {
+          if (cancelled) return;
+          setContractCoin(coin);
+          setContractStatus('');
+        })
+        .catch(error => {
+          if (!cancelled) setContractStatus(describeMarketError(error, 'Could not look up this contract.'));
+        });
+    }, CONTRACT_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query, chain]);
+
+  // New results start with the best match active
+  const firstSelectable = rows.findIndex(row => row.kind !== 'header');
+  useEffect(() => {
+    if (open) setActiveIndex(firstSelectable);
+  }, [open, query, contractCoin, firstSelectable]);
+
+  // Keep the active row in view while moving with the keyboard
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || activeIndex < 0) return;
+    const top = activeIndex * ROW_HEIGHT;
+    if (top < list.scrollTop) {
+      list.scrollTop = top;
+    } else if (top + ROW_HEIGHT > list.scrollTop + list.clientHeight) {
+      list.scrollTop = top + ROW_HEIGHT - list.clientHeight;
+    }
+  }, [activeIndex]);
+
+  const isSelectable = (index: number) => index >= 0 && index < rows.length && rows[index].kind !== 'header';
+
+  const step = (from: number, direction: 1 | -1) => {
+    for (let index = from + direction; index >= 0 && index < rows.length; index += direction) {
+      if (isSelectable(index)) return index;
+    }
+    return from;
+  };
+
+  const openList = () => {
+    setOpen(true);
+    setActiveIndex(step(-1, 1));
+  };
+
+  const close = () => {
+    setOpen(false);
+    setQuery('');
+    setScrollTop(0);
+    setActiveIndex(-1);
+  };
+
+  const choose = (row: Row) => {
+    if (row.kind === 'header') return;
+    if (row.kind === 'none') {
+      onChange(null);
+    } else {
+      setRecent(current => addRecentCoin(current, row.coin.id));
+      onChange(row.coin);
+    }
+    close();
+  };
+
+  const toggleFavorite = (id: string) =>
+    setFavorites(current => (current.includes(id) ? current.filter(item => item !== id) : [...current, id]));
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (!open) openList();
+        else setActiveIndex(index => step(index, 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (open) setActiveIndex(index => step(index, -1));
+        break;
+      case 'PageDown':
+      case 'PageUp': {
+        if (!open) break;
+        event.preventDefault();
+        const direction = event.key === 'PageDown' ? 1 : -1;
+        setActiveIndex(index => {
+          const target = Math.min(rows.length - 1, Math.max(0, index + direction * MAX_VISIBLE_ROWS));
+          return isSelectable(target) ? target : step(target, direction);
+        });
+        break;
+      }
+      case 'Enter':
+        if (open && isSelectable(activeIndex)) {
+          event.preventDefault();
+          choose(rows[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        if (open) {
+          event.preventDefault();
+          close();
+        }
+        break;
+    }
+  };
+
+  const activeId = open && isSelectable(activeIndex) ? `${listboxId}-${activeIndex}` : undefined;
+
+  return (
+    // Focus can move to the chain picker without closing the list
+    <div
+      ref={wrapperRef}
+      className={`relative ${className}`}
+      onBlur={(e) => {
+        if (!wrapperRef.current?.contains(e.relatedTarget as Node | null)) close();
+      }}
+    >
+      <input
+        ref={inputRef}
+        type="text"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeId}
+        className={inputClassName}
+        placeholder={selected ? coinLabel(selected) : placeholder}
+        value={open ? query : selected ? coinLabel(selected) : ''}
+        onFocus={openList}
+        onClick={() => !open && openList()}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+          setScrollTop(0);
+          if (listRef.current) listRef.current.scrollTop = 0;
+        }}
+        onKeyDown={handleKeyDown}
+      />
+
+      {open && (
+        // Clicks on rows must not blur the input first; the chain picker needs focus to open
+        <div
+          className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg"
+          onMouseDown={(e) => {
+            if (!(e.target instanceof HTMLSelectElement)) e.preventDefault();
+          }}
+        >
+          {addressChains.length > 0 && (
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-100 text-xs text-gray-600">
+              <span>Token contract on</span>
+              <select
+                value={chain?.id}
+                onChange={(e) => {
+                  setContractChain(e.target.value);
+                  inputRef.current?.focus();
+                }}
+                className="border border-gray-300 rounded px-1 py-0.5"
+              >
+                {addressChains.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                ))}
+              </select>
+              {contractStatus && <span className="truncate">{contractStatus}</span>}
+            </div>
+          )}
+
+          {rows.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500">
+              {coins.length === 0 ? 'The coin list has not loaded yet.' : 'No coins match your search.'}
+            </p>
+          ) : (
+            <div
+              ref={listRef}
+              id={listboxId}
+              role="listbox"
+              className="overflow-y-auto"
+              style={{ maxHeight: MAX_VISIBLE_ROWS * ROW_HEIGHT }}
+              onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            >
+              <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+                {visibleRows.map((row, offset) => {
+                  const index = firstVisible + offset;
+                  const style = { position: 'absolute' as const, top: index * ROW_HEIGHT, height: ROW_HEIGHT, left: 0, right: 0 };
+                  if (row.kind === 'header') {
+                    return (
+                      <div key={`header-${row.label}`} style={style} className="px-3 flex items-end pb-1 text-xs font-semibold uppercase text-gray-400">
+                        {row.label}
+                      </div>
+                    );
+                  }
+                  const active = index === activeIndex;
+                  const rowClassName = `px-3 flex items-center gap-2 cursor-pointer text-sm ${active ? 'bg-blue-50' : 'hover:bg-gray-50'}`;
+                  if (row.kind === 'none') {
+                    return (
+                      <div
+                        key="none"
+                        id={`${listboxId}-${index}`}
+                        role="option"
+                        aria-selected={!value}
+                        style={style}
+                        className={`${rowClassName} text-gray-500`}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        onClick={() => choose(row)}
+                      >
+                        {noneLabel}
+                      </div>
+                    );
+                  }
+
+                  const { coin } = row;
+                  const price = prices[`${currency}:${coin.id}`];
+                  const favorite = favorites.includes(coin.id);
+                  return (
+                    <div
+                      key={`${index}-${coin.id}`}
+                      id={`${listboxId}-${index}`}
+                      role="option"
+                      aria-selected={coin.id === value}
+                      style={style}
+                      className={rowClassName}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={() => choose(row)}
+                    >
+                      <CoinLogo coin={coin} />
+                      <span className="truncate">
+                        {coin.name} <span className="text-gray-500">{coin.symbol}</span>
+                      </span>
+                      {coin.market_cap_rank && <span className="text-xs text-gray-400">#{coin.market_cap_rank}</span>}
+                      <span className="ml-auto text-xs text-gray-600 tabular-nums">
+                        {typeof price === 'number' ? formatCurrency(price) : ''}
+                      </span>
+                      <button
+                        type="button"
+                        aria-label={favorite ? `Remove ${coin.name} from favorites` : `Add ${coin.name} to favorites`}
+                        className={favorite ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleFavorite(coin.id);
+                        }}
+                      >
+                        {favorite ? '★' : '☆'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { PricePoint } from '../lib/market/types';
+import { linearScale, logScale, logTicks, linePath } from '../lib/chart';
+import { useCurrency } from './CurrencyProvider';
+
+export interface ComparisonSeries {
+  id: string;
+  label: string;
+  color: string;
+  // Asset prices over time; only the change from the first point is drawn
+  points: PricePoint[];
+}
+
+interface ComparisonChartProps {
+  series: ComparisonSeries[];
+  // Amount invested in every asset at the first point
+  invested: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const MARGIN = { top: 12, right: 12, bottom: 28, left: 84 };
+
+const formatDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+// The same amount put into each asset on the same day, valued over time on a
+// log scale so a coin and a savings account fit on one chart
+export default function ComparisonChart({ series, invested }: ComparisonChartProps) {
+  const { formatCurrency } = useCurrency();
+
+  const lines = series
+    .filter(line => line.points.length > 1 && line.points[0].price > 0)
+    .map(line => ({
+      ...line,
+      values: line.points.map(point => ({ timestamp: point.timestamp, value: invested * point.price / line.points[0].price }))
+    }));
+  if (lines.length === 0 || !(invested > 0)) return null;
+
+  const all = lines.flatMap(line => line.values);
+  const values = [...all.map(point => point.value), invested];
+  const times = all.map(point => point.timestamp);
+  const domain: [number, number] = [Math.min(...values) / 1.5, Math.max(...values) * 1.5];
+  const timeDomain: [number, number] = [Math.min(...times), Math.max(...times)];
+  const x = linearScale(timeDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const y = logScale(domain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {logTicks(domain).map((tick) => (
+          <g key={tick}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={MARGIN.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="#6b7280">
+              {formatCurrency(tick)}
+            </text>
+          </g>
+        ))}
+        {timeDomain.map((tick, index) => (
+          <text
+            key={index}
+            x={x(tick)}
+            y={HEIGHT - 8}
+            textAnchor={index === 0 ? 'start' : 'end'}
+            fontSize="10"
+            fill="#6b7280"
+          >
+            {formatDate(tick)}
+          </text>
+        ))}
+        <line
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={y(invested)}
+          y2={y(invested)}
+          stroke="#9ca3af"
+          strokeDasharray="6 4"
+        />
+        {lines.map((line) => (
+          <path
+            key={line.id}
+            d={linePath(line.values.map(point => ({ x: x(point.timestamp), y: y(point.value) })))}
+            fill="none"
+            stroke={line.color}
+            strokeWidth="2"
+          />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+        {lines.map((line) => (
+          <span key={line.id} className="inline-flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: line.color }} />
+            {line.label}: {formatCurrency(line.values[line.values.length - 1].value)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
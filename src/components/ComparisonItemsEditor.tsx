@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { ComparisonItem, createComparisonItemId } from '../lib/comparisonItems';
+import { useCurrency } from './CurrencyProvider';
+
+interface ComparisonItemsEditorProps {
+  items: ComparisonItem[];
+  // Units of the selected currency per US dollar, since item prices are stored in USD
+  usdRate: number;
+  onChange: (items: ComparisonItem[]) => void;
+  onReset: () => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function ComparisonItemsEditor({ items, usdRate, onChange, onReset }: ComparisonItemsEditorProps) {
+  const { symbol } = useCurrency();
+  const [name, setName] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const [price, setPrice] = useState('');
+
+  const toLocalPrice = (usdPrice: number) => Number((usdPrice * usdRate).toPrecision(10));
+
+  const updateItem = (id: string, changes: Partial<ComparisonItem>) =>
+    onChange(items.map(item => (item.id === id ? { ...item, ...changes } : item)));
+
+  const handleAdd = () => {
+    const parsedPrice = parseFloat(price);
+    if (!name.trim() || !(parsedPrice > 0) || !(usdRate > 0)) return;
+    onChange([
+      ...items,
+      { id: createComparisonItemId(), name: name.trim(), emoji: emoji.trim() || '🛍️', price: parsedPrice / usdRate }
+    ]);
+    setName('');
+    setEmoji('');
+    setPrice('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 pr-2 w-16">Emoji</th>
+            <th className="py-1 pr-2">Item</th>
+            <th className="py-1 pr-2 w-40">Price ({symbol})</th>
+            <th className="py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item) => (
+            <tr key={item.id}>
+              <td className="py-1 pr-2">
+                <input value={item.emoji} onChange={(e) => updateItem(item.id, { emoji: e.target.value })} className={inputClassName} />
+              </td>
+              <td className="py-1 pr-2">
+                <input value={item.name} onChange={(e) => updateItem(item.id, { name: e.target.value })} className={inputClassName} />
+              </td>
+              <td className="py-1 pr-2">
+                {/* Uncontrolled so partial input like "1." survives; remounts when the currency changes */}
+                <input
+                  key={usdRate}
+                  type="number"
+                  min="0"
+                  step="any"
+                  defaultValue={toLocalPrice(item.price)}
+                  onChange={(e) => updateItem(item.id, { price: (parseFloat(e.target.value) || 0) / usdRate })}
+                  className={inputClassName}
+                />
+              </td>
+              <td className="py-1 text-right">
+                <button
+                  type="button"
+                  onClick={() => onChange(items.filter(i => i.id !== item.id))}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-4 gap-2">
+        <input value={emoji} onChange={(e) => setEmoji(e.target.value)} placeholder="Emoji" className={inputClassName} />
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Item name" className={`${inputClassName} col-span-2`} />
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          placeholder={`Price (${symbol})`}
+          className={inputClassName}
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="text-sm px-3 py-1 rounded bg-blue-500 text-white hover:bg-blue-700"
+        >
+          Add Item
+        </button>
+        <button
+          type="button"
+          onClick={onReset}
+          className="text-sm px-3 py-1 rounded bg-gray-200 text-gray-800 hover:bg-gray-300"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+    </div>
+  );
+}
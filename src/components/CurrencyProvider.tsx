@@ -0,0 +1,63 @@
+'use client';
+
+import { createContext, ReactNode, useContext, useMemo } from 'react';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { DEFAULT_CURRENCY, isSupportedCurrency } from '../lib/currency';
+import { currencySymbol, formatAssetAmount, formatCrypto, formatCurrency, formatLargeNumber } from '../lib/format';
+
+interface CurrencyContextValue {
+  currency: string;
+  setCurrency: (code: string) => void;
+  symbol: string;
+  formatCurrency: (value: number) => string;
+  formatCrypto: (value: number) => string;
+  formatLargeNumber: (value: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null);
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const [stored, setCurrency] = usePersistentState('currency', DEFAULT_CURRENCY);
+  const currency = isSupportedCurrency(stored) ? stored : DEFAULT_CURRENCY;
+
+  const value = useMemo<CurrencyContextValue>(() => ({
+    currency,
+    setCurrency,
+    symbol: currencySymbol(currency),
+    formatCurrency: (amount: number) => formatCurrency(amount, currency),
+    formatCrypto: (amount: number) => formatCrypto(amount, currency),
+    formatLargeNumber: (amount: number) => formatLargeNumber(amount, currency)
+  }), [currency, setCurrency]);
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+// Prices and amounts below this provider are quoted in a coin rather than the
+// selected fiat currency. `currency` becomes the coin id, which the market
+// routes accept as `vs`; numbers keep the fiat currency's locale.
+export function QuoteCurrencyProvider({ asset, children }: { asset: { id: string; symbol: string } | null; children: ReactNode }) {
+  const parent = useCurrency();
+
+  const value = useMemo<CurrencyContextValue>(() => {
+    if (!asset) return parent;
+    const locale = parent.currency;
+    return {
+      currency: asset.id,
+      setCurrency: parent.setCurrency,
+      symbol: asset.symbol,
+      formatCurrency: (amount: number) => formatAssetAmount(amount, asset.symbol, locale),
+      formatCrypto: parent.formatCrypto,
+      formatLargeNumber: (amount: number) => `${formatLargeNumber(amount, locale)} ${asset.symbol}`
+    };
+  }, [parent, asset]);
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
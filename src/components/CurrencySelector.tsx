@@ -0,0 +1,23 @@
+'use client';
+
+import { SUPPORTED_CURRENCIES } from '../lib/currency';
+import { useCurrency } from './CurrencyProvider';
+
+export default function CurrencySelector({ className = '' }: { className?: string }) {
+  const { currency, setCurrency } = useCurrency();
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value)}
+      aria-label="Quote currency"
+      className={`px-2 py-1 border border-gray-300 rounded-md text-sm bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 ${className}`}
+    >
+      {SUPPORTED_CURRENCIES.map((option) => (
+        <option key={option.code} value={option.code}>
+          {option.code.toUpperCase()} - {option.name}
+        </option>
+      ))}
+    </select>
+  );
+}
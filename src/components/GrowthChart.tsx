@@ -0,0 +1,85 @@
+'use client';
+
+import { linearScale, logScale, logTicks, linePath } from '../lib/chart';
+import { useCurrency } from './CurrencyProvider';
+
+interface GrowthPoint {
+  date: string;
+  value: number;
+}
+
+interface GrowthChartProps {
+  // Value today of the investment, keyed by purchase date
+  points: GrowthPoint[];
+  // Amount invested, drawn as a reference line
+  invested: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const MARGIN = { top: 12, right: 12, bottom: 28, left: 84 };
+
+const toTimestamp = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+// Today's value of the same investment made on each purchase date. A log
+// scale keeps early 1000x results and recent 1.2x results readable together.
+export default function GrowthChart({ points, invested }: GrowthChartProps) {
+  const { formatCurrency } = useCurrency();
+
+  const sorted = points
+    .filter(point => point.value > 0)
+    .sort((a, b) => toTimestamp(a.date) - toTimestamp(b.date));
+  if (sorted.length < 2 || !(invested > 0)) return null;
+
+  const values = [...sorted.map(point => point.value), invested];
+  const domain: [number, number] = [Math.min(...values) / 1.5, Math.max(...values) * 1.5];
+  const x = linearScale(
+    [toTimestamp(sorted[0].date), toTimestamp(sorted[sorted.length - 1].date)],
+    [MARGIN.left, WIDTH - MARGIN.right]
+  );
+  const y = logScale(domain, [HEIGHT - MARGIN.bottom, MARGIN.top]);
+  const path = linePath(sorted.map(point => ({ x: x(toTimestamp(point.date)), y: y(point.value) })));
+  const labelIndexes = Array.from(new Set([0, Math.floor((sorted.length - 1) / 2), sorted.length - 1]));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      {logTicks(domain).map((tick) => (
+        <g key={tick}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+          <text x={MARGIN.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="#6b7280">
+            {formatCurrency(tick)}
+          </text>
+        </g>
+      ))}
+      {labelIndexes.map((index) => (
+        <text
+          key={index}
+          x={x(toTimestamp(sorted[index].date))}
+          y={HEIGHT - 8}
+          textAnchor={index === 0 ? 'start' : index === sorted.length - 1 ? 'end' : 'middle'}
+          fontSize="10"
+          fill="#6b7280"
+        >
+          {sorted[index].date}
+        </text>
+      ))}
+      <line
+        x1={MARGIN.left}
+        x2={WIDTH - MARGIN.right}
+        y1={y(invested)}
+        y2={y(invested)}
+        stroke="#9ca3af"
+        strokeDasharray="6 4"
+      />
+      <text x={WIDTH - MARGIN.right - 4} y={y(invested) - 4} textAnchor="end" fontSize="10" fill="#6b7280">
+        Invested {formatCurrency(invested)}
+      </text>
+      <path d={path} fill="none" stroke="#7c3aed" strokeWidth="2" />
+      {sorted.map((point) => (
+        <circle key={point.date} cx={x(toTimestamp(point.date))} cy={y(point.value)} r="3" fill="#7c3aed">
+          <title>{`${point.date}: ${formatCurrency(point.value)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { COST_BASIS_METHODS, CostBasisMethod, LedgerEntry, LedgerPosition } from '../lib/ledger';
+import { useCurrency } from './CurrencyProvider';
+
+interface LotLedgerProps {
+  coinSymbol: string;
+  entries: LedgerEntry[];
+  method: CostBasisMethod;
+  position: LedgerPosition | null;
+  onMethodChange: (method: CostBasisMethod) => void;
+  onAdd: (entry: Omit<LedgerEntry, 'id' | 'coinId' | 'currency'>) => void;
+  onRemove: (id: string) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function LotLedger({
+  coinSymbol,
+  entries,
+  method,
+  position,
+  onMethodChange,
+  onAdd,
+  onRemove
+}: LotLedgerProps) {
+  const { symbol, formatCurrency, formatCrypto } = useCurrency();
+  const [type, setType] = useState<'buy' | 'sell'>('buy');
+  const [date, setDate] = useState(today());
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [fee, setFee] = useState('');
+
+  const handleAdd = () => {
+    const parsedQuantity = parseFloat(quantity);
+    const parsedPrice = parseFloat(price);
+    if (!(parsedQuantity > 0) || !(parsedPrice >= 0) || !date) return;
+    onAdd({
+      type,
+      date,
+      quantity: parsedQuantity,
+      price: parsedPrice,
+      fee: parseFloat(fee) || 0
+    });
+    setQuantity('');
+    setPrice('');
+    setFee('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Cost Basis Method</label>
+        <select
+          value={method}
+          onChange={(e) => onMethodChange(e.target.value as CostBasisMethod)}
+          className={inputClassName}
+        >
+          {COST_BASIS_METHODS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select value={type} onChange={(e) => setType(e.target.value as 'buy' | 'sell')} className={inputClassName}>
+          <option value="buy">Buy</option>
+          <option value="sell">Sell</option>
+        </select>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClassName} />
+        <input
+          type="number"
+          step="0.00000001"
+          min="0"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          placeholder={`Quantity (${coinSymbol})`}
+          className={inputClassName}
+        />
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          placeholder={`Price (${symbol})`}
+          className={inputClassName}
+        />
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={fee}
+          onChange={(e) => setFee(e.target.value)}
+          placeholder={`Fee (${symbol})`}
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-3 py-1 rounded-md"
+        >
+          Add Entry
+        </button>
+      </div>
+
+      {entries.length > 0 && (
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 uppercase">
+              <th className="py-1">Date</th>
+              <th className="py-1">Type</th>
+              <th className="py-1">Qty</th>
+              <th className="py-1">Price</th>
+              <th className="py-1">Fee</th>
+              <th className="py-1"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {entries.map((entry) => (
+              <tr key={entry.id}>
+                <td className="py-1">{entry.date}</td>
+                <td className={`py-1 ${entry.type === 'buy' ? 'text-green-600' : 'text-red-600'}`}>{entry.type}</td>
+                <td className="py-1">{formatCrypto(entry.quantity)}</td>
+                <td className="py-1">{formatCurrency(entry.price)}</td>
+                <td className="py-1">{formatCurrency(entry.fee)}</td>
+                <td className="py-1 text-right">
+                  <button type="button" onClick={() => onRemove(entry.id)} className="text-gray-400 hover:text-red-600">
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {position && (
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <p className="text-gray-600">Holding: <span className="font-semibold">{formatCrypto(position.quantity)} {coinSymbol}</span></p>
+          <p className="text-gray-600">Cost Basis: <span className="font-semibold">{formatCurrency(position.costBasis)}</span></p>
+          {position.unmatchedSellQuantity > 0 && (
+            <p className="col-span-2 text-red-600">
+              Sells exceed recorded buys by {formatCrypto(position.unmatchedSellQuantity)} {coinSymbol}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { TradingCosts } from '../lib/fees';
+import { fetchPriceRange } from '../lib/market/client';
+import { describeMarketError } from '../lib/market/errors';
+import { PricePoint } from '../lib/market/types';
+import { MIN_RETURNS, returnStatistics, SIMULATION_MODELS, SimulationModel, SimulationResult, simulatePrices } from '../lib/monteCarlo';
+import { evaluateTarget } from '../lib/scenarios';
+import { useCurrency } from './CurrencyProvider';
+
+interface MonteCarloPanelProps {
+  coinId: string;
+  // Today's price, where every path starts
+  startPrice: number;
+  quantity: number;
+  buyPrice: number;
+  targetPrice: number;
+  breakevenPrice: number;
+  costs: TradingCosts;
+  entryCostsIncluded: boolean;
+}
+
+const LOOKBACK_OPTIONS = [
+  { days: 90, label: '90 days' },
+  { days: 180, label: '180 days' },
+  { days: 365, label: '1 year' },
+  { days: 730, label: '2 years' },
+];
+const PATH_OPTIONS = [1000, 5000, 10000, 25000];
+const MAX_HORIZON_DAYS = 1825;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const randomSeed = () => Math.floor(Math.random() * 1000000);
+
+export default function MonteCarloPanel({
+  coinId,
+  startPrice,
+  quantity,
+  buyPrice,
+  targetPrice,
+  breakevenPrice,
+  costs,
+  entryCostsIncluded
+}: MonteCarloPanelProps) {
+  const [model, setModel] = useState<SimulationModel>('gbm');
+  const [lookbackDays, setLookbackDays] = useState(365);
+  const [horizonDays, setHorizonDays] = useState(90);
+  const [paths, setPaths] = useState(5000);
+  const [seed, setSeed] = useState(42);
+  const [points, setPoints] = useState<PricePoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [running, setRunning] = useState(false);
+  // Kept with the settings it ran with, which the inputs may have moved on from
+  const [run, setRun] = useState<{ result: SimulationResult; horizonDays: number; paths: number; seed: number } | null>(null);
+  const { currency, formatCurrency } = useCurrency();
+
+  useEffect(() => {
+    let cancelled = false;
+    const now = new Date();
+    setLoading(true);
+    setError('');
+    setRun(null);
+    fetchPriceRange(coinId, new Date(now.getTime() - lookbackDays * DAY_MS), now, currency)
+      .then(data => {
+        if (!cancelled) setPoints(data);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setPoints([]);
+          setError(describeMarketError(error, 'Failed to load price history.'));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [coinId, lookbackDays, currency]);
+
+  const statistics = useMemo(() => returnStatistics(points), [points]);
+
+  const runSimulation = () => {
+    if (!statistics) return;
+    setRunning(true);
+    // Let the button show its busy state before the paths tie up the thread
+    setTimeout(() => {
+      const horizon = Math.min(MAX_HORIZON_DAYS, Math.max(1, Math.round(horizonDays)));
+      const result = simulatePrices(statistics, {
+        model,
+        startPrice,
+        targetPrice,
+        breakevenPrice,
+        horizonDays: horizon,
+        paths,
+        seed
+      });
+      setRun({ result, horizonDays: horizon, paths, seed });
+      setRunning(false);
+    }, 0);
+  };
+
+  // Value rises with the price, so each price percentile is also that
+  // percentile of the position's value
+  const bands = run?.result.finalPrices.map(({ percentile, price }) => ({
+    percentile,
+    price,
+    ...evaluateTarget(quantity, buyPrice, price, costs, { entryCostsIncluded })
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        <label className="text-xs text-gray-600">
+          Model
+          <select value={model} onChange={(e) => setModel(e.target.value as SimulationModel)} className={inputClassName}>
+            {SIMULATION_MODELS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          History
+          <select value={lookbackDays} onChange={(e) => setLookbackDays(Number(e.target.value))} className={inputClassName}>
+            {LOOKBACK_OPTIONS.map(({ days, label }) => (
+              <option key={days} value={days}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Horizon (days)
+          <input
+            type="number"
+            min="1"
+            max={MAX_HORIZON_DAYS}
+            value={horizonDays}
+            onChange={(e) => setHorizonDays(Number(e.target.value))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Paths
+          <select value={paths} onChange={(e) => setPaths(Number(e.target.value))} className={inputClassName}>
+            {PATH_OPTIONS.map((count) => (
+              <option key={count} value={count}>{count.toLocaleString()}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          Seed
+          <div className="flex gap-1">
+            <input type="number" value={seed} onChange={(e) => setSeed(Number(e.target.value))} className={inputClassName} />
+            <button
+              type="button"
+              onClick={() => setSeed(randomSeed())}
+              className="px-2 text-xs border border-gray-300 rounded-md hover:bg-gray-100"
+              title="Pick a new random seed"
+            >
+              New
+            </button>
+          </div>
+        </label>
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={runSimulation}
+            disabled={!statistics || running || loading}
+            className="w-full px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {running ? 'Running…' : 'Run Simulation'}
+          </button>
+        </div>
+      </div>
+
+      {loading && <p className="text-sm text-gray-500">Loading price history…</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!loading && !error && !statistics && (
+        <p className="text-sm text-gray-500">
+          At least {MIN_RETURNS} daily returns are needed; pick a longer history.
+        </p>
+      )}
+      {statistics && (
+        <p className="text-xs text-gray-500">
+          Estimated from {statistics.returns.length} returns: drift {(statistics.drift * 100).toFixed(3)}% and
+          volatility {(statistics.volatility * 100).toFixed(2)}% per day.
+        </p>
+      )}
+
+      {run && bands && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="p-2 bg-green-50 rounded-md">
+              <p className="text-xs text-gray-600">Touches {formatCurrency(targetPrice)} within {run.horizonDays} days</p>
+              <p className="text-lg font-semibold text-green-700">{run.result.probabilityTouchTarget.toFixed(1)}%</p>
+            </div>
+            <div className="p-2 bg-red-50 rounded-md">
+              <p className="text-xs text-gray-600">Ends below breakeven ({formatCurrency(breakevenPrice)})</p>
+              <p className="text-lg font-semibold text-red-700">{run.result.probabilityBelowBreakeven.toFixed(1)}%</p>
+            </div>
+          </div>
+
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase">
+                <th className="py-1 pr-2">Percentile</th>
+                <th className="py-1 pr-2">Final Price</th>
+                <th className="py-1 pr-2">Potential Value</th>
+                <th className="py-1">Profit/Loss</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {bands.map((band) => (
+                <tr key={band.percentile} className={band.percentile === 50 ? 'bg-blue-50' : ''}>
+                  <td className="py-1 pr-2">P{band.percentile}</td>
+                  <td className="py-1 pr-2">{formatCurrency(band.price)}</td>
+                  <td className="py-1 pr-2">{formatCurrency(band.potentialValue)}</td>
+                  <td className={`py-1 ${band.profitAmount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(band.profitAmount)}
+                    <span className="text-xs ml-1">
+                      ({band.profitPercentage >= 0 ? '+' : ''}{band.profitPercentage.toFixed(2)}%)
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <p className="text-xs text-gray-500">
+            {run.paths.toLocaleString()} paths, seed {run.seed}; annualized drift {run.result.annualDrift.toFixed(1)}% and
+            volatility {run.result.annualVolatility.toFixed(1)}%. The target is checked at each daily close, and past
+            returns are no guide to future ones.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { onStaleData } from '../lib/market/client';
+import { onStorageError } from '../lib/storage';
+
+// Registers the service worker that keeps the pages usable offline, and shows
+// a banner while offline, while cached market data is on screen, or once
+// changes could not be saved in this browser
+export function OfflineStatus() {
+  const [online, setOnline] = useState(true);
+  const [staleSince, setStaleSince] = useState<number | null>(null);
+  const [unsaved, setUnsaved] = useState(false);
+
+  useEffect(() => {
+    // The dev server rebuilds chunks constantly, so caching them only gets in the way
+    if (process.env.NODE_ENV === 'production' && 'serviceWorker' in navigator) {
+      // Without it the pages still work, just not offline
+      navigator.serviceWorker.register('/sw.js').catch(() => undefined);
+    }
+
+    const update = () => {
+      setOnline(navigator.onLine);
+      if (navigator.onLine) setStaleSince(null);
+    };
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    const unsubscribe = onStaleData(asOf => setStaleSince(current => (current === null ? asOf : Math.min(current, asOf))));
+    const unsubscribeStorage = onStorageError(() => setUnsaved(true));
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+      unsubscribe();
+      unsubscribeStorage();
+    };
+  }, []);
+
+  if (online && staleSince === null && !unsaved) return null;
+
+  return (
+    <div className="print:hidden">
+      {(!online || staleSince !== null) && (
+        <div className="bg-amber-100 text-amber-900 text-sm text-center px-4 py-2">
+          {online ? 'Live prices could not be loaded' : 'You are offline'}
+          {staleSince !== null
+            ? ` - showing saved data from ${new Date(staleSince).toLocaleString()}.`
+            : ' - saved data will be shown where available.'}
+          {online && (
+            <button type="button" onClick={() => setStaleSince(null)} className="ml-3 underline">
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+      {unsaved && (
+        <div className="bg-red-100 text-red-900 text-sm text-center px-4 py-2">
+          Your changes could not be saved in this browser (storage is full or disabled) and will be lost when the page
+          is closed.
+          <button type="button" onClick={() => setUnsaved(false)} className="ml-3 underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { fetchPriceRange } from '../lib/market/client';
+import { describeMarketError } from '../lib/market/errors';
+import { PricePoint } from '../lib/market/types';
+import { CHART_RANGES, ChartRange, chartRangeStart, linearScale, linearTicks, linePath, paddedExtent } from '../lib/chart';
+import { useCurrency } from './CurrencyProvider';
+
+interface PriceChartProps {
+  coinId: string;
+  buyPrice?: number;
+  targetPrice?: number;
+  breakevenPrice?: number;
+  stopLossPrice?: number;
+  // Called with the new price when the target line is dragged and released
+  onTargetChange?: (price: number) => void;
+}
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const MARGIN = { top: 12, right: 12, bottom: 28, left: 76 };
+
+const OVERLAYS = [
+  { key: 'buyPrice', label: 'Buy', color: '#2563eb' },
+  { key: 'breakevenPrice', label: 'Breakeven', color: '#d97706' },
+  { key: 'targetPrice', label: 'Target', color: '#16a34a' },
+  { key: 'stopLossPrice', label: 'Stop', color: '#dc2626' },
+] as const;
+
+const formatTime = (timestamp: number, range: ChartRange) =>
+  new Date(timestamp).toLocaleString(undefined, range === '1d'
+    ? { hour: '2-digit', minute: '2-digit' }
+    : range === '7d' || range === '1m'
+      ? { month: 'short', day: 'numeric' }
+      : { month: 'short', year: 'numeric' });
+
+export default function PriceChart({
+  coinId,
+  buyPrice,
+  targetPrice,
+  breakevenPrice,
+  stopLossPrice,
+  onTargetChange
+}: PriceChartProps) {
+  const [range, setRange] = useState<ChartRange>('1m');
+  const [points, setPoints] = useState<PricePoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [dragPrice, setDragPrice] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { currency, symbol, formatCurrency } = useCurrency();
+
+  useEffect(() => {
+    let cancelled = false;
+    const now = new Date();
+    const from = chartRangeStart(range, now);
+    setLoading(true);
+    setError('');
+    fetchPriceRange(coinId, from, now, currency)
+      .then(data => {
+        if (!cancelled) setPoints(data.filter(point => point.timestamp >= from.getTime()));
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setPoints([]);
+          setError(describeMarketError(error, 'Failed to load price history.'));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [coinId, range, currency]);
+
+  const levels = { buyPrice, targetPrice, breakevenPrice, stopLossPrice };
+
+  // The price axis also covers the overlay lines so they are always visible
+  const chart = useMemo(() => {
+    if (points.length < 2) return null;
+    const overlayPrices = [buyPrice, targetPrice, breakevenPrice, stopLossPrice].filter(
+      (price): price is number => price !== undefined && isFinite(price) && price > 0
+    );
+    const [low, high] = paddedExtent([...points.map(point => point.price), ...overlayPrices]);
+    const x = linearScale([points[0].timestamp, points[points.length - 1].timestamp], [MARGIN.left, WIDTH - MARGIN.right]);
+    const y = linearScale([Math.max(0, low), high], [HEIGHT - MARGIN.bottom, MARGIN.top]);
+    return {
+      x,
+      y,
+      domain: [Math.max(0, low), high] as [number, number],
+      path: linePath(points.map(point => ({ x: x(point.timestamp), y: y(point.price) }))),
+      priceTicks: linearTicks([Math.max(0, low), high], 5),
+      timeTicks: [0, 0.25, 0.5, 0.75, 1].map(t => points[0].timestamp + t * (points[points.length - 1].timestamp - points[0].timestamp)),
+    };
+  }, [points, buyPrice, targetPrice, breakevenPrice, stopLossPrice]);
+
+  const priceFromPointer = (event: PointerEvent<SVGElement>) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix || !chart) return null;
+    const point = svg.createSVGPoint();
+    point.x = event.clientX;
+    point.y = event.clientY;
+    const price = chart.y.invert(point.matrixTransform(matrix.inverse()).y);
+    const [low, high] = chart.domain;
+    return Number(Math.min(high, Math.max(low, price)).toPrecision(6));
+  };
+
+  const startDrag = (event: PointerEvent<SVGElement>) => {
+    if (!onTargetChange) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragPrice(priceFromPointer(event));
+  };
+
+  const moveDrag = (event: PointerEvent<SVGElement>) => {
+    if (dragPrice === null) return;
+    setDragPrice(priceFromPointer(event));
+  };
+
+  const endDrag = () => {
+    if (dragPrice === null) return;
+    if (dragPrice > 0 && onTargetChange) onTargetChange(dragPrice);
+    setDragPrice(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex gap-1">
+          {CHART_RANGES.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setRange(value)}
+              className={`text-xs px-2 py-1 rounded-md ${range === value ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {loading && <span className="text-xs text-gray-500">Loading...</span>}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!error && !loading && !chart && (
+        <p className="text-sm text-gray-500">Not enough price history for this range.</p>
+      )}
+
+      {chart && (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto select-none touch-none"
+          onPointerMove={moveDrag}
+          onPointerUp={endDrag}
+          onPointerCancel={() => setDragPrice(null)}
+        >
+          {chart.priceTicks.map((tick) => (
+            <g key={tick}>
+              <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={chart.y(tick)} y2={chart.y(tick)} stroke="#e5e7eb" />
+              <text x={MARGIN.left - 6} y={chart.y(tick)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="#6b7280">
+                {formatCurrency(tick)}
+              </text>
+            </g>
+          ))}
+          {chart.timeTicks.map((tick, index) => (
+            <text
+              key={index}
+              x={chart.x(tick)}
+              y={HEIGHT - 8}
+              textAnchor={index === 0 ? 'start' : index === chart.timeTicks.length - 1 ? 'end' : 'middle'}
+              fontSize="10"
+              fill="#6b7280"
+            >
+              {formatTime(tick, range)}
+            </text>
+          ))}
+
+          <path d={chart.path} fill="none" stroke="#7c3aed" strokeWidth="1.5" />
+
+          {OVERLAYS.map(({ key, label, color }) => {
+            const isTarget = key === 'targetPrice';
+            const price = isTarget && dragPrice !== null ? dragPrice : levels[key];
+            if (price === undefined || !isFinite(price) || price <= 0) return null;
+            const y = chart.y(Math.min(chart.domain[1], Math.max(chart.domain[0], price)));
+            return (
+              <g key={key}>
+                <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y} y2={y} stroke={color} strokeDasharray="6 4" strokeWidth="1.5" />
+                <text x={WIDTH - MARGIN.right - 4} y={y - 4} textAnchor="end" fontSize="10" fill={color}>
+                  {label} {formatCurrency(price)}
+                </text>
+                {isTarget && onTargetChange && (
+                  // Wide invisible hit area so the line is easy to grab
+                  <line
+                    x1={MARGIN.left}
+                    x2={WIDTH - MARGIN.right}
+                    y1={y}
+                    y2={y}
+                    stroke="transparent"
+                    strokeWidth="14"
+                    className="cursor-ns-resize"
+                    onPointerDown={startDrag}
+                  />
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      )}
+      {onTargetChange && targetPrice !== undefined && (
+        <p className="text-xs text-gray-500 mt-1 print:hidden">
+          Drag the target line to try a different target price ({symbol}).
+        </p>
+      )}
+    </div>
+  );
+}
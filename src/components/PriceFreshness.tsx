@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface PriceFreshnessProps {
+  asOf: number;
+  // Served from the offline cache
+  stale?: boolean;
+  className?: string;
+}
+
+// Prices older than this are flagged even when they came from the server
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+const formatAsOf = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+// "as of" time for a price, with a badge once it is out of date
+export default function PriceFreshness({ asOf, stale = false, className = '' }: PriceFreshnessProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const outdated = stale || now - asOf > STALE_AFTER_MS;
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs text-gray-500 ${className}`}>
+      as of {formatAsOf(asOf)}
+      {outdated && (
+        <span
+          className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 font-medium"
+          title={stale ? 'Saved price shown because the latest could not be loaded' : 'This price has not been refreshed recently'}
+        >
+          {stale ? 'Offline' : 'Stale'}
+        </span>
+      )}
+    </span>
+  );
+}
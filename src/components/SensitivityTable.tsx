@@ -0,0 +1,74 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { TradingCosts } from '../lib/fees';
+import { sensitivityGrid } from '../lib/scenarios';
+import { useCurrency } from './CurrencyProvider';
+
+interface SensitivityTableProps {
+  quantity: number;
+  buyPrice: number;
+  costs: TradingCosts;
+  entryCostsIncluded: boolean;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function SensitivityTable({ quantity, buyPrice, costs, entryCostsIncluded }: SensitivityTableProps) {
+  const [fromPercent, setFromPercent] = useState(-50);
+  const [toPercent, setToPercent] = useState(500);
+  const [stepPercent, setStepPercent] = useState(50);
+  const { formatCurrency } = useCurrency();
+
+  const rows = useMemo(
+    () => sensitivityGrid(quantity, buyPrice, costs, fromPercent, toPercent, stepPercent, { entryCostsIncluded }),
+    [quantity, buyPrice, costs, fromPercent, toPercent, stepPercent, entryCostsIncluded]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-xs text-gray-600">
+          From (%)
+          <input type="number" value={fromPercent} onChange={(e) => setFromPercent(Number(e.target.value))} className={inputClassName} />
+        </label>
+        <label className="text-xs text-gray-600">
+          To (%)
+          <input type="number" value={toPercent} onChange={(e) => setToPercent(Number(e.target.value))} className={inputClassName} />
+        </label>
+        <label className="text-xs text-gray-600">
+          Step (%)
+          <input type="number" min="1" value={stepPercent} onChange={(e) => setStepPercent(Number(e.target.value))} className={inputClassName} />
+        </label>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="py-1 pr-2">Change</th>
+              <th className="py-1 pr-2">Target Price</th>
+              <th className="py-1 pr-2">Potential Value</th>
+              <th className="py-1">Profit/Loss</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr key={row.changePercent} className={row.changePercent === 0 ? 'bg-blue-50' : ''}>
+                <td className="py-1 pr-2">{row.changePercent >= 0 ? '+' : ''}{row.changePercent}%</td>
+                <td className="py-1 pr-2">{formatCurrency(row.targetPrice)}</td>
+                <td className="py-1 pr-2">{formatCurrency(row.potentialValue)}</td>
+                <td className={`py-1 ${row.profitAmount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(row.profitAmount)}
+                  <span className="text-xs ml-1">
+                    ({row.profitPercentage >= 0 ? '+' : ''}{row.profitPercentage.toFixed(2)}%)
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { TradingCosts } from '../lib/fees';
+import { calculateLadder, LadderRung } from '../lib/scenarios';
+import { useCurrency } from './CurrencyProvider';
+
+interface TakeProfitLadderProps {
+  quantity: number;
+  totalCost: number;
+  targetPrice: number;
+  costs: TradingCosts;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const defaultRungs = (targetPrice: number): LadderRung[] => [
+  { percent: 25, price: targetPrice },
+  { percent: 50, price: targetPrice * 1.5 },
+  { percent: 25, price: targetPrice * 2 }
+];
+
+export default function TakeProfitLadder({ quantity, totalCost, targetPrice, costs }: TakeProfitLadderProps) {
+  const [rungs, setRungs] = useState<LadderRung[]>(() => defaultRungs(targetPrice));
+  const { symbol, formatCurrency, formatCrypto } = useCurrency();
+
+  const ladder = useMemo(
+    () => calculateLadder(quantity, totalCost, rungs, costs),
+    [quantity, totalCost, rungs, costs]
+  );
+
+  const updateRung = (index: number, field: keyof LadderRung, value: string) => {
+    setRungs(current => current.map((rung, i) => (i === index ? { ...rung, [field]: parseFloat(value) || 0 } : rung)));
+  };
+
+  const addRung = () => {
+    const last = rungs[rungs.length - 1];
+    setRungs([...rungs, { percent: 0, price: last ? last.price * 1.25 : targetPrice }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase">
+            <th className="py-1 pr-2">Sell %</th>
+            <th className="py-1 pr-2">Price ({symbol})</th>
+            <th className="py-1 pr-2">Proceeds</th>
+            <th className="py-1 pr-2">Cumulative P/L</th>
+            <th className="py-1"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {ladder.rungs.map((rung, index) => (
+            <tr key={index}>
+              <td className="py-1 pr-2 w-20">
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={rungs[index].percent}
+                  onChange={(e) => updateRung(index, 'percent', e.target.value)}
+                  className={inputClassName}
+                />
+              </td>
+              <td className="py-1 pr-2 w-32">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={rungs[index].price}
+                  onChange={(e) => updateRung(index, 'price', e.target.value)}
+                  className={inputClassName}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                {formatCurrency(rung.proceeds)}
+                <span className="block text-xs text-gray-500">{formatCrypto(rung.quantity)} sold</span>
+              </td>
+              <td className={`py-1 pr-2 font-semibold ${rung.cumulativeProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatCurrency(rung.cumulativeProfit)}
+              </td>
+              <td className="py-1 text-right">
+                <button
+                  type="button"
+                  onClick={() => setRungs(rungs.filter((_, i) => i !== index))}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button type="button" onClick={addRung} className="text-sm text-blue-600 hover:text-blue-800">
+        + Add exit
+      </button>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <p className="text-gray-600">Total Proceeds: <span className="font-semibold">{formatCurrency(ladder.totalProceeds)}</span></p>
+        <p className="text-gray-600">
+          Realized P/L:{' '}
+          <span className={`font-semibold ${ladder.realizedProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatCurrency(ladder.realizedProfit)}
+          </span>
+        </p>
+        {ladder.remainingQuantity > 0 && (
+          <p className="col-span-2 text-gray-600">Still held: <span className="font-semibold">{formatCrypto(ladder.remainingQuantity)}</span></p>
+        )}
+        {ladder.overAllocated && (
+          <p className="col-span-2 text-red-600">Exits add up to more than 100% of the position; later rungs were capped.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { parseCsv } from '../lib/csv';
+import { CoinListItem } from '../lib/market/types';
+import {
+  ColumnMapping,
+  csvHeaders,
+  detectImportFormat,
+  IMPORT_FORMATS,
+  ImportedEntry,
+  ImportFormat,
+  importTrades
+} from '../lib/tradeImport';
+
+interface TradeImportProps {
+  coins: CoinListItem[];
+  currency: string;
+  onImport: (entries: ImportedEntry[]) => void;
+  onSelectCoin: (coinId: string) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; optional?: boolean }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'side', label: 'Side (buy/sell)' },
+  { key: 'symbol', label: 'Coin symbol' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'price', label: 'Price' },
+  { key: 'fee', label: 'Fee', optional: true },
+  { key: 'quote', label: 'Quote currency', optional: true }
+];
+
+const EMPTY_MAPPING: ColumnMapping = { date: '', side: '', symbol: '', quantity: '', price: '' };
+
+export default function TradeImport({ coins, currency, onImport, onSelectCoin }: TradeImportProps) {
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('generic');
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [imported, setImported] = useState<{ coinId: string; currency: string; trades: number }[]>([]);
+
+  const headers = useMemo(() => (text ? csvHeaders(text) : []), [text]);
+  const mappingComplete = MAPPING_FIELDS.every(field => field.optional || mapping[field.key]);
+
+  const result = useMemo(() => {
+    if (!text || (format === 'generic' && !mappingComplete)) return null;
+    return importTrades(text, coins, { format, mapping, defaultQuote: currency });
+  }, [text, format, mapping, mappingComplete, coins, currency]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    setFormat(detectImportFormat(parseCsv(content)));
+    setMapping(EMPTY_MAPPING);
+    setImported([]);
+  };
+
+  const handleImport = () => {
+    if (!result || result.entries.length === 0) return;
+    onImport(result.entries);
+
+    const summary = new Map<string, { coinId: string; currency: string; trades: number }>();
+    result.entries.forEach(entry => {
+      const key = `${entry.coinId}:${entry.currency}`;
+      const current = summary.get(key) || { coinId: entry.coinId, currency: entry.currency || currency, trades: 0 };
+      summary.set(key, { ...current, trades: current.trades + 1 });
+    });
+    setImported(Array.from(summary.values()));
+    setText('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="block w-full text-sm text-gray-600"
+      />
+
+      {text && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+          <select value={format} onChange={(e) => setFormat(e.target.value as ImportFormat)} className={inputClassName}>
+            {IMPORT_FORMATS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {text && format === 'generic' && (
+        <div className="grid grid-cols-2 gap-2">
+          {MAPPING_FIELDS.map((field) => (
+            <label key={field.key} className="text-xs text-gray-600">
+              {field.label}{field.optional ? ' (optional)' : ''}
+              <select
+                value={mapping[field.key] || ''}
+                onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value || undefined })}
+                className={inputClassName}
+              >
+                <option value="">-</option>
+                {headers.map((header) => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2 text-sm">
+          <p className="text-gray-700">
+            {result.entries.length} trades ready to import
+            {result.skipped > 0 && `, ${result.skipped} non-trade rows skipped`}
+          </p>
+          {result.errors.length > 0 && (
+            <div className="bg-red-50 p-2 rounded-md max-h-32 overflow-y-auto">
+              <p className="font-medium text-red-700">{result.errors.length} rows could not be imported:</p>
+              {result.errors.map((issue, index) => (
+                <p key={index} className="text-xs text-red-600">Row {issue.row}: {issue.message}</p>
+              ))}
+            </div>
+          )}
+          {result.warnings.length > 0 && (
+            <div className="bg-yellow-50 p-2 rounded-md max-h-32 overflow-y-auto">
+              {result.warnings.map((issue, index) => (
+                <p key={index} className="text-xs text-yellow-700">Row {issue.row}: {issue.message}</p>
+              ))}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={result.entries.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-3 py-1 rounded-md disabled:opacity-50"
+          >
+            Add to Ledger
+          </button>
+        </div>
+      )}
+
+      {imported.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <p className="font-medium text-gray-700">Imported positions</p>
+          {imported.map((position) => {
+            const coin = coins.find(c => c.id === position.coinId);
+            return (
+              <div key={`${position.coinId}:${position.currency}`} className="flex items-center justify-between">
+                <span>
+                  {coin ? `${coin.name} (${coin.symbol})` : position.coinId} - {position.trades} trades in {position.currency.toUpperCase()}
+                </span>
+                {position.currency === currency ? (
+                  <button
+                    type="button"
+                    onClick={() => onSelectCoin(position.coinId)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Show
+                  </button>
+                ) : (
+                  <span className="text-xs text-gray-500">switch currency to view</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { checkAlerts, describeAlert, PriceAlert, TriggeredAlert } from '../lib/alerts';
+import { formatCurrency } from '../lib/format';
+import { fetchCoinList, fetchSpotPrices, Quote } from '../lib/market/client';
+import { describeMarketError } from '../lib/market/errors';
+import { CoinListItem } from '../lib/market/types';
+import { useCurrency } from './CurrencyProvider';
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+interface WatchlistContextValue {
+  watchlist: string[];
+  addToWatchlist: (coinId: string) => void;
+  removeFromWatchlist: (coinId: string) => void;
+  alerts: PriceAlert[];
+  addAlert: (alert: PriceAlert) => void;
+  removeAlert: (id: string) => void;
+  rearmAlert: (id: string) => void;
+  coins: Record<string, CoinListItem>;
+  quotes: Record<string, Quote>;
+  lastUpdated: Date | null;
+  error: string;
+  refresh: () => void;
+  notificationPermission: NotificationPermission | 'unsupported';
+  requestNotificationPermission: () => void;
+}
+
+interface Notice {
+  id: string;
+  message: string;
+}
+
+const WatchlistContext = createContext<WatchlistContextValue | null>(null);
+
+const browserNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Holds the watchlist and price alerts for the whole app, so alerts keep being
+// checked whichever page is open. Prices are refreshed on an interval and every
+// refresh runs the alerts against the new quotes.
+export function WatchlistProvider({ children }: { children: ReactNode }) {
+  const { currency } = useCurrency();
+  const [watchlist, setWatchlist, watchlistLoaded] = usePersistentState<string[]>('watchlist', []);
+  const [alerts, setAlerts, alertsLoaded] = usePersistentState<PriceAlert[]>('alerts', []);
+  const [coins, setCoins] = useState<Record<string, CoinListItem>>({});
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [error, setError] = useState('');
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>('unsupported');
+
+  // Read through a ref so editing alerts doesn't restart the refresh interval
+  const alertsRef = useRef(alerts);
+  alertsRef.current = alerts;
+
+  const loaded = watchlistLoaded && alertsLoaded;
+  const hasWork = watchlist.length > 0 || alerts.some(alert => alert.active);
+
+  useEffect(() => {
+    if (browserNotificationsSupported()) {
+      setNotificationPermission(Notification.permission);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasWork || Object.keys(coins).length > 0) return;
+    fetchCoinList()
+      .then(list => setCoins(Object.fromEntries(list.map(coin => [coin.id, coin]))))
+      // Names are only cosmetic: without the list, notices name coins by id
+      .catch(() => undefined);
+  }, [hasWork, coins]);
+
+  const notify = useCallback((triggered: TriggeredAlert[]) => {
+    const messages = triggered.map(({ alert, quote }) => {
+      const name = coins[alert.coinId]?.name || alert.coinId;
+      const condition = describeAlert(alert, value => formatCurrency(value, alert.currency));
+      const label = alert.label ? ` (${alert.label})` : '';
+      return `${name}${label}: ${condition} - now ${formatCurrency(quote.price, alert.currency)}`;
+    });
+
+    setNotices(current => [...current, ...messages.map((message, index) => ({ id: `${Date.now()}-${index}`, message }))]);
+
+    if (browserNotificationsSupported() && Notification.permission === 'granted') {
+      messages.forEach(message => new Notification('Price alert', { body: message }));
+    }
+  }, [coins]);
+
+  const refresh = useCallback(async () => {
+    try {
+      // Kept with their freshness for display; checkAlerts ignores stale ones
+      let latest: Quote[] = [];
+      const feed = async (ids: string[], vs: string) => {
+        latest = await fetchSpotPrices(ids, vs);
+        return latest;
+      };
+      const result = await checkAlerts(feed, watchlist, alertsRef.current, currency);
+      setQuotes(Object.fromEntries(latest.map(quote => [quote.id, quote])));
+      if (latest.every(quote => !quote.stale)) setLastUpdated(new Date());
+      setError('');
+      if (result.triggered.length > 0) {
+        // Merge by id so alerts edited while the request was in flight survive
+        const fired = new Map(result.triggered.map(({ alert }) => [alert.id, alert]));
+        setAlerts(current => current.map(alert => fired.get(alert.id) || alert));
+        notify(result.triggered);
+      }
+    } catch (error) {
+      setError(`${describeMarketError(error, 'Failed to refresh prices.')} Retrying shortly.`);
+    }
+  }, [watchlist, currency, notify, setAlerts]);
+
+  useEffect(() => {
+    if (!loaded || !hasWork) return;
+    refresh();
+    const timer = window.setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [loaded, hasWork, refresh]);
+
+  const value = useMemo<WatchlistContextValue>(() => ({
+    watchlist,
+    addToWatchlist: (coinId: string) =>
+      setWatchlist(current => (current.includes(coinId) ? current : [...current, coinId])),
+    removeFromWatchlist: (coinId: string) =>
+      setWatchlist(current => current.filter(id => id !== coinId)),
+    alerts,
+    addAlert: (alert: PriceAlert) => setAlerts(current => [...current, alert]),
+    removeAlert: (id: string) => setAlerts(current => current.filter(alert => alert.id !== id)),
+    rearmAlert: (id: string) =>
+      setAlerts(current => current.map(alert => (
+        alert.id === id ? { ...alert, active: true, triggeredAt: undefined, triggeredPrice: undefined } : alert
+      ))),
+    coins,
+    quotes,
+    lastUpdated,
+    error,
+    refresh: () => { refresh(); },
+    notificationPermission,
+    requestNotificationPermission: () => {
+      if (!browserNotificationsSupported()) return;
+      Notification.requestPermission().then(setNotificationPermission);
+    }
+  }), [watchlist, setWatchlist, alerts, setAlerts, coins, quotes, lastUpdated, error, refresh, notificationPermission]);
+
+  return (
+    <WatchlistContext.Provider value={value}>
+      {children}
+      {notices.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-50 space-y-2 max-w-sm print:hidden">
+          {notices.map((notice) => (
+            <div key={notice.id} className="bg-white border-l-4 border-yellow-500 rounded shadow-lg p-4 flex items-start gap-3">
+              <span className="text-sm text-gray-800 flex-1">🔔 {notice.message}</span>
+              <button
+                type="button"
+                onClick={() => setNotices(current => current.filter(n => n.id !== notice.id))}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </WatchlistContext.Provider>
+  );
+}
+
+export function useWatchlist() {
+  const context = useContext(WatchlistContext);
+  if (!context) {
+    throw new Error('useWatchlist must be used within a WatchlistProvider');
+  }
+  return context;
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef, useState } from 'react';
+import { loadFromStorage, saveToStorage } from '../lib/storage';
+
+// useState backed by localStorage. The stored value is read after mount so the
+// server render and the first client render agree; the third element reports
+// whether that has happened yet.
+export function usePersistentState<T>(key: string, initialValue: T) {
+  const [value, setValue] = useState<T>(initialValue);
+  const [loaded, setLoaded] = useState(false);
+  // Callers often pass a fresh literal, so only the first one is used
+  const fallback = useRef(initialValue);
+
+  useEffect(() => {
+    setValue(loadFromStorage(key, fallback.current));
+    setLoaded(true);
+  }, [key]);
+
+  useEffect(() => {
+    if (loaded) {
+      saveToStorage(key, value);
+    }
+  }, [key, value, loaded]);
+
+  return [value, setValue, loaded] as const;
+}
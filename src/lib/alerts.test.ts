@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { AlertQuote, checkAlerts, crossingAlert, PriceAlert, PriceFeed } from './alerts';
+
+const NOW = new Date('2024-03-01T12:00:00Z');
+
+const alert = (overrides: Partial<PriceAlert>): PriceAlert => ({
+  id: 'alert',
+  coinId: 'bitcoin',
+  currency: 'usd',
+  condition: 'above',
+  threshold: 100,
+  active: true,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Quotes whatever is in `prices`, so a test can move the market between checks
+const fakeFeed = (prices: Record<string, number>, stale = false): PriceFeed & { calls: string[][] } => {
+  const calls: string[][] = [];
+  const feed = async (ids: string[]): Promise<AlertQuote[]> => {
+    calls.push(ids);
+    return ids.filter(id => id in prices).map(id => ({ id, price: prices[id], stale }));
+  };
+  return Object.assign(feed, { calls });
+};
+
+describe('checkAlerts', () => {
+  it('fires an above alert when the price rises to the threshold', async () => {
+    const prices = { bitcoin: 99 };
+    const feed = fakeFeed(prices);
+    const alerts = [alert({ condition: 'above', threshold: 100 })];
+
+    expect((await checkAlerts(feed, [], alerts, 'usd', NOW)).triggered).toEqual([]);
+
+    prices.bitcoin = 100;
+    const result = await checkAlerts(feed, [], alerts, 'usd', NOW);
+    expect(result.triggered).toHaveLength(1);
+    expect(result.alerts[0]).toMatchObject({ active: false, triggeredAt: NOW.toISOString(), triggeredPrice: 100 });
+  });
+
+  it('fires a below alert when the price falls to the threshold', async () => {
+    const prices = { bitcoin: 101 };
+    const feed = fakeFeed(prices);
+    const alerts = [alert({ condition: 'below', threshold: 100 })];
+
+    expect((await checkAlerts(feed, [], alerts, 'usd', NOW)).triggered).toEqual([]);
+
+    prices.bitcoin = 95;
+    const result = await checkAlerts(feed, [], alerts, 'usd', NOW);
+    expect(result.triggered.map(({ quote }) => quote.price)).toEqual([95]);
+    expect(result.alerts[0]).toMatchObject({ active: false, triggeredPrice: 95 });
+  });
+
+  it('fires only once until the alert is re-armed', async () => {
+    const feed = fakeFeed({ bitcoin: 150 });
+    const first = await checkAlerts(feed, [], [alert({})], 'usd', NOW);
+    expect(first.triggered).toHaveLength(1);
+
+    const second = await checkAlerts(feed, [], first.alerts, 'usd', NOW);
+    expect(second.triggered).toEqual([]);
+    // Nothing left to watch, so the feed is not asked again
+    expect(feed.calls).toHaveLength(1);
+
+    const rearmed = first.alerts.map(fired => ({ ...fired, active: true, triggeredAt: undefined, triggeredPrice: undefined }));
+    const third = await checkAlerts(feed, [], rearmed, 'usd', NOW);
+    expect(third.triggered).toHaveLength(1);
+  });
+
+  it('does not fire on stale quotes', async () => {
+    const alerts = [alert({ threshold: 100 })];
+    const result = await checkAlerts(fakeFeed({ bitcoin: 150 }, true), [], alerts, 'usd', NOW);
+    expect(result.triggered).toEqual([]);
+    expect(result.alerts).toEqual(alerts);
+    expect(result.quotes).toEqual([{ id: 'bitcoin', price: 150, stale: true }]);
+  });
+
+  it('leaves alerts in another currency or without a quote untouched', async () => {
+    const alerts = [alert({ id: 'eur', currency: 'eur' }), alert({ id: 'eth', coinId: 'ethereum' })];
+    const feed = fakeFeed({ bitcoin: 150 });
+    const result = await checkAlerts(feed, ['bitcoin'], alerts, 'usd', NOW);
+    expect(feed.calls).toEqual([['bitcoin', 'ethereum']]);
+    expect(result.triggered).toEqual([]);
+    expect(result.alerts).toEqual(alerts);
+  });
+
+  it('fires a 24h change alert on a move in either direction', async () => {
+    const feed: PriceFeed = async ids => ids.map(id => ({ id, price: 100, change24h: -12 }));
+    const result = await checkAlerts(feed, [], [alert({ condition: 'change24h', threshold: 10 })], 'usd', NOW);
+    expect(result.triggered).toHaveLength(1);
+  });
+});
+
+describe('crossingAlert', () => {
+  it('watches for a rise to a target above the current price', async () => {
+    const target = crossingAlert('bitcoin', 'usd', 120, 100, 'Target price');
+    expect(target).toMatchObject({ condition: 'above', threshold: 120, label: 'Target price', active: true });
+
+    const prices = { bitcoin: 110 };
+    const feed = fakeFeed(prices);
+    expect((await checkAlerts(feed, [], [target], 'usd', NOW)).triggered).toEqual([]);
+    prices.bitcoin = 121;
+    expect((await checkAlerts(feed, [], [target], 'usd', NOW)).triggered).toHaveLength(1);
+  });
+
+  it('watches for a fall to a breakeven below the current price', async () => {
+    const breakeven = crossingAlert('bitcoin', 'usd', 90, 100, 'Breakeven');
+    expect(breakeven).toMatchObject({ condition: 'below', threshold: 90, label: 'Breakeven' });
+
+    const prices = { bitcoin: 95 };
+    const feed = fakeFeed(prices);
+    expect((await checkAlerts(feed, [], [breakeven], 'usd', NOW)).triggered).toEqual([]);
+    prices.bitcoin = 89;
+    expect((await checkAlerts(feed, [], [breakeven], 'usd', NOW)).triggered).toHaveLength(1);
+  });
+
+  it('treats a price equal to the current one as reached on the way up', () => {
+    expect(crossingAlert('bitcoin', 'usd', 100, 100, 'Target price').condition).toBe('above');
+  });
+});
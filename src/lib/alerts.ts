@@ -0,0 +1,142 @@
+import { SpotPrice } from './market/types';
+
+// Price alerts are evaluated here as plain functions of the alert list and a
+// set of quotes, so the browser polling loop and any other caller (or a fake
+// price feed) share exactly the same trigger rules.
+
+export type AlertCondition = 'above' | 'below' | 'change24h';
+
+export interface PriceAlert {
+  id: string;
+  coinId: string;
+  // Fiat currency the threshold is quoted in
+  currency: string;
+  condition: AlertCondition;
+  // A price for 'above'/'below', an absolute percentage for 'change24h'
+  threshold: number;
+  // Optional note shown with the alert, e.g. 'Target price' or 'Breakeven'
+  label?: string;
+  active: boolean;
+  createdAt: string;
+  triggeredAt?: string;
+  triggeredPrice?: number;
+}
+
+// A quote served from an offline cache is stale: it is still shown, but an
+// old price must never fire an alert
+export type AlertQuote = SpotPrice & { stale?: boolean };
+
+export interface TriggeredAlert {
+  alert: PriceAlert;
+  quote: AlertQuote;
+}
+
+export interface AlertEvaluation {
+  // The full alert list with triggered alerts deactivated
+  alerts: PriceAlert[];
+  triggered: TriggeredAlert[];
+}
+
+// Anything that can quote several coins at once: the /api/market/prices
+// client in the browser, or a fixed table of prices in a test.
+export type PriceFeed = (ids: string[], vsCurrency: string) => Promise<AlertQuote[]>;
+
+export const ALERT_CONDITIONS: { value: AlertCondition; label: string }[] = [
+  { value: 'above', label: 'Price rises to or above' },
+  { value: 'below', label: 'Price falls to or below' },
+  { value: 'change24h', label: '24h move of at least (%)' },
+];
+
+export const createAlertId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isAlertTriggered = (alert: PriceAlert, quote: SpotPrice): boolean => {
+  switch (alert.condition) {
+    case 'above':
+      return quote.price >= alert.threshold;
+    case 'below':
+      return quote.price <= alert.threshold;
+    case 'change24h':
+      return quote.change24h !== undefined && Math.abs(quote.change24h) >= alert.threshold;
+    default:
+      return false;
+  }
+};
+
+// Alerts fire once: a triggered alert is deactivated and stamped so it can be
+// re-armed by the user. Alerts in another currency than the quotes, or for
+// coins missing from the quotes or quoted stale, are left untouched.
+export const evaluateAlerts = (
+  alerts: PriceAlert[],
+  quotes: AlertQuote[],
+  vsCurrency: string,
+  now: Date = new Date()
+): AlertEvaluation => {
+  const quotesById = new Map(quotes.map(quote => [quote.id, quote]));
+  const triggered: TriggeredAlert[] = [];
+
+  const updated = alerts.map(alert => {
+    const quote = quotesById.get(alert.coinId);
+    if (!alert.active || alert.currency !== vsCurrency || !quote || quote.stale || !isAlertTriggered(alert, quote)) {
+      return alert;
+    }
+    const fired = { ...alert, active: false, triggeredAt: now.toISOString(), triggeredPrice: quote.price };
+    triggered.push({ alert: fired, quote });
+    return fired;
+  });
+
+  return { alerts: updated, triggered };
+};
+
+// Coins that need a quote: everything on the watchlist plus any coin with an
+// active alert in the current currency.
+export const coinsToQuote = (watchlist: string[], alerts: PriceAlert[], vsCurrency: string): string[] =>
+  Array.from(new Set([
+    ...watchlist,
+    ...alerts.filter(alert => alert.active && alert.currency === vsCurrency).map(alert => alert.coinId),
+  ]));
+
+export const checkAlerts = async (
+  feed: PriceFeed,
+  watchlist: string[],
+  alerts: PriceAlert[],
+  vsCurrency: string,
+  now: Date = new Date()
+): Promise<AlertEvaluation & { quotes: AlertQuote[] }> => {
+  const ids = coinsToQuote(watchlist, alerts, vsCurrency);
+  const quotes = ids.length > 0 ? await feed(ids, vsCurrency) : [];
+  return { ...evaluateAlerts(alerts, quotes, vsCurrency, now), quotes };
+};
+
+// A price alert for reaching `price` from `currentPrice`, pointing in
+// whichever direction the price has to move. Used for target and breakeven
+// alerts created from a calculated position.
+export const crossingAlert = (
+  coinId: string,
+  currency: string,
+  price: number,
+  currentPrice: number,
+  label: string
+): PriceAlert => ({
+  id: createAlertId(),
+  coinId,
+  currency,
+  condition: price >= currentPrice ? 'above' : 'below',
+  threshold: price,
+  label,
+  active: true,
+  createdAt: new Date().toISOString(),
+});
+
+export const describeAlert = (alert: PriceAlert, formatPrice: (value: number) => string): string => {
+  switch (alert.condition) {
+    case 'above':
+      return `Price ≥ ${formatPrice(alert.threshold)}`;
+    case 'below':
+      return `Price ≤ ${formatPrice(alert.threshold)}`;
+    case 'change24h':
+      return `24h move ≥ ${alert.threshold}%`;
+    default:
+      return '';
+  }
+};
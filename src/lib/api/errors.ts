@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { FieldError } from './schema';
+import { errorResponse } from '../market/http';
+
+// Errors from the /api/v1 routes. The body is always
+// { "error": "<message>", "details": [{ "field": ..., "message": ... }] }
+// with details present only for validation failures.
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number = 400, public readonly details?: FieldError[]) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const apiErrorResponse = (error: unknown) => {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      error.details ? { error: error.message, details: error.details } : { error: error.message },
+      { status: error.status }
+    );
+  }
+  // Market data failures (unknown coin, rate limits, ...) keep their status
+  return errorResponse(error);
+};
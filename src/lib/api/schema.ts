@@ -0,0 +1,144 @@
+// Small declarative validation for the public API. Each field describes one
+// JSON property or query parameter, and the same descriptions produce the
+// OpenAPI document so the docs always match what is enforced.
+
+interface BaseField {
+  description: string;
+  required?: boolean;
+}
+
+export interface NumberField extends BaseField {
+  type: 'number';
+  default?: number;
+  minimum?: number;
+  // Values must be strictly greater than this
+  above?: number;
+  maximum?: number;
+}
+
+export interface StringField extends BaseField {
+  type: 'string';
+  default?: string;
+  enum?: readonly string[];
+  pattern?: RegExp;
+  // Shown in the docs in place of the pattern; 'date' values must also be
+  // real calendar dates
+  format?: string;
+}
+
+export interface BooleanField extends BaseField {
+  type: 'boolean';
+  default?: boolean;
+}
+
+export type FieldSpec = NumberField | StringField | BooleanField;
+
+export type Schema = Record<string, FieldSpec>;
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  value: Record<string, unknown>;
+  errors: FieldError[];
+}
+
+// YYYY-MM-DD that names a day on the calendar: JavaScript rolls 2020-02-31
+// over into March, so the parsed date has to give back the same string
+export const isCalendarDate = (value: string) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+// Query parameters arrive as strings, so numbers and booleans are parsed
+// first when `fromQuery` is set
+const coerce = (spec: FieldSpec, raw: unknown, fromQuery: boolean): unknown => {
+  if (!fromQuery || typeof raw !== 'string') return raw;
+  if (spec.type === 'number') return raw.trim() === '' ? NaN : Number(raw);
+  if (spec.type === 'boolean') return raw === 'true' ? true : raw === 'false' ? false : raw;
+  return raw;
+};
+
+const checkField = (spec: FieldSpec, value: unknown): string | null => {
+  switch (spec.type) {
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value)) return 'must be a number';
+      if (spec.minimum !== undefined && value < spec.minimum) return `must be at least ${spec.minimum}`;
+      if (spec.above !== undefined && value <= spec.above) return `must be greater than ${spec.above}`;
+      if (spec.maximum !== undefined && value > spec.maximum) return `must be at most ${spec.maximum}`;
+      return null;
+    case 'string':
+      if (typeof value !== 'string') return 'must be a string';
+      if (spec.enum && !spec.enum.includes(value)) return `must be one of: ${spec.enum.join(', ')}`;
+      if (spec.pattern && !spec.pattern.test(value)) return `must match ${spec.format || spec.pattern.source}`;
+      if (spec.format === 'date' && !isCalendarDate(value)) return 'is not a valid date';
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+  }
+};
+
+export const validate = (schema: Schema, input: unknown, fromQuery = false): ValidationResult => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { value: {}, errors: [{ field: '', message: 'must be a JSON object' }] };
+  }
+  const source = input as Record<string, unknown>;
+  const value: Record<string, unknown> = {};
+  const errors: FieldError[] = Object.keys(source)
+    .filter(name => !(name in schema))
+    .map(name => ({ field: name, message: 'is not a recognised field' }));
+
+  Object.entries(schema).forEach(([name, spec]) => {
+    const raw = source[name];
+    if (raw === undefined || raw === null) {
+      if (spec.required) {
+        errors.push({ field: name, message: 'is required' });
+      } else if (spec.default !== undefined) {
+        value[name] = spec.default;
+      }
+      return;
+    }
+    const parsed = coerce(spec, raw, fromQuery);
+    const message = checkField(spec, parsed);
+    if (message) {
+      errors.push({ field: name, message });
+    } else {
+      value[name] = parsed;
+    }
+  });
+
+  return { value, errors };
+};
+
+const toPropertySchema = (spec: FieldSpec): Record<string, unknown> => {
+  const property: Record<string, unknown> = { type: spec.type, description: spec.description };
+  if (spec.default !== undefined) property.default = spec.default;
+  if (spec.type === 'number') {
+    if (spec.minimum !== undefined) property.minimum = spec.minimum;
+    if (spec.above !== undefined) property.exclusiveMinimum = spec.above;
+    if (spec.maximum !== undefined) property.maximum = spec.maximum;
+  }
+  if (spec.type === 'string') {
+    if (spec.enum) property.enum = spec.enum;
+    if (spec.pattern) property.pattern = spec.pattern.source;
+    if (spec.format) property.format = spec.format;
+  }
+  return property;
+};
+
+// OpenAPI schema object for a JSON request body
+export const toJsonSchema = (schema: Schema) => ({
+  type: 'object',
+  additionalProperties: false,
+  required: Object.keys(schema).filter(name => schema[name].required),
+  properties: Object.fromEntries(Object.entries(schema).map(([name, spec]) => [name, toPropertySchema(spec)])),
+});
+
+// OpenAPI parameter objects for a query string
+export const toQueryParameters = (schema: Schema) =>
+  Object.entries(schema).map(([name, spec]) => {
+    const { description, ...propertySchema } = toPropertySchema(spec);
+    return { name, in: 'query', required: Boolean(spec.required), description, schema: propertySchema };
+  });
@@ -0,0 +1,301 @@
+import { Schema, toJsonSchema, toQueryParameters } from './schema';
+import { ApiError } from './errors';
+import { CoinListItem, MarketDataProvider } from '../market/types';
+import { priceAt, RETURN_INTERVALS } from '../historical';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../currency';
+import { FEE_PRESETS } from '../fees';
+import { POSITION_TYPES } from '../futures';
+import { TAX_JURISDICTIONS } from '../tax';
+import { BENCHMARKS } from '../benchmarks';
+import { COMPOUNDING_FREQUENCIES, RATE_TYPES } from '../staking';
+
+// Request schemas and the OpenAPI document for the versioned public API.
+// Field names follow the calculator form so a saved form can be posted as is.
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+// 24-hour clock, 00:00 to 23:59
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CURRENCIES = SUPPORTED_CURRENCIES.map(currency => currency.code);
+
+export const PROFIT_REQUEST: Schema = {
+  cryptocurrency: { type: 'string', required: true, description: 'Coin id, as listed by /api/market/coins' },
+  currency: { type: 'string', enum: CURRENCIES, default: DEFAULT_CURRENCY, description: 'Fiat currency for every amount' },
+  quoteAsset: {
+    type: 'string',
+    default: '',
+    description: 'Coin id to price the trade in instead, e.g. "bitcoin" for an altcoin/BTC pair; amounts are then in that coin and the quote section gives currency equivalents'
+  },
+  investmentType: {
+    type: 'string',
+    enum: ['amount', 'quantity', 'risk'],
+    default: 'amount',
+    description: 'Size the position by amount invested, by quantity, or by account risk to the stop-loss'
+  },
+  initialInvestment: { type: 'number', minimum: 0, description: 'Amount invested; required for investmentType "amount"' },
+  quantity: { type: 'number', minimum: 0, description: 'Coins bought; required for investmentType "quantity"' },
+  targetPrice: { type: 'number', required: true, above: 0, description: 'Price the position is sold at' },
+  stopLossPrice: { type: 'number', minimum: 0, description: 'Stop-loss price; required for investmentType "risk"' },
+  accountSize: { type: 'number', minimum: 0, default: 10000, description: 'Account balance used for risk sizing' },
+  riskPercent: { type: 'number', above: 0, maximum: 100, default: 1, description: 'Share of the account to risk, in percent' },
+  entryMode: {
+    type: 'string',
+    enum: ['current', 'past'],
+    default: 'current',
+    description: 'Buy at the current price, or at the historical price on entryDate'
+  },
+  entryDate: { type: 'string', pattern: DATE, format: 'date', description: 'Purchase date (UTC) for entryMode "past"' },
+  entryTime: {
+    type: 'string',
+    pattern: TIME,
+    format: 'HH:MM',
+    default: '',
+    description: 'Optional purchase time in UTC for entryMode "past"; without it the entry is the start of entryDate in UTC, priced from the daily history'
+  },
+  positionType: {
+    type: 'string',
+    enum: POSITION_TYPES.map(type => type.value),
+    default: 'spot',
+    description: 'Spot holding or a leveraged long/short futures position'
+  },
+  leverage: { type: 'number', minimum: 1, maximum: 125, default: 10, description: 'Futures leverage' },
+  marginMode: { type: 'string', enum: ['isolated', 'cross'], default: 'isolated', description: 'Futures margin mode' },
+  maintenanceMarginPercent: { type: 'number', minimum: 0, default: 0.5, description: 'Maintenance margin rate, in percent' },
+  fundingRatePercent: { type: 'number', default: 0.01, description: 'Funding rate per 8 hours, in percent' },
+  holdingDays: { type: 'number', minimum: 0, default: 7, description: 'Days the futures position is held, for funding' },
+  crossBalance: { type: 'number', minimum: 0, default: 0, description: 'Extra account balance backing a cross-margin position' },
+  feePreset: {
+    type: 'string',
+    enum: FEE_PRESETS.map(preset => preset.id),
+    description: 'Exchange whose taker rate fills buyFeePercent and sellFeePercent unless they are given'
+  },
+  buyFeePercent: { type: 'number', minimum: 0, default: 0, description: 'Buy fee, in percent' },
+  buyFeeFlat: { type: 'number', minimum: 0, default: 0, description: 'Flat buy fee' },
+  sellFeePercent: { type: 'number', minimum: 0, default: 0, description: 'Sell fee, in percent' },
+  sellFeeFlat: { type: 'number', minimum: 0, default: 0, description: 'Flat sell fee' },
+  slippagePercent: { type: 'number', minimum: 0, default: 0, description: 'Slippage on each side, in percent' },
+  withdrawalFee: { type: 'number', minimum: 0, default: 0, description: 'Network withdrawal fee, in coin units' },
+  taxJurisdiction: {
+    type: 'string',
+    enum: TAX_JURISDICTIONS.map(jurisdiction => jurisdiction.id),
+    description: 'Jurisdiction for a capital-gains tax estimate; omit for none. Gains and otherIncome are converted from currency into the currency of the jurisdiction at the current exchange rate, and the estimate is returned in currency'
+  },
+  purchaseDate: { type: 'string', pattern: DATE, format: 'date', description: 'Acquisition date for the tax estimate; defaults to today' },
+  saleDate: { type: 'string', pattern: DATE, format: 'date', description: 'Sale date for the tax estimate; defaults to today' },
+  otherIncome: { type: 'number', minimum: 0, default: 0, description: 'Other taxable income in currency, for progressive brackets' },
+  stakingEnabled: { type: 'boolean', default: false, description: 'Project staking or lending rewards on a spot holding' },
+  stakingRateType: {
+    type: 'string',
+    enum: RATE_TYPES.map(type => type.value),
+    default: 'apy',
+    description: 'Whether stakingRatePercent is an APY (compounding included) or a simple APR'
+  },
+  stakingRatePercent: { type: 'number', minimum: 0, default: 5, description: 'Yearly reward rate, in percent' },
+  stakingCompounding: {
+    type: 'string',
+    enum: COMPOUNDING_FREQUENCIES.map(frequency => frequency.value),
+    default: 'daily',
+    description: 'How often rewards are restaked; "none" leaves them unstaked'
+  },
+  stakingCommissionPercent: { type: 'number', minimum: 0, maximum: 100, default: 0, description: 'Validator or platform cut of each reward, in percent' },
+  stakingLockupDays: { type: 'number', minimum: 0, default: 0, description: 'Days before the staked coins can be sold' },
+  stakingHorizonDays: { type: 'number', minimum: 0, default: 365, description: 'Days the coins are staked before the sale' },
+};
+
+export const HISTORICAL_RETURNS_QUERY: Schema = {
+  coin: { type: 'string', required: true, description: 'Coin id, as listed by /api/market/coins' },
+  amount: { type: 'number', above: 0, default: 1000, description: 'Amount invested on each purchase date' },
+  interval: {
+    type: 'string',
+    enum: RETURN_INTERVALS.map(interval => interval.value),
+    default: 'yearly',
+    description: 'Spacing of the purchase dates'
+  },
+  from: { type: 'string', pattern: DATE, format: 'date', default: '2010-01-01', description: 'First purchase date' },
+  to: { type: 'string', pattern: DATE, format: 'date', description: 'Last purchase date; defaults to today' },
+  vs: { type: 'string', enum: CURRENCIES, default: DEFAULT_CURRENCY, description: 'Fiat currency' },
+  benchmarks: {
+    type: 'string',
+    default: '',
+    description: `Comma-separated benchmarks to compare against, measured in US dollars: ${BENCHMARKS.map(benchmark => benchmark.id).join(', ')}`
+  },
+};
+
+export const findCoin = async (provider: MarketDataProvider, id: string): Promise<CoinListItem> => {
+  const coin = (await provider.getCoinList()).find(item => item.id === id);
+  if (!coin) {
+    throw new ApiError(`Unknown coin: ${id}`, 404);
+  }
+  return coin;
+};
+
+// Interpolated from the day's points when a time is given, as the calculator
+// does; otherwise the daily price
+export const priceAtMoment = async (
+  provider: MarketDataProvider,
+  id: string,
+  at: Date,
+  withTime: boolean,
+  vs: string
+): Promise<number | null> => {
+  if (withTime) {
+    const day = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+    const points = await provider.getPriceRange(id, day, day, vs);
+    if (points.length > 0 && at.getTime() >= points[0].timestamp) {
+      return priceAt(points, at.getTime());
+    }
+  }
+  return provider.getPriceAtDate(id, at, vs);
+};
+
+const errorResponseSpec = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+const number = { type: 'number' };
+const nullableNumber = { type: ['number', 'null'] };
+
+const PERFORMANCE_STATS = {
+  type: 'object',
+  properties: {
+    multiplier: nullableNumber,
+    cagr: { ...nullableNumber, description: 'Annualized return, in percent' },
+    maxDrawdown: { ...nullableNumber, description: 'Largest fall from a previous high, in percent' },
+    volatility: { ...nullableNumber, description: 'Annualized volatility of monthly returns, in percent' },
+  },
+};
+
+export const openApiDocument = () => ({
+  openapi: '3.1.0',
+  info: {
+    title: 'Crypto Profit Calculator API',
+    version: '1.0.0',
+    description: 'The calculations behind the calculator and time machine pages. Prices come from the configured market data provider.',
+  },
+  paths: {
+    '/api/v1/profit': {
+      post: {
+        summary: 'Calculate profit, fees, breakeven and optional tax for a position',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ProfitRequest' } } },
+        },
+        responses: {
+          200: {
+            description: 'The calculation, as shown by the calculator',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ProfitCalculation' } } },
+          },
+          400: errorResponseSpec('The body is not valid JSON or fails validation; details lists each field'),
+          404: errorResponseSpec('Unknown coin'),
+          422: errorResponseSpec('Valid input that cannot be calculated, e.g. no price on the entry date'),
+          429: errorResponseSpec('The market data provider is rate limiting; see Retry-After'),
+          502: errorResponseSpec('The market data provider failed'),
+        },
+      },
+    },
+    '/api/v1/historical-returns': {
+      get: {
+        summary: 'Value today of an investment made on each past date',
+        parameters: toQueryParameters(HISTORICAL_RETURNS_QUERY),
+        responses: {
+          200: {
+            description: 'One row per purchase date, most recent first',
+            content: {
+              'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/HistoricalReturn' } } },
+            },
+          },
+          400: errorResponseSpec('Invalid query parameters; details lists each one'),
+          404: errorResponseSpec('Unknown coin'),
+          429: errorResponseSpec('The market data provider is rate limiting; see Retry-After'),
+          502: errorResponseSpec('The market data provider failed'),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: { type: 'string' },
+          details: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { field: { type: 'string' }, message: { type: 'string' } },
+            },
+          },
+        },
+      },
+      ProfitRequest: toJsonSchema(PROFIT_REQUEST),
+      ProfitCalculation: {
+        type: 'object',
+        description: 'Optional sections appear only when they apply: risk with a stop-loss, tax with a jurisdiction (left out when no exchange rate into its currency is available), pastEntry for a past entry, futures for long/short positions, staking for staked spot holdings and quote for a quoteAsset.',
+        properties: {
+          crypto: {
+            type: 'object',
+            properties: { id: { type: 'string' }, name: { type: 'string' }, symbol: { type: 'string' } },
+          },
+          initialInvestment: number,
+          quantity: number,
+          buyPrice: number,
+          targetPrice: number,
+          potentialValue: number,
+          profitAmount: number,
+          profitPercentage: number,
+          breakevenPrice: { ...nullableNumber, description: 'Null when a futures position cannot break even' },
+          grossProfit: number,
+          netProfit: number,
+          totalCost: number,
+          totalFees: number,
+          costs: { type: 'object' },
+          entryCostsIncluded: { type: 'boolean' },
+          tax: { type: 'object' },
+          risk: { type: 'object' },
+          pastEntry: { type: 'object' },
+          futures: { type: 'object' },
+          staking: { type: 'object', description: 'Present when stakingEnabled is set on a spot position' },
+          quote: { type: 'object', description: 'The quote coin\'s price in currency and the result converted to currency' },
+        },
+      },
+      HistoricalReturn: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date' },
+          label: { type: 'string' },
+          price: { ...nullableNumber, description: 'Null when the coin was not listed yet' },
+          currentValue: nullableNumber,
+          multiplier: nullableNumber,
+          realReturn: {
+            type: ['object', 'null'],
+            properties: { adjustedInvestment: number, realReturnPercent: nullableNumber, realMultiplier: nullableNumber },
+          },
+          whatYouCanBuy: { type: 'array', items: { type: 'object' } },
+          performance: PERFORMANCE_STATS,
+          comparisons: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                currency: {
+                  type: 'string',
+                  description: 'Currency the return is measured in; benchmarks are always "usd" and leave out exchange-rate moves against vs'
+                },
+                currentValue: { ...nullableNumber, description: 'The amount grown at the asset\'s return; null without data for the period' },
+                dataEnd: {
+                  type: 'string',
+                  format: 'date',
+                  description: 'Last day of the bundled benchmark data, when it ends before today: later purchase dates have null stats, earlier ones are valued at the last reading'
+                },
+                stats: PERFORMANCE_STATS,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+});
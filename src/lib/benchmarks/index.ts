@@ -0,0 +1,73 @@
+import seriesData from './series.json';
+import { PricePoint } from '../market/types';
+import { priceAt } from '../historical';
+import { toDecimal } from '../calculation';
+
+// Traditional assets to measure a coin against, all in US dollars. Price
+// series are approximate month-end closes; T-bills and cash are built by
+// compounding the average annual yield monthly. Values are held flat after
+// the last reading so longer holdings can still be valued; purchases after it
+// get no comparison. A new month or year only needs an entry in series.json.
+
+export type BenchmarkId = 'sp500' | 'gold' | 'tbills' | 'cash';
+
+export interface Benchmark {
+  id: BenchmarkId;
+  name: string;
+  description: string;
+}
+
+export const BENCHMARKS: Benchmark[] = [
+  { id: 'sp500', name: 'S&P 500', description: 'Price index, excluding dividends' },
+  { id: 'gold', name: 'Gold', description: 'USD per troy ounce' },
+  { id: 'tbills', name: 'US T-Bills', description: '3-month Treasury bills, rolled over' },
+  { id: 'cash', name: 'Cash Savings', description: 'US national average savings rate' },
+];
+
+const data = seriesData as {
+  levels: Record<string, Record<string, number>>;
+  rates: Record<string, Record<string, number>>;
+};
+
+// Last day of a "YYYY-MM" month
+const monthEnd = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return Date.UTC(year, monthNumber, 0);
+};
+
+const levelSeries = (levels: Record<string, number>): PricePoint[] =>
+  Object.entries(levels)
+    .map(([month, price]) => ({ timestamp: monthEnd(month), price }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Index starting at 100 on the last day before the first year, growing by
+// one twelfth of that year's yield (in percent) each month
+const rateSeries = (rates: Record<string, number>): PricePoint[] => {
+  const years = Object.keys(rates).map(Number).sort((a, b) => a - b);
+  let level = toDecimal(100);
+  const points: PricePoint[] = [{ timestamp: Date.UTC(years[0], 0, 0), price: level.toNumber() }];
+  years.forEach(year => {
+    const monthlyGrowth = toDecimal(rates[year]).div(1200).plus(1);
+    for (let month = 1; month <= 12; month++) {
+      level = level.mul(monthlyGrowth);
+      points.push({ timestamp: Date.UTC(year, month, 0), price: level.toNumber() });
+    }
+  });
+  return points;
+};
+
+const SERIES: Record<BenchmarkId, PricePoint[]> = {
+  sp500: levelSeries(data.levels.sp500),
+  gold: levelSeries(data.levels.gold),
+  tbills: rateSeries(data.rates.tbills),
+  cash: rateSeries(data.rates.cash),
+};
+
+export const getBenchmark = (id: string) => BENCHMARKS.find(benchmark => benchmark.id === id);
+
+// Null before the series starts
+export const benchmarkValueAt = (id: BenchmarkId, timestamp: number): number | null =>
+  priceAt(SERIES[id], timestamp);
+
+// Timestamp of the latest reading
+export const benchmarkDataEnd = (id: BenchmarkId): number => SERIES[id][SERIES[id].length - 1].timestamp;
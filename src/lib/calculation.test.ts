@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  amountForQuantity,
+  annualizedReturn,
+  breakevenPrice,
+  divide,
+  historicalMultiplier,
+  profitAndLoss,
+  quantityForAmount,
+  toDecimal,
+  unitCost,
+  valueToday,
+} from './calculation';
+
+describe('toDecimal', () => {
+  it('reads numbers and numeric strings', () => {
+    expect(toDecimal(1.5).toString()).toBe('1.5');
+    expect(toDecimal('0.00000123').toString()).toBe('0.00000123');
+  });
+
+  it('treats empty and unparsable input as zero', () => {
+    expect(toDecimal('').isZero()).toBe(true);
+    expect(toDecimal(null).isZero()).toBe(true);
+    expect(toDecimal(undefined).isZero()).toBe(true);
+    expect(toDecimal('abc').isZero()).toBe(true);
+    expect(toDecimal(NaN).isZero()).toBe(true);
+    expect(toDecimal(Infinity).isZero()).toBe(true);
+  });
+
+  it('keeps decimal fractions exact', () => {
+    expect(toDecimal(0.1).plus(toDecimal(0.2)).toNumber()).toBe(0.3);
+  });
+});
+
+describe('divide', () => {
+  it('divides', () => {
+    expect(divide(10, 4)?.toNumber()).toBe(2.5);
+  });
+
+  it('returns null for division by zero', () => {
+    expect(divide(10, 0)).toBeNull();
+    expect(divide(0, 0)).toBeNull();
+    expect(divide(10, '')).toBeNull();
+  });
+});
+
+describe('quantityForAmount', () => {
+  it('rounds down to eight decimals so the quantity never costs more than the amount', () => {
+    expect(quantityForAmount(100, 3)).toBe(33.33333333);
+  });
+
+  it('handles micro-cap prices without losing digits', () => {
+    expect(quantityForAmount(1000, 0.00000123)).toBe(813008130.08130081);
+  });
+
+  it('returns null for a zero or negative price', () => {
+    expect(quantityForAmount(100, 0)).toBeNull();
+    expect(quantityForAmount(100, -1)).toBeNull();
+  });
+
+  it('returns zero for a zero amount', () => {
+    expect(quantityForAmount(0, 100)).toBe(0);
+  });
+});
+
+describe('amountForQuantity', () => {
+  it('rounds amounts of at least one unit to cents', () => {
+    expect(amountForQuantity(0.123, 45678.91)).toBe(5618.51);
+  });
+
+  it('keeps six significant digits for small amounts', () => {
+    expect(amountForQuantity(3, 0.00000123)).toBe(0.00000369);
+  });
+
+  it('keeps eight decimals for amounts paid in a coin', () => {
+    expect(amountForQuantity(2, 0.0123456789, true)).toBe(0.02469136);
+  });
+
+  it('is zero for a zero quantity', () => {
+    expect(amountForQuantity(0, 100)).toBe(0);
+  });
+});
+
+describe('unitCost', () => {
+  it('divides the total cost by the quantity', () => {
+    expect(unitCost(1001, 10)).toBe(100.1);
+  });
+
+  it('returns null for an empty position', () => {
+    expect(unitCost(100, 0)).toBeNull();
+  });
+});
+
+describe('profitAndLoss', () => {
+  it('returns the amount and percentage', () => {
+    expect(profitAndLoss(100, 150)).toEqual({ amount: 50, percentage: 50 });
+  });
+
+  it('has no percentage when nothing was paid', () => {
+    expect(profitAndLoss(0, 50)).toEqual({ amount: 50, percentage: null });
+  });
+});
+
+describe('historicalMultiplier and valueToday', () => {
+  it('scales the amount by the price change', () => {
+    expect(historicalMultiplier(100, 250)).toBe(2.5);
+    expect(valueToday(1000, 100, 250)).toBe(2500);
+  });
+
+  it('returns null for a zero past price', () => {
+    expect(historicalMultiplier(0, 250)).toBeNull();
+    expect(valueToday(1000, 0, 250)).toBeNull();
+  });
+});
+
+describe('annualizedReturn', () => {
+  it('compounds over a year of 365.25 days', () => {
+    expect(annualizedReturn(100, 121, 730.5)).toBeCloseTo(10, 10);
+  });
+
+  it('returns null for holdings shorter than a day', () => {
+    expect(annualizedReturn(100, 200, 0)).toBeNull();
+    expect(annualizedReturn(100, 200, 0.5)).toBeNull();
+  });
+
+  it('returns null for a zero start value', () => {
+    expect(annualizedReturn(0, 200, 365)).toBeNull();
+  });
+
+  it('is -100% for a total loss', () => {
+    expect(annualizedReturn(100, 0, 365.25)).toBe(-100);
+  });
+});
+
+describe('breakevenPrice', () => {
+  it('is the unit cost without sell-side costs', () => {
+    expect(breakevenPrice(1000, 10)).toBe(100);
+  });
+
+  it('covers the sell fee rate, slippage and flat fee', () => {
+    // 10 coins kept at 99% after slippage and 99% after the fee
+    expect(breakevenPrice(1000, 10, 1, 1, 2)).toBeCloseTo(1002 / (10 * 0.99 * 0.99), 10);
+  });
+
+  it('returns null for a zero quantity', () => {
+    expect(breakevenPrice(1000, 0)).toBeNull();
+  });
+
+  it('returns null when fees take everything', () => {
+    expect(breakevenPrice(1000, 10, 100)).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import Decimal from 'decimal.js';
+
+// Core position maths on arbitrary-precision decimals. Coins priced at
+// 0.00000123 bought by the hundred million lose digits in binary floats, so
+// every intermediate value here is a Decimal and only results are converted
+// back to numbers for display. Functions return null rather than Infinity or
+// NaN when a result is undefined, e.g. a unit price for a zero quantity.
+
+export type Numeric = Decimal.Value;
+
+// Quantities are shown with up to 8 decimals, the precision most exchanges use
+export const QUANTITY_DECIMALS = 8;
+
+const Precise = Decimal.clone({ precision: 40, rounding: Decimal.ROUND_HALF_UP });
+
+// Empty form fields and unparsable input count as zero
+export const toDecimal = (value: Numeric | null | undefined): Decimal => {
+  if (value === null || value === undefined || value === '') return new Precise(0);
+  try {
+    const result = new Precise(value);
+    return result.isFinite() ? result : new Precise(0);
+  } catch (error) {
+    return new Precise(0);
+  }
+};
+
+export const divide = (dividend: Numeric, divisor: Numeric): Decimal | null => {
+  const denominator = toDecimal(divisor);
+  return denominator.isZero() ? null : toDecimal(dividend).div(denominator);
+};
+
+const positionValueDecimal = (quantity: Numeric, price: Numeric) => toDecimal(quantity).mul(toDecimal(price));
+
+const toNumberOrNull = (value: Decimal | null) => (value === null ? null : value.toNumber());
+
+// Coins bought with `amount` at `price`, rounded down to QUANTITY_DECIMALS so
+// the quantity never costs more than the amount
+export const quantityForAmount = (amount: Numeric, price: Numeric): number | null => {
+  if (toDecimal(price).lte(0)) return null;
+  return toNumberOrNull(
+    divide(amount, price)?.toDecimalPlaces(QUANTITY_DECIMALS, Decimal.ROUND_DOWN) ?? null
+  );
+};
+
+// Cost of `quantity` coins at `price`. Amounts of at least one unit are
+// rounded to cents; smaller ones keep six significant digits so a handful of
+// micro-cap coins doesn't round to zero. Amounts paid in another coin
+// (`inCoin`) keep QUANTITY_DECIMALS instead, since a cent of BTC is a lot.
+export const amountForQuantity = (quantity: Numeric, price: Numeric, inCoin = false): number => {
+  const amount = positionValueDecimal(quantity, price);
+  if (inCoin) return amount.toDecimalPlaces(QUANTITY_DECIMALS).toNumber();
+  return amount.abs().gte(1)
+    ? amount.toDecimalPlaces(2).toNumber()
+    : amount.toSignificantDigits(6).toNumber();
+};
+
+export const positionValue = (quantity: Numeric, price: Numeric): number =>
+  positionValueDecimal(quantity, price).toNumber();
+
+// Average price paid per coin; null for an empty position
+export const unitCost = (totalCost: Numeric, quantity: Numeric): number | null =>
+  toNumberOrNull(divide(totalCost, quantity));
+
+export interface ProfitAndLoss {
+  amount: number;
+  // Null when nothing was paid, so there is no base to compare against
+  percentage: number | null;
+}
+
+export const profitAndLoss = (cost: Numeric, value: Numeric): ProfitAndLoss => {
+  const amount = toDecimal(value).minus(toDecimal(cost));
+  return {
+    amount: amount.toNumber(),
+    percentage: toNumberOrNull(divide(amount, cost)?.mul(100) ?? null),
+  };
+};
+
+// How many times the money was multiplied between two prices
+export const historicalMultiplier = (pastPrice: Numeric, currentPrice: Numeric): number | null =>
+  toNumberOrNull(divide(currentPrice, pastPrice));
+
+// Today's value of `amount` invested at `pastPrice`
+export const valueToday = (amount: Numeric, pastPrice: Numeric, currentPrice: Numeric): number | null => {
+  const multiplier = divide(currentPrice, pastPrice);
+  return multiplier === null ? null : toDecimal(amount).mul(multiplier).toNumber();
+};
+
+// Compound annual growth rate, in percent, for growing `startValue` into
+// `endValue` over `days`. Null for holdings shorter than a day, where
+// annualizing says more about noise than about returns.
+export const annualizedReturn = (startValue: Numeric, endValue: Numeric, days: number): number | null => {
+  const growth = divide(endValue, startValue);
+  if (growth === null || growth.lt(0) || !(days >= 1)) return null;
+  return growth.pow(new Precise(365.25).div(days)).minus(1).mul(100).toNumber();
+};
+
+// Price at which selling `quantity` coins returns `totalCost` after the sell
+// fee rate and slippage (both in percent) and a flat sell fee
+export const breakevenPrice = (
+  totalCost: Numeric,
+  quantity: Numeric,
+  sellFeePercent: Numeric = 0,
+  slippagePercent: Numeric = 0,
+  sellFeeFlat: Numeric = 0
+): number | null => {
+  const keptPerUnit = toDecimal(quantity)
+    .mul(new Precise(1).minus(toDecimal(slippagePercent).div(100)))
+    .mul(new Precise(1).minus(toDecimal(sellFeePercent).div(100)));
+  if (keptPerUnit.lte(0)) return null;
+  return toDecimal(totalCost).plus(toDecimal(sellFeeFlat)).div(keptPerUnit).toNumber();
+};
@@ -0,0 +1,76 @@
+// Scales and path helpers for the hand-drawn SVG charts. Kept free of React so
+// the maths can be reused by any chart component.
+
+export type ChartRange = '1d' | '7d' | '1m' | '1y' | 'all';
+
+export const CHART_RANGES: { value: ChartRange; label: string; days: number | null }[] = [
+  { value: '1d', label: '1D', days: 1 },
+  { value: '7d', label: '7D', days: 7 },
+  { value: '1m', label: '1M', days: 30 },
+  { value: '1y', label: '1Y', days: 365 },
+  { value: 'all', label: 'ALL', days: null },
+];
+
+// Earliest date any coin has price history for
+const HISTORY_START = new Date(Date.UTC(2010, 6, 17));
+
+export const chartRangeStart = (range: ChartRange, now: Date = new Date()): Date => {
+  const days = CHART_RANGES.find(r => r.value === range)?.days;
+  if (!days) return HISTORY_START;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+};
+
+export interface Scale {
+  (value: number): number;
+  invert: (position: number) => number;
+}
+
+export const linearScale = ([d0, d1]: [number, number], [r0, r1]: [number, number]): Scale => {
+  const span = d1 - d0 || 1;
+  const scale = ((value: number) => r0 + ((value - d0) / span) * (r1 - r0)) as Scale;
+  scale.invert = (position: number) => d0 + ((position - r0) / (r1 - r0)) * span;
+  return scale;
+};
+
+// Domain values must be positive
+export const logScale = ([d0, d1]: [number, number], range: [number, number]): Scale => {
+  const linear = linearScale([Math.log10(d0), Math.log10(d1)], range);
+  const scale = ((value: number) => linear(Math.log10(value))) as Scale;
+  scale.invert = (position: number) => Math.pow(10, linear.invert(position));
+  return scale;
+};
+
+// Roughly `count` evenly spaced round numbers covering the domain
+export const linearTicks = ([d0, d1]: [number, number], count = 5): number[] => {
+  const span = d1 - d0;
+  if (!(span > 0)) return [d0];
+  const rawStep = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rawStep) ?? 10 * magnitude;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(d0 / step) * step; tick <= d1; tick += step) {
+    ticks.push(tick);
+  }
+  return ticks;
+};
+
+// Powers of ten within the domain, or the domain ends when it spans less than one
+export const logTicks = ([d0, d1]: [number, number]): number[] => {
+  const ticks: number[] = [];
+  for (let exponent = Math.ceil(Math.log10(d0)); exponent <= Math.floor(Math.log10(d1)); exponent++) {
+    ticks.push(Math.pow(10, exponent));
+  }
+  return ticks.length > 1 ? ticks : [d0, d1];
+};
+
+// Min and max of the values, padded by a fraction of the span so lines don't
+// sit on the chart edge
+export const paddedExtent = (values: number[], padding = 0.05): [number, number] => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const pad = (max - min) * padding || Math.abs(max) * padding || 1;
+  return [min - pad, max + pad];
+};
+
+export const linePath = (points: { x: number; y: number }[]): string =>
+  points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
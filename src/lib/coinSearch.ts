@@ -0,0 +1,93 @@
+import { CoinListItem } from './market/types';
+
+// Ranking for the coin search box. Matches are grouped into tiers - exact
+// symbol, then exact name or id, then prefix, substring and finally letters in
+// order (so "btc" still finds "Bitcoin Cash") - and ordered by market-cap rank
+// within each tier, unranked coins last.
+
+export interface ContractChain {
+  // CoinGecko asset platform id
+  id: string;
+  name: string;
+  // EVM addresses are hex and case-insensitive
+  evm: boolean;
+}
+
+export const CONTRACT_CHAINS: ContractChain[] = [
+  { id: 'ethereum', name: 'Ethereum', evm: true },
+  { id: 'binance-smart-chain', name: 'BNB Smart Chain', evm: true },
+  { id: 'polygon-pos', name: 'Polygon', evm: true },
+  { id: 'arbitrum-one', name: 'Arbitrum One', evm: true },
+  { id: 'optimistic-ethereum', name: 'Optimism', evm: true },
+  { id: 'base', name: 'Base', evm: true },
+  { id: 'avalanche', name: 'Avalanche C-Chain', evm: true },
+  { id: 'solana', name: 'Solana', evm: false },
+];
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const BASE58_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export const isContractChain = (id: string) => CONTRACT_CHAINS.some(chain => chain.id === id);
+
+// The chains an address could belong to, judging by its format
+export const chainsForAddress = (query: string): ContractChain[] => {
+  const address = query.trim();
+  if (EVM_ADDRESS.test(address)) return CONTRACT_CHAINS.filter(chain => chain.evm);
+  if (BASE58_ADDRESS.test(address)) return CONTRACT_CHAINS.filter(chain => !chain.evm);
+  return [];
+};
+
+enum MatchTier {
+  Symbol,
+  Exact,
+  Prefix,
+  Substring,
+  Subsequence,
+}
+
+const isSubsequence = (query: string, text: string) => {
+  let position = 0;
+  for (const char of text) {
+    if (char === query[position]) position++;
+    if (position === query.length) return true;
+  }
+  return false;
+};
+
+const matchTier = (coin: CoinListItem, query: string): MatchTier | null => {
+  const symbol = coin.symbol.toLowerCase();
+  const name = coin.name.toLowerCase();
+  if (symbol === query) return MatchTier.Symbol;
+  if (name === query || coin.id === query) return MatchTier.Exact;
+  // A prefix of any word counts, so "cash" finds "Bitcoin Cash"
+  if (symbol.startsWith(query) || name.split(/[\s-]+/).some(word => word.startsWith(query)) || name.startsWith(query)) {
+    return MatchTier.Prefix;
+  }
+  if (symbol.includes(query) || name.includes(query) || coin.id.includes(query)) return MatchTier.Substring;
+  // Letters in order are only worth showing for queries of a few characters
+  if (query.length >= 3 && isSubsequence(query.replace(/\s+/g, ''), name.replace(/\s+/g, ''))) return MatchTier.Subsequence;
+  return null;
+};
+
+const byRank = (a: CoinListItem, b: CoinListItem) =>
+  (a.market_cap_rank ?? Infinity) - (b.market_cap_rank ?? Infinity) || a.name.length - b.name.length;
+
+// Every match for `query`, best first. An empty query lists all coins by rank.
+export const searchCoins = (coins: CoinListItem[], query: string): CoinListItem[] => {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return [...coins].sort(byRank);
+
+  return coins
+    .map(coin => ({ coin, tier: matchTier(coin, normalized) }))
+    .filter((match): match is { coin: CoinListItem; tier: MatchTier } => match.tier !== null)
+    .sort((a, b) => a.tier - b.tier || byRank(a.coin, b.coin))
+    .map(match => match.coin);
+};
+
+// Most recent first, without duplicates
+export const addRecentCoin = (recent: string[], id: string, max = 8) =>
+  [id, ...recent.filter(item => item !== id)].slice(0, max);
+
+// Coins found by contract address may be missing from a list loaded earlier
+export const includeCoin = (coins: CoinListItem[], coin: CoinListItem) =>
+  coins.some(item => item.id === coin.id) ? coins : [...coins, coin];
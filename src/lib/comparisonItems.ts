@@ -0,0 +1,38 @@
+// Things a return can be measured against in the time machine ("what you could
+// buy today"). Users edit the catalog; it is stored in the browser.
+
+export interface ComparisonItem {
+  id: string;
+  name: string;
+  emoji: string;
+  // In USD, converted to the selected currency when displayed
+  price: number;
+}
+
+export interface AffordableItem {
+  item: ComparisonItem;
+  count: number;
+}
+
+export const DEFAULT_COMPARISON_ITEMS: ComparisonItem[] = [
+  { id: 'lamborghini', name: 'Lamborghini Aventador', price: 500000, emoji: '🚗' },
+  { id: 'yacht', name: 'Luxury Yacht', price: 1000000, emoji: '⛵' },
+  { id: 'island', name: 'Private Island', price: 5000000, emoji: '🏝️' },
+  { id: 'jet', name: 'Private Jet', price: 20000000, emoji: '✈️' },
+  { id: 'mansion', name: 'Mansion in Beverly Hills', price: 30000000, emoji: '🏰' },
+  { id: 'super-yacht', name: 'Super Yacht', price: 50000000, emoji: '🛥️' },
+];
+
+export const createComparisonItemId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Whole units of each item that `value` pays for, most expensive first.
+// `usdRate` converts the USD item prices into the currency of `value`.
+export const affordableItems = (value: number, items: ComparisonItem[], usdRate: number): AffordableItem[] =>
+  items
+    .filter(item => item.price > 0)
+    .map(item => ({ item, count: Math.floor(value / (item.price * usdRate)) }))
+    .filter(({ count }) => count >= 1)
+    .sort((a, b) => b.item.price - a.item.price);
+
+export const describeAffordable = ({ item, count }: AffordableItem) => `${count.toLocaleString()} × ${item.emoji} ${item.name}`;
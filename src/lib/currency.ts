@@ -0,0 +1,25 @@
+export interface FiatCurrency {
+  code: string;
+  name: string;
+  locale: string;
+}
+
+// Codes are lower case to match the vs_currency values used by market data providers
+export const SUPPORTED_CURRENCIES: FiatCurrency[] = [
+  { code: 'usd', name: 'US Dollar', locale: 'en-US' },
+  { code: 'eur', name: 'Euro', locale: 'de-DE' },
+  { code: 'gbp', name: 'British Pound', locale: 'en-GB' },
+  { code: 'inr', name: 'Indian Rupee', locale: 'en-IN' },
+  { code: 'jpy', name: 'Japanese Yen', locale: 'ja-JP' },
+  { code: 'aud', name: 'Australian Dollar', locale: 'en-AU' },
+  { code: 'cad', name: 'Canadian Dollar', locale: 'en-CA' },
+  { code: 'chf', name: 'Swiss Franc', locale: 'de-CH' },
+];
+
+export const DEFAULT_CURRENCY = 'usd';
+
+export const isSupportedCurrency = (code: string) =>
+  SUPPORTED_CURRENCIES.some(currency => currency.code === code);
+
+export const getCurrency = (code: string): FiatCurrency =>
+  SUPPORTED_CURRENCIES.find(currency => currency.code === code) || SUPPORTED_CURRENCIES[0];
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { simulateDca, simulateLumpSum } from './dca';
+
+const prices = [
+  { timestamp: Date.UTC(2024, 0, 1), price: 10 },
+  { timestamp: Date.UTC(2024, 1, 1), price: 20 },
+];
+const dates = prices.map(point => new Date(point.timestamp));
+
+describe('simulateDca', () => {
+  it('takes the fee out of each purchase', () => {
+    const result = simulateDca(prices, 30, 100, dates, { feePercent: 1, feeFlat: 0.1 });
+    expect(result.purchases.map(purchase => purchase.quantity)).toEqual([9.89, 4.945]);
+    expect(result.totalFees).toBe(2.2);
+    expect(result.quantity).toBe(14.835);
+    expect(result.currentValue).toBe(445.05);
+    expect(result.roi).toBe(122.525);
+  });
+
+  it('skips dates before the coin had a price', () => {
+    const result = simulateDca(prices, 30, 100, [new Date(Date.UTC(2023, 0, 1)), ...dates], { feePercent: 0, feeFlat: 0 });
+    expect(result.skippedPeriods).toBe(1);
+    expect(result.purchases).toHaveLength(2);
+  });
+
+  it('never charges more than the amount', () => {
+    const result = simulateDca(prices, 30, 1, dates, { feePercent: 0, feeFlat: 5 });
+    expect(result.quantity).toBe(0);
+    expect(result.averageCost).toBe(0);
+  });
+});
+
+describe('simulateLumpSum', () => {
+  it('buys once on the first priced date', () => {
+    const result = simulateLumpSum(prices, 30, 200, dates, { feePercent: 0, feeFlat: 0 });
+    expect(result.purchases).toHaveLength(1);
+    expect(result.quantity).toBe(20);
+    expect(result.profit).toBe(400);
+  });
+
+  it('is empty for a zero amount', () => {
+    expect(simulateLumpSum(prices, 30, 0, dates, { feePercent: 0, feeFlat: 0 }).purchases).toEqual([]);
+  });
+});
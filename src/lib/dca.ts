@@ -0,0 +1,129 @@
+import { divide, profitAndLoss, toDecimal } from './calculation';
+import { periodDates, priceAt } from './historical';
+import { PricePoint } from './market/types';
+
+export type DcaFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+export const DCA_FREQUENCIES: { value: DcaFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+export interface PurchaseFees {
+  feePercent: number;
+  feeFlat: number;
+}
+
+export interface SimulatedPurchase {
+  date: string;
+  price: number;
+  amount: number;
+  fee: number;
+  quantity: number;
+}
+
+export interface SimulationResult {
+  purchases: SimulatedPurchase[];
+  // Scheduled dates skipped because the coin had no price yet
+  skippedPeriods: number;
+  totalInvested: number;
+  totalFees: number;
+  quantity: number;
+  averageCost: number;
+  currentValue: number;
+  profit: number;
+  roi: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREQUENCY_DAYS: Record<Exclude<DcaFrequency, 'monthly'>, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+};
+
+export const purchaseDates = (start: Date, end: Date, frequency: DcaFrequency): Date[] => {
+  if (frequency === 'monthly') {
+    return periodDates(start, end, 'monthly');
+  }
+  const step = FREQUENCY_DAYS[frequency] * DAY_MS;
+  const dates: Date[] = [];
+  for (let time = start.getTime(); time <= end.getTime(); time += step) {
+    dates.push(new Date(time));
+  }
+  return dates;
+};
+
+// The fee is taken out of `amount`, so the cash spent per purchase is exactly `amount`
+const buy = (date: Date, price: number, amount: number, fees: PurchaseFees): SimulatedPurchase => {
+  const spent = toDecimal(amount);
+  const charged = spent.mul(toDecimal(fees.feePercent)).div(100).plus(toDecimal(fees.feeFlat));
+  const fee = charged.lt(spent) ? charged : spent;
+  return {
+    date: date.toISOString().slice(0, 10),
+    price,
+    amount,
+    fee: fee.toNumber(),
+    quantity: (divide(spent.minus(fee), price) ?? toDecimal(0)).toNumber(),
+  };
+};
+
+const sumOf = (purchases: SimulatedPurchase[], field: 'amount' | 'fee' | 'quantity') =>
+  purchases.reduce((sum, purchase) => sum.plus(toDecimal(purchase[field])), toDecimal(0));
+
+const summarize = (purchases: SimulatedPurchase[], skippedPeriods: number, currentPrice: number): SimulationResult => {
+  const totalInvested = sumOf(purchases, 'amount');
+  const quantity = sumOf(purchases, 'quantity');
+  const currentValue = quantity.mul(toDecimal(currentPrice));
+  const { amount: profit, percentage } = profitAndLoss(totalInvested, currentValue);
+  return {
+    purchases,
+    skippedPeriods,
+    totalInvested: totalInvested.toNumber(),
+    totalFees: sumOf(purchases, 'fee').toNumber(),
+    quantity: quantity.toNumber(),
+    averageCost: (divide(totalInvested, quantity) ?? toDecimal(0)).toNumber(),
+    currentValue: currentValue.toNumber(),
+    profit,
+    roi: percentage ?? 0,
+  };
+};
+
+export const simulateDca = (
+  prices: PricePoint[],
+  currentPrice: number,
+  amountPerPeriod: number,
+  dates: Date[],
+  fees: PurchaseFees
+): SimulationResult => {
+  const purchases: SimulatedPurchase[] = [];
+  let skippedPeriods = 0;
+  for (const date of dates) {
+    const price = priceAt(prices, date.getTime());
+    if (price === null || price <= 0) {
+      skippedPeriods++;
+      continue;
+    }
+    purchases.push(buy(date, price, amountPerPeriod, fees));
+  }
+  return summarize(purchases, skippedPeriods, currentPrice);
+};
+
+// Invests `amount` in one go on the first date the coin had a price
+export const simulateLumpSum = (
+  prices: PricePoint[],
+  currentPrice: number,
+  amount: number,
+  dates: Date[],
+  fees: PurchaseFees
+): SimulationResult => {
+  const skipped = dates.findIndex(date => (priceAt(prices, date.getTime()) ?? 0) > 0);
+  if (skipped === -1 || amount <= 0) {
+    return summarize([], dates.length, currentPrice);
+  }
+  const date = dates[skipped];
+  return summarize([buy(date, priceAt(prices, date.getTime()), amount, fees)], 0, currentPrice);
+};
@@ -0,0 +1,30 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsv = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]) =>
+  [headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (filename: string, headers: string[], rows: CsvValue[][]) =>
+  downloadFile(filename, toCsv(headers, rows), 'text/csv;charset=utf-8');
+
+export const downloadJson = (filename: string, data: unknown) =>
+  downloadFile(filename, JSON.stringify(data, null, 2), 'application/json');
+
+// Date stamp for export file names
+export const exportTimestamp = () => new Date().toISOString().slice(0, 10);
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTradeCosts, NO_TRADING_COSTS, TradingCosts } from './fees';
+
+const costs = (overrides: Partial<TradingCosts>): TradingCosts => ({ ...NO_TRADING_COSTS, ...overrides });
+
+describe('calculateTradeCosts', () => {
+  it('has no fees without trading costs', () => {
+    const result = calculateTradeCosts(2, 100, 150, NO_TRADING_COSTS);
+    expect(result).toMatchObject({ totalCost: 200, netProceeds: 300, totalFees: 0, breakevenPrice: 100 });
+  });
+
+  it('applies percentage and flat fees on both sides', () => {
+    const result = calculateTradeCosts(1, 1000, 2000, costs({
+      buyFeePercent: 0.1,
+      buyFeeFlat: 1,
+      sellFeePercent: 0.1,
+      sellFeeFlat: 1,
+    }));
+    expect(result.buyFees).toBe(2);
+    expect(result.totalCost).toBe(1002);
+    expect(result.sellFees).toBe(3);
+    expect(result.netProceeds).toBe(1997);
+    expect(result.totalFees).toBe(5);
+    expect(result.breakevenPrice).toBeCloseTo(1003 / 0.999, 10);
+  });
+
+  it('applies slippage against the trader on both sides', () => {
+    const result = calculateTradeCosts(1, 100, 200, costs({ slippagePercent: 1 }));
+    expect(result.totalCost).toBe(101);
+    expect(result.netProceeds).toBe(198);
+    expect(result.slippageCost).toBe(3);
+  });
+
+  it('sells what is left after the withdrawal fee', () => {
+    const result = calculateTradeCosts(1, 100, 200, costs({ withdrawalFee: 0.1 }));
+    expect(result.netProceeds).toBe(180);
+    expect(result.withdrawalCost).toBe(20);
+    expect(result.breakevenPrice).toBeCloseTo(100 / 0.9, 10);
+  });
+
+  it('skips buy-side costs for a fee-inclusive cost basis', () => {
+    const result = calculateTradeCosts(1, 100, 200, costs({ buyFeePercent: 1, slippagePercent: 1 }), {
+      entryCostsIncluded: true,
+    });
+    expect(result.buyFees).toBe(0);
+    expect(result.totalCost).toBe(100);
+  });
+
+  it('handles a zero quantity', () => {
+    const result = calculateTradeCosts(0, 100, 200, costs({ sellFeeFlat: 1 }));
+    expect(result.totalCost).toBe(0);
+    expect(result.netProceeds).toBe(-1);
+    expect(result.breakevenPrice).toBe(Infinity);
+  });
+
+  it('handles a zero buy price', () => {
+    const result = calculateTradeCosts(10, 0, 5, NO_TRADING_COSTS);
+    expect(result.totalCost).toBe(0);
+    expect(result.netProceeds).toBe(50);
+    expect(result.breakevenPrice).toBe(0);
+  });
+
+  it('handles a zero target price', () => {
+    const result = calculateTradeCosts(10, 5, 0, costs({ sellFeePercent: 1 }));
+    expect(result.netProceeds).toBe(0);
+    expect(result.breakevenPrice).toBeCloseTo(50 / 9.9, 10);
+  });
+
+  it('has no breakeven when the withdrawal fee takes every coin', () => {
+    const result = calculateTradeCosts(0.1, 100, 200, costs({ withdrawalFee: 0.5 }));
+    expect(result.netProceeds).toBe(0);
+    expect(result.withdrawalCost).toBe(20);
+    expect(result.breakevenPrice).toBe(Infinity);
+  });
+
+  it('keeps micro-cap amounts exact', () => {
+    const result = calculateTradeCosts(100000000, 0.00000123, 0.00000246, NO_TRADING_COSTS);
+    expect(result.totalCost).toBe(123);
+    expect(result.netProceeds).toBe(246);
+  });
+});
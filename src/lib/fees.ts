@@ -0,0 +1,101 @@
+import { breakevenPrice, toDecimal } from './calculation';
+
+export interface TradingCosts {
+  buyFeePercent: number;
+  buyFeeFlat: number;
+  sellFeePercent: number;
+  sellFeeFlat: number;
+  // Applied against us on both sides: buys fill higher, sells fill lower
+  slippagePercent: number;
+  // Network withdrawal fee, in coin units
+  withdrawalFee: number;
+}
+
+export interface TradeCostBreakdown {
+  totalCost: number;
+  netProceeds: number;
+  buyFees: number;
+  sellFees: number;
+  slippageCost: number;
+  withdrawalCost: number;
+  totalFees: number;
+  breakevenPrice: number;
+}
+
+export interface FeePreset {
+  id: string;
+  name: string;
+  // Taker rate for the entry-level tier, in percent
+  feePercent: number;
+}
+
+export const NO_TRADING_COSTS: TradingCosts = {
+  buyFeePercent: 0,
+  buyFeeFlat: 0,
+  sellFeePercent: 0,
+  sellFeeFlat: 0,
+  slippagePercent: 0,
+  withdrawalFee: 0,
+};
+
+export const FEE_PRESETS: FeePreset[] = [
+  { id: 'binance', name: 'Binance Spot (Regular)', feePercent: 0.1 },
+  { id: 'binance-bnb', name: 'Binance Spot (BNB discount)', feePercent: 0.075 },
+  { id: 'coinbase-advanced', name: 'Coinbase Advanced (< $1K)', feePercent: 1.2 },
+  { id: 'kraken-pro', name: 'Kraken Pro (< $10K)', feePercent: 0.4 },
+  { id: 'bybit', name: 'Bybit Spot (Non-VIP)', feePercent: 0.1 },
+  { id: 'okx', name: 'OKX Spot (Regular)', feePercent: 0.1 },
+];
+
+export interface TradeCostOptions {
+  // Set when buyPrice already is a fee-inclusive cost basis (e.g. from the
+  // lot ledger), so only sell-side costs are applied
+  entryCostsIncluded?: boolean;
+}
+
+// Buying `quantity` coins at `buyPrice` and selling what is left after the
+// withdrawal fee at `targetPrice`. The breakeven price is the target at which
+// net proceeds exactly cover the total cost, or Infinity if nothing is left
+// to sell.
+export const calculateTradeCosts = (
+  quantity: number,
+  buyPrice: number,
+  targetPrice: number,
+  costs: TradingCosts,
+  options: TradeCostOptions = {}
+): TradeCostBreakdown => {
+  const amount = toDecimal(quantity);
+  const slippage = toDecimal(costs.slippagePercent).div(100);
+  const buySlippage = options.entryCostsIncluded ? toDecimal(0) : slippage;
+  const buyRate = toDecimal(costs.buyFeePercent).div(100);
+  const sellRate = toDecimal(costs.sellFeePercent).div(100);
+
+  const buyNotional = amount.mul(toDecimal(buyPrice));
+  const buyValue = buyNotional.mul(buySlippage.plus(1));
+  const buyFees = options.entryCostsIncluded ? toDecimal(0) : buyValue.mul(buyRate).plus(toDecimal(costs.buyFeeFlat));
+  const totalCost = buyValue.plus(buyFees);
+
+  const withdrawal = toDecimal(costs.withdrawalFee);
+  const sellQuantity = amount.gt(withdrawal) ? amount.minus(withdrawal) : toDecimal(0);
+  const sellNotional = sellQuantity.mul(toDecimal(targetPrice));
+  const sellValue = sellNotional.mul(toDecimal(1).minus(slippage));
+  const sellFees = sellValue.mul(sellRate).plus(toDecimal(costs.sellFeeFlat));
+  const netProceeds = sellValue.minus(sellFees);
+
+  const slippageCost = buyNotional.mul(buySlippage).plus(sellNotional.mul(slippage));
+  const withdrawalCost = (withdrawal.lt(amount) ? withdrawal : amount).mul(toDecimal(targetPrice));
+  const totalFees = buyFees.plus(sellFees).plus(slippageCost).plus(withdrawalCost);
+
+  return {
+    totalCost: totalCost.toNumber(),
+    netProceeds: netProceeds.toNumber(),
+    buyFees: buyFees.toNumber(),
+    sellFees: sellFees.toNumber(),
+    slippageCost: slippageCost.toNumber(),
+    withdrawalCost: withdrawalCost.toNumber(),
+    totalFees: totalFees.toNumber(),
+    breakevenPrice: breakevenPrice(
+      totalCost, sellQuantity, costs.sellFeePercent, costs.slippagePercent, costs.sellFeeFlat
+    ) ?? Infinity,
+  };
+};
@@ -0,0 +1,42 @@
+import { getCurrency } from './currency';
+
+export const formatCurrency = (value: number, currencyCode: string) => {
+  if (!isFinite(value)) return 'N/A';
+  const currency = getCurrency(currencyCode);
+  return new Intl.NumberFormat(currency.locale, {
+    style: 'currency',
+    currency: currency.code.toUpperCase(),
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value);
+};
+
+export const formatCrypto = (value: number, currencyCode: string) => {
+  return new Intl.NumberFormat(getCurrency(currencyCode).locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 8
+  }).format(value);
+};
+
+// An amount of a coin used as the quote currency, e.g. "0.01523000 BTC"
+export const formatAssetAmount = (value: number, assetSymbol: string, currencyCode: string) => {
+  if (!isFinite(value)) return 'N/A';
+  return `${formatCrypto(value, currencyCode)} ${assetSymbol}`;
+};
+
+export const formatLargeNumber = (value: number, currencyCode: string) => {
+  return new Intl.NumberFormat(getCurrency(currencyCode).locale, {
+    notation: 'compact',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value);
+};
+
+export const currencySymbol = (currencyCode: string) => {
+  const currency = getCurrency(currencyCode);
+  const parts = new Intl.NumberFormat(currency.locale, {
+    style: 'currency',
+    currency: currency.code.toUpperCase()
+  }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value || currency.code.toUpperCase();
+};
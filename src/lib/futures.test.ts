@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFutures, FuturesParams, liquidationPrice } from './futures';
+
+// 1 coin at 100 with 10x leverage backs 100 of notional with 10 of margin
+const params = (overrides: Partial<FuturesParams>): FuturesParams => ({
+  side: 'long',
+  entryPrice: 100,
+  quantity: 1,
+  targetPrice: 110,
+  leverage: 10,
+  marginMode: 'isolated',
+  maintenanceMarginPercent: 0.5,
+  fundingRatePercent: 0,
+  holdingHours: 0,
+  openFeePercent: 0,
+  closeFeePercent: 0,
+  ...overrides,
+});
+
+describe('liquidationPrice', () => {
+  it('is below the entry for a long and above it for a short', () => {
+    expect(liquidationPrice('long', 100, 1, 10, 0.5)).toBeCloseTo(90 / 0.995, 10);
+    expect(liquidationPrice('short', 100, 1, 10, 0.5)).toBeCloseTo(110 / 1.005, 10);
+  });
+
+  it('is null for a long backed by its whole notional', () => {
+    expect(liquidationPrice('long', 100, 1, 100, 0.5)).toBeNull();
+  });
+
+  it('is null for an empty position', () => {
+    expect(liquidationPrice('long', 100, 0, 10, 0.5)).toBeNull();
+  });
+});
+
+describe('calculateFutures', () => {
+  it('moves the liquidation price away with cross margin', () => {
+    const isolated = calculateFutures(params({ side: 'short' }));
+    const cross = calculateFutures(params({ side: 'short', marginMode: 'cross', crossBalance: 40 }));
+    expect(isolated.requiredMargin).toBe(10);
+    expect(cross.liquidationPrice).toBeCloseTo(150 / 1.005, 10);
+    expect(cross.liquidationPrice).toBeGreaterThan(isolated.liquidationPrice!);
+  });
+
+  it('nets fees and funding out of a long', () => {
+    const result = calculateFutures(params({
+      openFeePercent: 0.1,
+      closeFeePercent: 0.1,
+      fundingRatePercent: 0.01,
+      holdingHours: 24,
+    }));
+    expect(result.pnl).toBe(10);
+    expect(result.fees).toBeCloseTo(0.21, 10);
+    // Three funding periods at 0.01% of 100
+    expect(result.fundingCost).toBeCloseTo(0.03, 10);
+    expect(result.netPnl).toBeCloseTo(9.76, 10);
+    expect(result.roe).toBeCloseTo(97.6, 10);
+  });
+
+  it('pays a short the funding that longs pay', () => {
+    const result = calculateFutures(params({ side: 'short', targetPrice: 90, fundingRatePercent: 0.01, holdingHours: 8 }));
+    expect(result.pnl).toBe(10);
+    expect(result.fundingCost).toBeCloseTo(-0.01, 10);
+    expect(result.netPnl).toBeCloseTo(10.01, 10);
+  });
+
+  it('puts the breakeven above the entry for a long and below it for a short, after fees', () => {
+    const fees = { openFeePercent: 0.1, closeFeePercent: 0.1 };
+    expect(calculateFutures(params(fees)).breakevenPrice).toBeCloseTo(100.1 / 0.999, 10);
+    expect(calculateFutures(params({ ...fees, side: 'short' })).breakevenPrice).toBeCloseTo(99.9 / 1.001, 10);
+  });
+
+  it('breaks even at the entry without costs', () => {
+    expect(calculateFutures(params({})).breakevenPrice).toBe(100);
+    expect(calculateFutures(params({ side: 'short' })).breakevenPrice).toBe(100);
+  });
+
+  it('flags a target past the liquidation price', () => {
+    expect(calculateFutures(params({ targetPrice: 90 })).targetBeyondLiquidation).toBe(true);
+    expect(calculateFutures(params({ side: 'short', targetPrice: 110 })).targetBeyondLiquidation).toBe(true);
+    expect(calculateFutures(params({ targetPrice: 95 })).targetBeyondLiquidation).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { divide, Numeric, toDecimal } from './calculation';
+
+// Linear (quote-margined) perpetual futures. The position is sized by
+// `quantity` at `entryPrice`; leverage only decides how much margin backs it.
+
+export type PositionType = 'spot' | 'long' | 'short';
+export type FuturesSide = Exclude<PositionType, 'spot'>;
+export type MarginMode = 'isolated' | 'cross';
+
+export const POSITION_TYPES: { value: PositionType; label: string }[] = [
+  { value: 'spot', label: 'Spot' },
+  { value: 'long', label: 'Long (futures)' },
+  { value: 'short', label: 'Short (futures)' },
+];
+
+// Perpetual funding is exchanged every 8 hours on most venues
+export const FUNDING_INTERVAL_HOURS = 8;
+
+export interface FuturesParams {
+  side: FuturesSide;
+  entryPrice: number;
+  quantity: number;
+  targetPrice: number;
+  leverage: number;
+  marginMode: MarginMode;
+  maintenanceMarginPercent: number;
+  // Funding rate per interval, in percent; positive means longs pay shorts
+  fundingRatePercent: number;
+  holdingHours: number;
+  // Taker fees on opening and closing, in percent of notional
+  openFeePercent: number;
+  closeFeePercent: number;
+  // Cross margin only: free wallet balance that also backs the position
+  crossBalance?: number;
+}
+
+export interface FuturesResult {
+  notional: number;
+  requiredMargin: number;
+  // Null when the position cannot be liquidated, e.g. a long backed by more
+  // collateral than its notional
+  liquidationPrice: number | null;
+  pnl: number;
+  fees: number;
+  fundingCost: number;
+  netPnl: number;
+  // Net P/L as a percentage of the required margin
+  roe: number;
+  breakevenPrice: number | null;
+  targetBeyondLiquidation: boolean;
+}
+
+const sign = (side: FuturesSide) => (side === 'long' ? 1 : -1);
+
+// Price at which equity (collateral plus unrealized P/L) falls to the
+// maintenance margin on the position's notional at that price
+export const liquidationPrice = (
+  side: FuturesSide,
+  entryPrice: Numeric,
+  quantity: Numeric,
+  collateral: Numeric,
+  maintenanceMarginPercent: Numeric
+): number | null => {
+  const size = toDecimal(quantity);
+  if (size.lte(0)) return null;
+  const mmr = toDecimal(maintenanceMarginPercent).div(100);
+  const entryValue = size.mul(toDecimal(entryPrice));
+  const price = side === 'long'
+    ? divide(entryValue.minus(toDecimal(collateral)), size.mul(mmr.neg().plus(1)))
+    : divide(entryValue.plus(toDecimal(collateral)), size.mul(mmr.plus(1)));
+  return price === null || price.lte(0) ? null : price.toNumber();
+};
+
+export const calculateFutures = (params: FuturesParams): FuturesResult => {
+  const quantity = toDecimal(params.quantity);
+  const direction = sign(params.side);
+  const notional = quantity.mul(toDecimal(params.entryPrice));
+  const leverage = toDecimal(params.leverage);
+  const requiredMargin = leverage.gt(0) ? notional.div(leverage) : notional;
+  const collateral = params.marginMode === 'cross'
+    ? requiredMargin.plus(toDecimal(params.crossBalance))
+    : requiredMargin;
+
+  const liquidation = liquidationPrice(
+    params.side, params.entryPrice, params.quantity, collateral, params.maintenanceMarginPercent
+  );
+
+  const pnl = toDecimal(params.targetPrice).minus(toDecimal(params.entryPrice)).mul(quantity).mul(direction);
+  const openFee = notional.mul(toDecimal(params.openFeePercent).div(100));
+  const closeRate = toDecimal(params.closeFeePercent).div(100);
+  const closeFee = quantity.mul(toDecimal(params.targetPrice)).mul(closeRate);
+  const fees = openFee.plus(closeFee);
+
+  // Funding is charged on the entry notional; shorts receive what longs pay
+  const periods = toDecimal(params.holdingHours).div(FUNDING_INTERVAL_HOURS);
+  const fundingCost = notional.mul(toDecimal(params.fundingRatePercent).div(100)).mul(periods).mul(direction);
+
+  const netPnl = pnl.minus(fees).minus(fundingCost);
+  const roe = divide(netPnl.mul(100), requiredMargin);
+
+  // Target at which net P/L is zero, with the close fee depending on the target
+  const fixedCosts = openFee.plus(fundingCost);
+  const breakeven = divide(
+    notional.plus(fixedCosts.mul(direction)),
+    quantity.mul(closeRate.mul(-direction).plus(1))
+  );
+
+  const target = params.targetPrice;
+  const targetBeyondLiquidation = liquidation !== null && (
+    params.side === 'long' ? target <= liquidation : target >= liquidation
+  );
+
+  return {
+    notional: notional.toNumber(),
+    requiredMargin: requiredMargin.toNumber(),
+    liquidationPrice: liquidation,
+    pnl: pnl.toNumber(),
+    fees: fees.toNumber(),
+    fundingCost: fundingCost.toNumber(),
+    netPnl: netPnl.toNumber(),
+    roe: roe === null ? 0 : roe.toNumber(),
+    breakevenPrice: breakeven === null || breakeven.lte(0) ? null : breakeven.toNumber(),
+    targetBeyondLiquidation,
+  };
+};
@@ -0,0 +1,58 @@
+import { PricePoint } from './market/types';
+
+export type ReturnInterval = 'yearly' | 'quarterly' | 'monthly';
+
+export const RETURN_INTERVALS: { value: ReturnInterval; label: string; months: number }[] = [
+  { value: 'yearly', label: 'Yearly', months: 12 },
+  { value: 'quarterly', label: 'Quarterly', months: 3 },
+  { value: 'monthly', label: 'Monthly', months: 1 },
+];
+
+const addMonthsUTC = (date: Date, months: number) => {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+};
+
+// Purchase dates from `start` to `end`, stepping by the interval. Month ends
+// are clamped, so Jan 31 is followed by Feb 28/29.
+export const periodDates = (start: Date, end: Date, interval: ReturnInterval): Date[] => {
+  const months = RETURN_INTERVALS.find(i => i.value === interval)?.months ?? 12;
+  const dates: Date[] = [];
+  for (let step = 0; ; step++) {
+    const date = addMonthsUTC(start, step * months);
+    if (date > end) break;
+    dates.push(date);
+  }
+  return dates;
+};
+
+// Price at `timestamp` from a series sorted by time, interpolating between
+// neighbouring points. Null before the first point, i.e. before the coin had
+// a listed price.
+export const priceAt = (points: PricePoint[], timestamp: number): number | null => {
+  if (points.length === 0 || timestamp < points[0].timestamp) return null;
+  const nextIndex = points.findIndex(point => point.timestamp >= timestamp);
+  if (nextIndex === -1) return points[points.length - 1].price;
+  const next = points[nextIndex];
+  if (next.timestamp === timestamp || nextIndex === 0) return next.price;
+  const previous = points[nextIndex - 1];
+  const ratio = (timestamp - previous.timestamp) / (next.timestamp - previous.timestamp);
+  return previous.price + (next.price - previous.price) * ratio;
+};
+
+export const formatPeriodLabel = (date: Date, interval: ReturnInterval, locale: string) => {
+  const month = date.getUTCMonth();
+  const firstOfMonth = date.getUTCDate() === 1;
+  if (interval === 'yearly' && firstOfMonth && month === 0) {
+    return String(date.getUTCFullYear());
+  }
+  if (interval === 'quarterly' && firstOfMonth && month % 3 === 0) {
+    return `Q${month / 3 + 1} ${date.getUTCFullYear()}`;
+  }
+  if (interval === 'monthly' && firstOfMonth) {
+    return date.toLocaleDateString(locale, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  return date.toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+};
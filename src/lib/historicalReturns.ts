@@ -0,0 +1,150 @@
+import { PricePoint } from './market/types';
+import { formatPeriodLabel, periodDates, priceAt, ReturnInterval } from './historical';
+import { historicalMultiplier, valueToday } from './calculation';
+import { inflationFactor, realReturn, RealReturn } from './inflation';
+import { AffordableItem, affordableItems, ComparisonItem } from './comparisonItems';
+import { BENCHMARKS, BenchmarkId, benchmarkDataEnd, benchmarkValueAt } from './benchmarks';
+import { EMPTY_STATS, PerformanceStats, performanceSince, sampleMonthly, ValueAt } from './performance';
+
+// The time machine table: what an investment made on each past date would be
+// worth today, shared by the time machine page and /api/v1/historical-returns.
+
+export interface HistoricalReturn {
+  date: string;
+  label: string;
+  // Null when the coin had no listed price yet on that date
+  price: number | null;
+  currentValue: number | null;
+  multiplier: number | null;
+  // Null when there is no CPI data for the currency and date
+  realReturn: RealReturn | null;
+  whatYouCanBuy: AffordableItem[];
+  // Return and risk from the purchase date until today
+  performance: PerformanceStats;
+  // The same investment over the same period in each compared asset
+  comparisons: AssetComparison[];
+}
+
+export interface AssetComparison {
+  id: string;
+  name: string;
+  // Currency the return is measured in. Benchmarks are always US dollars, so
+  // against another currency they leave out its exchange-rate moves.
+  currency: string;
+  // The investment grown at the asset's return; null without data for the period
+  currentValue: number | null;
+  // Last day with data when the asset's data stops before today. Later
+  // purchase dates get no comparison; earlier ones are valued at this reading.
+  dataEnd?: string;
+  stats: PerformanceStats;
+}
+
+// A coin or benchmark, sampled once so each row can reuse the samples after
+// its own purchase date
+export interface ComparedAsset {
+  id: string;
+  name: string;
+  currency: string;
+  valueAt: ValueAt;
+  // Month-end values from the start date until today
+  samples: PricePoint[];
+  // Timestamp of the last real value, when the data stops before today
+  dataEnd?: number;
+}
+
+export interface HistoricalReturnsInput {
+  coin: ComparedAsset;
+  compared: ComparedAsset[];
+  currentPrice: number;
+  investment: number;
+  interval: ReturnInterval;
+  start: Date;
+  end: Date;
+  currency: string;
+  locale: string;
+  // Units of `currency` per US dollar, for the comparison item prices
+  usdRate: number;
+  comparisonItems: ComparisonItem[];
+  now?: Date;
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// Historical prices up to the end of the series, then today's price
+export const coinValueAt = (series: PricePoint[], currentPrice: number, now: number): ValueAt =>
+  (timestamp) => (timestamp >= now ? currentPrice : priceAt(series, timestamp));
+
+export const comparedAsset = (
+  id: string,
+  name: string,
+  currency: string,
+  valueAt: ValueAt,
+  start: Date,
+  now: number
+): ComparedAsset => ({ id, name, currency, valueAt, samples: sampleMonthly(valueAt, start.getTime(), now) });
+
+export const benchmarkAssets = (ids: BenchmarkId[], start: Date, now: number): ComparedAsset[] =>
+  BENCHMARKS
+    .filter(benchmark => ids.includes(benchmark.id))
+    .map(benchmark => {
+      const dataEnd = benchmarkDataEnd(benchmark.id);
+      const asset = comparedAsset(benchmark.id, benchmark.name, 'usd', (timestamp) => benchmarkValueAt(benchmark.id, timestamp), start, now);
+      return dataEnd < now ? { ...asset, dataEnd } : asset;
+    });
+
+// Held flat after its data ends, an asset would show a 0% return for any
+// purchase date past that point, so those periods have no comparison
+const compareAsset = (asset: ComparedAsset, date: Date, investment: number): AssetComparison => {
+  const comparison = {
+    id: asset.id,
+    name: asset.name,
+    currency: asset.currency,
+    ...(asset.dataEnd !== undefined && { dataEnd: toDateString(new Date(asset.dataEnd)) }),
+  };
+  if (asset.dataEnd !== undefined && date.getTime() >= asset.dataEnd) {
+    return { ...comparison, currentValue: null, stats: EMPTY_STATS };
+  }
+  const stats = performanceSince(asset.samples, date.getTime(), asset.valueAt);
+  return { ...comparison, currentValue: stats.multiplier === null ? null : investment * stats.multiplier, stats };
+};
+
+// Rows from the most recent purchase date back to the oldest
+export const buildHistoricalReturns = (input: HistoricalReturnsInput): HistoricalReturn[] => {
+  const { coin, compared, currentPrice, investment, currency } = input;
+  const now = input.now ?? new Date();
+
+  return periodDates(input.start, input.end, input.interval)
+    .map(date => {
+      const price = coin.valueAt(date.getTime());
+      const row: HistoricalReturn = {
+        date: toDateString(date),
+        label: formatPeriodLabel(date, input.interval, input.locale),
+        price,
+        currentValue: null,
+        multiplier: null,
+        realReturn: null,
+        whatYouCanBuy: [],
+        performance: EMPTY_STATS,
+        comparisons: []
+      };
+      if (price === null) return row;
+
+      const currentValue = valueToday(investment, price, currentPrice);
+      const multiplier = historicalMultiplier(price, currentPrice);
+      // A zero price is as good as no listing
+      if (currentValue === null || multiplier === null) return { ...row, price: null };
+
+      const factor = inflationFactor(currency, date, now);
+
+      return {
+        ...row,
+        currentValue,
+        multiplier,
+        realReturn: factor === null ? null : realReturn(investment, currentValue, factor),
+        whatYouCanBuy: affordableItems(currentValue, input.comparisonItems, input.usdRate),
+        performance: performanceSince(coin.samples, date.getTime(), coin.valueAt),
+        comparisons: compared.map(asset => compareAsset(asset, date, investment))
+      };
+    })
+    .reverse();
+};
@@ -0,0 +1,61 @@
+import cpiData from './cpi.json';
+import { divide, toDecimal } from '../calculation';
+
+// Annual average consumer price index per currency, rebased to 2010 = 100
+// (US CPI-U, euro area HICP, UK CPI, India CPI, Japan CPI, Australia CPI,
+// Canada CPI, Swiss CPI). The latest year is a provisional estimate; adding a
+// year only requires a new entry in cpi.json.
+
+const cpi = cpiData as Record<string, Record<string, number>>;
+
+export interface RealReturn {
+  // The amount invested, expressed in today's money
+  adjustedInvestment: number;
+  // Return after inflation, in percent
+  realReturnPercent: number | null;
+  realMultiplier: number | null;
+}
+
+// Annual averages are treated as mid-year readings
+const midYear = (year: number) => Date.UTC(year, 6, 1);
+
+export const hasCpiData = (currency: string) => currency in cpi;
+
+// Index level at `date`, interpolated between mid-year readings and held flat
+// after the last one. Null before the dataset starts or for unknown currencies.
+export const cpiAt = (currency: string, date: Date): number | null => {
+  const series = cpi[currency];
+  if (!series) return null;
+  const years = Object.keys(series).map(Number).sort((a, b) => a - b);
+  const time = date.getTime();
+  if (time < Date.UTC(years[0], 0, 1)) return null;
+  if (time <= midYear(years[0])) return series[years[0]];
+
+  for (let i = 1; i < years.length; i++) {
+    const end = midYear(years[i]);
+    if (time <= end) {
+      const start = midYear(years[i - 1]);
+      const ratio = (time - start) / (end - start);
+      return series[years[i - 1]] + (series[years[i]] - series[years[i - 1]]) * ratio;
+    }
+  }
+  return series[years[years.length - 1]];
+};
+
+// How many units of money at `to` buy what one unit bought at `from`
+export const inflationFactor = (currency: string, from: Date, to: Date): number | null => {
+  const start = cpiAt(currency, from);
+  const end = cpiAt(currency, to);
+  if (start === null || end === null) return null;
+  return divide(end, start)?.toNumber() ?? null;
+};
+
+export const realReturn = (invested: number, currentValue: number, factor: number): RealReturn => {
+  const adjusted = toDecimal(invested).mul(toDecimal(factor));
+  const multiplier = divide(currentValue, adjusted);
+  return {
+    adjustedInvestment: adjusted.toNumber(),
+    realReturnPercent: multiplier === null ? null : multiplier.minus(1).mul(100).toNumber(),
+    realMultiplier: multiplier === null ? null : multiplier.toNumber(),
+  };
+};
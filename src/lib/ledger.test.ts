@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePosition, COST_BASIS_METHODS, LedgerEntry } from './ledger';
+
+const entry = (id: string, type: 'buy' | 'sell', date: string, quantity: number, price: number, fee = 0): LedgerEntry =>
+  ({ id, coinId: 'bitcoin', type, date, quantity, price, fee });
+
+const buys = [
+  entry('a', 'buy', '2024-01-01', 0.1, 100),
+  entry('b', 'buy', '2024-01-02', 0.2, 200),
+];
+
+describe('calculatePosition', () => {
+  it.each(COST_BASIS_METHODS.map(({ value }) => value))('closes the position when %s sells every coin', (method) => {
+    const position = calculatePosition([...buys, entry('c', 'sell', '2024-01-03', 0.3, 300)], method, 300);
+    expect(position.quantity).toBe(0);
+    expect(position.openLots).toEqual([]);
+    expect(position.costBasis).toBe(0);
+    expect(position.realizedPnl).toBe(40);
+  });
+
+  it('sells the oldest lots first under FIFO', () => {
+    const position = calculatePosition([...buys, entry('c', 'sell', '2024-01-03', 0.15, 300)], 'fifo', 300);
+    expect(position.realizedPnl).toBe(25);
+    expect(position.openLots).toEqual([{ entryId: 'b', date: '2024-01-02', quantity: 0.15, unitCost: 200 }]);
+  });
+
+  it('sells the newest lots first under LIFO', () => {
+    const position = calculatePosition([...buys, entry('c', 'sell', '2024-01-03', 0.15, 300)], 'lifo', 300);
+    expect(position.realizedPnl).toBe(15);
+    expect(position.quantity).toBe(0.15);
+    expect(position.costBasis).toBe(20);
+  });
+
+  it('sells the most expensive lots first under HIFO', () => {
+    const lots = [entry('b', 'buy', '2024-01-01', 0.2, 200), entry('a', 'buy', '2024-01-02', 0.1, 100)];
+    const position = calculatePosition([...lots, entry('c', 'sell', '2024-01-03', 0.2, 300)], 'hifo', 300);
+    expect(position.realizedPnl).toBe(20);
+    expect(position.openLots.map(lot => lot.entryId)).toEqual(['a']);
+  });
+
+  it('uses the weighted average cost', () => {
+    const position = calculatePosition([...buys, entry('c', 'sell', '2024-01-03', 0.15, 300)], 'average', 300);
+    expect(position.realizedPnl).toBe(20);
+    expect(position.costBasis).toBe(25);
+  });
+
+  it('includes buy and sell fees', () => {
+    const position = calculatePosition([
+      entry('a', 'buy', '2024-01-01', 1, 100, 1),
+      entry('b', 'sell', '2024-01-02', 1, 150, 1.5),
+    ], 'fifo', 150);
+    expect(position.realizedPnl).toBe(47.5);
+  });
+
+  it('reports sells beyond the holdings without counting them', () => {
+    const position = calculatePosition([...buys, entry('c', 'sell', '2024-01-03', 0.5, 300)], 'fifo', 300);
+    expect(position.quantity).toBe(0);
+    expect(position.unmatchedSellQuantity).toBe(0.2);
+    expect(position.realizedPnl).toBe(40);
+  });
+
+  it('ignores zero-quantity entries', () => {
+    const position = calculatePosition([entry('a', 'buy', '2024-01-01', 0, 100)], 'fifo', 100);
+    expect(position).toMatchObject({ quantity: 0, costBasis: 0, averageBuyPrice: 0, openLots: [] });
+  });
+});
@@ -0,0 +1,147 @@
+import Decimal from 'decimal.js';
+import { divide, toDecimal } from './calculation';
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'average';
+
+export interface LedgerEntry {
+  id: string;
+  coinId: string;
+  type: 'buy' | 'sell';
+  date: string;
+  quantity: number;
+  price: number;
+  fee: number;
+  // Quote currency of price and fee; entries saved before currencies were supported are USD
+  currency?: string;
+}
+
+export interface OpenLot {
+  entryId: string;
+  date: string;
+  quantity: number;
+  // Per-coin cost including the buy fee
+  unitCost: number;
+}
+
+export interface LedgerPosition {
+  method: CostBasisMethod;
+  quantity: number;
+  costBasis: number;
+  averageBuyPrice: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  openLots: OpenLot[];
+  // Quantity sold beyond what the ledger holds; ignored for P/L
+  unmatchedSellQuantity: number;
+}
+
+export const COST_BASIS_METHODS: { value: CostBasisMethod; label: string }[] = [
+  { value: 'fifo', label: 'FIFO (first in, first out)' },
+  { value: 'lifo', label: 'LIFO (last in, first out)' },
+  { value: 'hifo', label: 'HIFO (highest cost first)' },
+  { value: 'average', label: 'Weighted average' },
+];
+
+const sortChronologically = (entries: LedgerEntry[]) =>
+  entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => a.entry.date.localeCompare(b.entry.date) || a.index - b.index)
+    .map(({ entry }) => entry);
+
+// A lot while sales are matched against it. Quantity and total cost (with the
+// buy fee) stay Decimal, so selling exactly what was bought leaves no dust.
+interface WorkingLot {
+  entryId: string;
+  date: string;
+  quantity: Decimal;
+  cost: Decimal;
+}
+
+const lotUnitCost = (lot: WorkingLot) => divide(lot.cost, lot.quantity) ?? toDecimal(0);
+
+// Picks the order in which open lots are consumed by a sale
+const orderLotsForSale = (lots: WorkingLot[], method: CostBasisMethod): WorkingLot[] => {
+  switch (method) {
+    case 'lifo':
+      return [...lots].reverse();
+    case 'hifo':
+      return [...lots].sort((a, b) => lotUnitCost(b).cmp(lotUnitCost(a)));
+    default:
+      return lots;
+  }
+};
+
+const sumQuantity = (lots: WorkingLot[]) => lots.reduce((sum, lot) => sum.plus(lot.quantity), toDecimal(0));
+const sumCost = (lots: WorkingLot[]) => lots.reduce((sum, lot) => sum.plus(lot.cost), toDecimal(0));
+
+// Collapses every open lot into one at the weighted average unit cost
+const averageLots = (lots: WorkingLot[], entryId: string, date: string): WorkingLot[] => {
+  const quantity = sumQuantity(lots);
+  if (quantity.lte(0)) return [];
+  return [{ entryId, date, quantity, cost: sumCost(lots) }];
+};
+
+export const calculatePosition = (
+  entries: LedgerEntry[],
+  method: CostBasisMethod,
+  currentPrice: number
+): LedgerPosition => {
+  let lots: WorkingLot[] = [];
+  let realizedPnl = toDecimal(0);
+  let unmatchedSellQuantity = toDecimal(0);
+
+  for (const entry of sortChronologically(entries)) {
+    if (entry.quantity <= 0) continue;
+    const entryQuantity = toDecimal(entry.quantity);
+    const entryValue = entryQuantity.mul(toDecimal(entry.price));
+
+    if (entry.type === 'buy') {
+      lots.push({
+        entryId: entry.id,
+        date: entry.date,
+        quantity: entryQuantity,
+        cost: entryValue.plus(toDecimal(entry.fee)),
+      });
+      if (method === 'average') {
+        lots = averageLots(lots, entry.id, entry.date);
+      }
+      continue;
+    }
+
+    const proceedsPerUnit = entryValue.minus(toDecimal(entry.fee)).div(entryQuantity);
+    let remaining = entryQuantity;
+    for (const lot of orderLotsForSale(lots, method)) {
+      if (remaining.lte(0)) break;
+      const matched = lot.quantity.lt(remaining) ? lot.quantity : remaining;
+      const costShare = lot.cost.mul(matched).div(lot.quantity);
+      realizedPnl = realizedPnl.plus(matched.mul(proceedsPerUnit)).minus(costShare);
+      lot.cost = lot.cost.minus(costShare);
+      lot.quantity = lot.quantity.minus(matched);
+      remaining = remaining.minus(matched);
+    }
+    unmatchedSellQuantity = unmatchedSellQuantity.plus(remaining);
+    lots = lots.filter(lot => lot.quantity.gt(0));
+  }
+
+  const quantity = sumQuantity(lots);
+  const costBasis = sumCost(lots);
+
+  return {
+    method,
+    quantity: quantity.toNumber(),
+    costBasis: costBasis.toNumber(),
+    averageBuyPrice: (divide(costBasis, quantity) ?? toDecimal(0)).toNumber(),
+    realizedPnl: realizedPnl.toNumber(),
+    unrealizedPnl: quantity.mul(toDecimal(currentPrice)).minus(costBasis).toNumber(),
+    openLots: lots.map(lot => ({
+      entryId: lot.entryId,
+      date: lot.date,
+      quantity: lot.quantity.toNumber(),
+      unitCost: lotUnitCost(lot).toNumber(),
+    })),
+    unmatchedSellQuantity: unmatchedSellQuantity.toNumber(),
+  };
+};
+
+export const createEntryId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
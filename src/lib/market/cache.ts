@@ -0,0 +1,61 @@
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// In-memory TTL cache that also coalesces concurrent loads of the same key,
+// so a burst of identical requests results in a single upstream call.
+export class TtlCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+  private inflight = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  async getOrLoad<T>(key: string, ttlMs: number, loader: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as T;
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const load = loader()
+      .then(value => {
+        this.set(key, value, ttlMs);
+        return value;
+      })
+      .finally(() => {
+        this.inflight.delete(key);
+      });
+
+    this.inflight.set(key, load);
+    return load;
+  }
+
+  clear() {
+    this.entries.clear();
+    this.inflight.clear();
+  }
+
+  private set<T>(key: string, value: T, ttlMs: number) {
+    if (this.entries.size >= this.maxEntries) {
+      this.evictExpired();
+    }
+    if (this.entries.size >= this.maxEntries) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  private evictExpired() {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import { TtlCache } from './cache';
+import { CoinListItem, MarketDataProvider, PricePoint, SpotPrice } from './types';
+
+const MINUTE = 60 * 1000;
+
+const TTL = {
+  coinList: 60 * MINUTE,
+  spotPrice: 1 * MINUTE,
+  // Past daily prices never change, so they can be kept much longer
+  priceAtDate: 24 * 60 * MINUTE,
+  priceRange: 10 * MINUTE,
+  fiatRate: 60 * MINUTE,
+};
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export class CachedMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+  readonly cryptoQuotes: Record<string, string>;
+
+  constructor(private readonly provider: MarketDataProvider, private readonly cache = new TtlCache()) {
+    this.name = provider.name;
+    this.cryptoQuotes = provider.cryptoQuotes;
+  }
+
+  getCoinList(): Promise<CoinListItem[]> {
+    return this.cache.getOrLoad(`${this.name}:coins`, TTL.coinList, () => this.provider.getCoinList());
+  }
+
+  getCoinByContract(chain: string, address: string): Promise<CoinListItem> {
+    return this.cache.getOrLoad(
+      `${this.name}:contract:${chain}:${address.toLowerCase()}`,
+      TTL.coinList,
+      () => this.provider.getCoinByContract(chain, address)
+    );
+  }
+
+  getSpotPrice(id: string, vsCurrency: string): Promise<SpotPrice> {
+    return this.cache.getOrLoad(
+      `${this.name}:price:${id}:${vsCurrency}`,
+      TTL.spotPrice,
+      () => this.provider.getSpotPrice(id, vsCurrency)
+    );
+  }
+
+  getSpotPrices(ids: string[], vsCurrency: string): Promise<SpotPrice[]> {
+    const key = [...ids].sort().join(',');
+    return this.cache.getOrLoad(
+      `${this.name}:prices:${key}:${vsCurrency}`,
+      TTL.spotPrice,
+      () => this.provider.getSpotPrices(ids, vsCurrency)
+    );
+  }
+
+  getPriceAtDate(id: string, date: Date, vsCurrency: string): Promise<number | null> {
+    return this.cache.getOrLoad(
+      `${this.name}:history:${id}:${dayKey(date)}:${vsCurrency}`,
+      TTL.priceAtDate,
+      () => this.provider.getPriceAtDate(id, date, vsCurrency)
+    );
+  }
+
+  getPriceRange(id: string, from: Date, to: Date, vsCurrency: string): Promise<PricePoint[]> {
+    return this.cache.getOrLoad(
+      `${this.name}:range:${id}:${dayKey(from)}:${dayKey(to)}:${vsCurrency}`,
+      TTL.priceRange,
+      () => this.provider.getPriceRange(id, from, to, vsCurrency)
+    );
+  }
+
+  getFiatRate(vsCurrency: string): Promise<number> {
+    return this.cache.getOrLoad(`${this.name}:fx:${vsCurrency}`, TTL.fiatRate, () => this.provider.getFiatRate(vsCurrency));
+  }
+}
@@ -0,0 +1,55 @@
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchPriceRange } from './client';
+
+vi.mock('axios');
+
+// An in-memory stand-in for the IndexedDB copy
+const saved = new Map<string, { key: string; data: unknown; fetchedAt: number }>();
+vi.mock('./offlineCache', () => ({
+  readOffline: async (key: string) => saved.get(key) ?? null,
+  writeOffline: async (key: string, data: unknown, fetchedAt: number) => {
+    saved.set(key, { key, data, fetchedAt });
+  },
+}));
+
+const get = vi.mocked(axios.get);
+const points = [{ timestamp: Date.UTC(2023, 0, 1), price: 100 }];
+
+const online = () => get.mockResolvedValue({ data: points });
+const offline = () => get.mockRejectedValue(new Error('Network Error'));
+
+describe('fetchPriceRange', () => {
+  beforeEach(() => {
+    saved.clear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2024, 5, 15, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    get.mockReset();
+  });
+
+  it('serves a saved range offline for the same dates', async () => {
+    online();
+    await fetchPriceRange('bitcoin', new Date('2023-01-01'), new Date('2023-06-30'), 'usd');
+    offline();
+    await expect(fetchPriceRange('bitcoin', new Date('2023-01-01'), new Date('2023-06-30'), 'usd')).resolves.toEqual(points);
+  });
+
+  it('does not serve a shorter saved range for a longer one', async () => {
+    online();
+    await fetchPriceRange('bitcoin', new Date('2023-01-01'), new Date('2023-06-30'), 'usd');
+    offline();
+    await expect(fetchPriceRange('bitcoin', new Date('2023-01-01'), new Date('2023-12-31'), 'usd')).rejects.toThrow();
+  });
+
+  it('serves a range ending today from one saved on an earlier day', async () => {
+    online();
+    await fetchPriceRange('bitcoin', new Date('2023-01-01'), new Date(), 'usd');
+    vi.setSystemTime(Date.UTC(2024, 5, 16, 12));
+    offline();
+    await expect(fetchPriceRange('bitcoin', new Date('2023-01-01'), new Date(), 'usd')).resolves.toEqual(points);
+  });
+});
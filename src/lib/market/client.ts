@@ -0,0 +1,166 @@
+import axios from 'axios';
+import { CoinListItem, PricePoint, SpotPrice } from './types';
+import { MarketRequestError } from './errors';
+import { readOffline, writeOffline } from './offlineCache';
+import { backoffDelay, parseRetryAfter, retryWithBackoff } from './retry';
+import { priceAt } from '../historical';
+
+// Browser-side access to the /api/market routes. Components should use these
+// instead of calling a market data vendor directly. Every response is saved
+// for offline use; when a request fails the saved copy is returned instead and
+// marked stale, and only when there is none does the call reject with a
+// MarketRequestError. Prices can be quoted in another coin by passing its id
+// as `vs`.
+
+export interface Freshness {
+  // When the data was fetched from the server
+  asOf: number;
+  // Served from the offline cache because the server could not be reached
+  stale: boolean;
+}
+
+export type Quote = SpotPrice & Freshness;
+
+type StaleListener = (asOf: number) => void;
+
+// Longer waits fall back to cached data rather than leaving the page hanging
+const MAX_RETRY_WAIT_MS = 10000;
+
+const staleListeners = new Set<StaleListener>();
+
+// Notified whenever cached data is served in place of a failed request
+export const onStaleData = (listener: StaleListener) => {
+  staleListeners.add(listener);
+  return () => {
+    staleListeners.delete(listener);
+  };
+};
+
+const formatDateParam = (date: Date) => date.toISOString().slice(0, 10);
+
+const toRequestError = (error: unknown): MarketRequestError => {
+  if (axios.isAxiosError(error) && error.response) {
+    const status = error.response.status;
+    const message = (error.response.data as { error?: string } | undefined)?.error;
+    if (status === 429) {
+      const retryAfter = parseRetryAfter(error.response.headers['retry-after']) ?? undefined;
+      return new MarketRequestError(
+        'rate-limited',
+        `The price service is rate limiting requests. Please try again in ${retryAfter !== undefined ? `${retryAfter} seconds` : 'a minute'}.`,
+        retryAfter
+      );
+    }
+    if (status === 404) {
+      return new MarketRequestError('not-found', message || 'No market data was found for this coin.');
+    }
+    if (status === 400) {
+      return new MarketRequestError('invalid-request', message || 'The market data request was invalid.');
+    }
+    return new MarketRequestError('unavailable', 'The price service is unavailable right now. Please try again in a few minutes.');
+  }
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return new MarketRequestError('offline', 'You are offline and this data has not been saved for offline use yet.');
+  }
+  return new MarketRequestError('offline', 'Could not reach the server. Please check your connection.');
+};
+
+const retryDelay = (error: unknown, attempt: number): number | null => {
+  if (!(error instanceof MarketRequestError)) return null;
+  if (error.kind === 'rate-limited') {
+    const delay = error.retryAfterSeconds !== undefined ? error.retryAfterSeconds * 1000 : backoffDelay(attempt);
+    return delay <= MAX_RETRY_WAIT_MS ? delay : null;
+  }
+  return error.kind === 'unavailable' ? backoffDelay(attempt) : null;
+};
+
+const getMarketData = async <T>(
+  url: string,
+  params: Record<string, string> = {},
+  cacheKey = `${url}?${new URLSearchParams(params)}`
+): Promise<{ data: T } & Freshness> => {
+  try {
+    const data = await retryWithBackoff(async () => {
+      try {
+        return (await axios.get<T>(url, { params })).data;
+      } catch (error) {
+        throw toRequestError(error);
+      }
+    }, retryDelay);
+    const asOf = Date.now();
+    writeOffline(cacheKey, data, asOf);
+    return { data, asOf, stale: false };
+  } catch (error) {
+    // Old data can't answer a request the server rejected outright
+    if (error instanceof MarketRequestError && (error.kind === 'not-found' || error.kind === 'invalid-request')) {
+      throw error;
+    }
+    const cached = await readOffline<T>(cacheKey);
+    if (!cached) throw error;
+    staleListeners.forEach(listener => listener(cached.fetchedAt));
+    return { data: cached.data, asOf: cached.fetchedAt, stale: true };
+  }
+};
+
+export const fetchCoinList = async (): Promise<CoinListItem[]> => {
+  const { data } = await getMarketData<CoinListItem[]>('/api/market/coins');
+  return data;
+};
+
+export const fetchCoinByContract = async (chain: string, address: string): Promise<CoinListItem> => {
+  const { data } = await getMarketData<CoinListItem>('/api/market/contract', { chain, address });
+  return data;
+};
+
+export const fetchSpotPrice = async (id: string, vs: string): Promise<Quote> => {
+  const { data, asOf, stale } = await getMarketData<SpotPrice>('/api/market/price', { id, vs });
+  return { ...data, asOf, stale };
+};
+
+export const fetchSpotPrices = async (ids: string[], vs: string): Promise<Quote[]> => {
+  if (ids.length === 0) {
+    return [];
+  }
+  const { data, asOf, stale } = await getMarketData<SpotPrice[]>('/api/market/prices', { ids: ids.join(','), vs });
+  return data.map(price => ({ ...price, asOf, stale }));
+};
+
+export const fetchPriceAtDate = async (id: string, date: Date, vs: string): Promise<number | null> => {
+  const { data } = await getMarketData<{ price: number | null }>('/api/market/history', {
+    id,
+    date: formatDateParam(date),
+    vs,
+  });
+  return data.price;
+};
+
+// The offline copy is keyed by the end date, so a saved range is never served
+// cut short for a longer one. Ranges ending today share one 'latest' key: a
+// copy saved on an earlier day still answers them, and the offline banner
+// says how old it is.
+export const fetchPriceRange = async (id: string, from: Date, to: Date, vs: string): Promise<PricePoint[]> => {
+  const params = { id, from: formatDateParam(from), to: formatDateParam(to), vs };
+  const end = params.to >= formatDateParam(new Date()) ? 'latest' : params.to;
+  const { data } = await getMarketData<PricePoint[]>(
+    '/api/market/range',
+    params,
+    `/api/market/range?${new URLSearchParams({ id, from: params.from, to: end, vs })}`
+  );
+  return data;
+};
+
+// Price at an exact moment, interpolated from that day's intraday points.
+// Providers without intraday data fall back to the daily price.
+export const fetchPriceAtTime = async (id: string, at: Date, vs: string): Promise<number | null> => {
+  const day = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+  const points = await fetchPriceRange(id, day, day, vs);
+  if (points.length > 0 && at.getTime() >= points[0].timestamp) {
+    return priceAt(points, at.getTime());
+  }
+  return fetchPriceAtDate(id, at, vs);
+};
+
+// Units of `vs` per US dollar
+export const fetchFiatRate = async (vs: string): Promise<number> => {
+  const { data } = await getMarketData<{ rate: number }>('/api/market/fx', { vs });
+  return data.rate;
+};
@@ -0,0 +1,198 @@
+import axios, { AxiosInstance } from 'axios';
+import { isMarketDataError, MarketDataError } from './errors';
+import { backoffDelay, parseRetryAfter, retryWithBackoff } from './retry';
+import { CoinListItem, MarketDataProvider, PricePoint, SpotPrice } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.coingecko.com/api/v3';
+
+// The crypto entries of /simple/supported_vs_currencies
+const CRYPTO_QUOTES: Record<string, string> = {
+  bitcoin: 'btc',
+  ethereum: 'eth',
+  litecoin: 'ltc',
+  'bitcoin-cash': 'bch',
+  binancecoin: 'bnb',
+  eos: 'eos',
+  ripple: 'xrp',
+  stellar: 'xlm',
+  chainlink: 'link',
+  polkadot: 'dot',
+  'yearn-finance': 'yfi',
+};
+
+// CoinGecko's /history endpoint expects DD-MM-YYYY
+const formatHistoryDate = (date: Date) => {
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}-${month}-${date.getUTCFullYear()}`;
+};
+
+const toUnixSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+const MAX_RETRY_WAIT_MS = 5000;
+// /coins/markets returns at most 250 coins per page
+const MARKETS_PAGE_SIZE = 250;
+// Ranked pages fetched for logos and market-cap order; the rest of the
+// catalog comes from /coins/list in a single request
+const RANKED_PAGES = 4;
+
+export class CoinGeckoProvider implements MarketDataProvider {
+  readonly name = 'coingecko';
+  readonly cryptoQuotes = CRYPTO_QUOTES;
+  private client: AxiosInstance;
+
+  constructor(baseURL: string = DEFAULT_BASE_URL, apiKey?: string) {
+    this.client = axios.create({
+      baseURL,
+      timeout: 15000,
+      headers: apiKey ? { 'x-cg-demo-api-key': apiKey } : undefined,
+    });
+  }
+
+  async getCoinList(): Promise<CoinListItem[]> {
+    const ranked: CoinListItem[] = [];
+    for (let page = 1; page <= RANKED_PAGES; page++) {
+      const data = await this.get<any[]>('/coins/markets', {
+        vs_currency: 'usd',
+        order: 'market_cap_desc',
+        per_page: MARKETS_PAGE_SIZE,
+        page,
+        sparkline: false,
+      });
+      ranked.push(...data.map(crypto => ({
+        id: crypto.id,
+        name: crypto.name,
+        symbol: crypto.symbol.toUpperCase(),
+        market_cap_rank: crypto.market_cap_rank ?? undefined,
+        image: crypto.image || undefined,
+      })));
+      if (data.length < MARKETS_PAGE_SIZE) break;
+    }
+
+    const rankedIds = new Set(ranked.map(coin => coin.id));
+    const catalog = await this.get<{ id: string; name: string; symbol: string }[]>('/coins/list', {});
+    return [
+      ...ranked,
+      ...catalog
+        .filter(coin => !rankedIds.has(coin.id))
+        .map(coin => ({ id: coin.id, name: coin.name, symbol: coin.symbol.toUpperCase() })),
+    ];
+  }
+
+  async getCoinByContract(chain: string, address: string): Promise<CoinListItem> {
+    const data = await this.get<any>(
+      `/coins/${encodeURIComponent(chain)}/contract/${encodeURIComponent(address)}`,
+      {}
+    );
+    return {
+      id: data.id,
+      name: data.name,
+      symbol: String(data.symbol).toUpperCase(),
+      market_cap_rank: data.market_cap_rank ?? undefined,
+      image: data.image?.small || data.image?.thumb || undefined,
+    };
+  }
+
+  async getSpotPrice(id: string, vsCurrency: string): Promise<SpotPrice> {
+    const data = await this.get<Record<string, any>>('/simple/price', {
+      ids: id,
+      vs_currencies: vsCurrency,
+      include_24hr_change: true,
+    });
+    const entry = data[id];
+    if (!entry || typeof entry[vsCurrency] !== 'number') {
+      throw new MarketDataError(`Unknown coin: ${id}`, 404);
+    }
+    return {
+      id,
+      price: entry[vsCurrency],
+      change24h: entry[`${vsCurrency}_24h_change`] ?? undefined,
+    };
+  }
+
+  async getSpotPrices(ids: string[], vsCurrency: string): Promise<SpotPrice[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const data = await this.get<Record<string, any>>('/simple/price', {
+      ids: ids.join(','),
+      vs_currencies: vsCurrency,
+      include_24hr_change: true,
+    });
+    return ids
+      .filter(id => data[id] && typeof data[id][vsCurrency] === 'number')
+      .map(id => ({
+        id,
+        price: data[id][vsCurrency],
+        change24h: data[id][`${vsCurrency}_24h_change`] ?? undefined,
+      }));
+  }
+
+  async getPriceAtDate(id: string, date: Date, vsCurrency: string): Promise<number | null> {
+    const data = await this.get<any>(`/coins/${encodeURIComponent(id)}/history`, {
+      date: formatHistoryDate(date),
+      localization: false,
+    });
+    return data.market_data?.current_price?.[vsCurrency] ?? null;
+  }
+
+  async getPriceRange(id: string, from: Date, to: Date, vsCurrency: string): Promise<PricePoint[]> {
+    const data = await this.get<{ prices: [number, number][] }>(
+      `/coins/${encodeURIComponent(id)}/market_chart/range`,
+      {
+        vs_currency: vsCurrency,
+        from: toUnixSeconds(from),
+        to: toUnixSeconds(to),
+      }
+    );
+    return (data.prices || []).map(([timestamp, price]) => ({ timestamp, price }));
+  }
+
+  // /exchange_rates is quoted against BTC, so divide out the USD leg
+  async getFiatRate(vsCurrency: string): Promise<number> {
+    const data = await this.get<{ rates: Record<string, { value: number }> }>('/exchange_rates', {});
+    const target = data.rates[vsCurrency]?.value;
+    const usd = data.rates.usd?.value;
+    if (!target || !usd) {
+      throw new MarketDataError(`Unsupported currency: ${vsCurrency}`, 400);
+    }
+    return target / usd;
+  }
+
+  // Rate limits are retried a few times, waiting as long as CoinGecko asks
+  // unless that is longer than a route handler should hang
+  private get<T>(url: string, params: Record<string, unknown>): Promise<T> {
+    return retryWithBackoff(
+      () => this.request<T>(url, params),
+      (error, attempt) => {
+        if (!isMarketDataError(error) || error.status !== 429) return null;
+        const delay = error.retryAfterSeconds !== undefined ? error.retryAfterSeconds * 1000 : backoffDelay(attempt);
+        return delay <= MAX_RETRY_WAIT_MS ? delay : null;
+      },
+      2
+    );
+  }
+
+  private async request<T>(url: string, params: Record<string, unknown>): Promise<T> {
+    try {
+      const response = await this.client.get<T>(url, { params });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        const status = error.response.status;
+        if (status === 404) {
+          throw new MarketDataError('Coin not found', 404);
+        }
+        if (status === 429) {
+          throw new MarketDataError(
+            'CoinGecko rate limit reached, please try again shortly',
+            429,
+            parseRetryAfter(error.response.headers['retry-after']) ?? undefined
+          );
+        }
+        throw new MarketDataError(`CoinGecko request failed with status ${status}`);
+      }
+      throw new MarketDataError('CoinGecko is unreachable');
+    }
+  }
+}
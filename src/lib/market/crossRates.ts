@@ -0,0 +1,100 @@
+import { MarketDataError } from './errors';
+import { CoinListItem, MarketDataProvider, PricePoint, SpotPrice } from './types';
+import { isSupportedCurrency } from '../currency';
+import { priceAt } from '../historical';
+
+// Lets `vsCurrency` be a coin id as well as a fiat code, so any coin can be
+// priced in BTC, ETH, a stablecoin or any other coin. Pairs the wrapped
+// provider quotes directly are passed through; every other pair is the cross
+// rate of both coins' prices in the pivot currency.
+
+const PIVOT_CURRENCY = 'usd';
+
+const crossChange = (base?: number, quote?: number) =>
+  base === undefined || quote === undefined ? undefined : ((1 + base / 100) / (1 + quote / 100) - 1) * 100;
+
+export class CrossRateMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+  readonly cryptoQuotes: Record<string, string>;
+
+  constructor(private readonly provider: MarketDataProvider) {
+    this.name = provider.name;
+    this.cryptoQuotes = provider.cryptoQuotes;
+  }
+
+  getCoinList(): Promise<CoinListItem[]> {
+    return this.provider.getCoinList();
+  }
+
+  getCoinByContract(chain: string, address: string): Promise<CoinListItem> {
+    return this.provider.getCoinByContract(chain, address);
+  }
+
+  async getSpotPrice(id: string, vsCurrency: string): Promise<SpotPrice> {
+    const direct = this.directCode(vsCurrency);
+    if (direct) return this.provider.getSpotPrice(id, direct);
+    if (id === vsCurrency) return { id, price: 1, change24h: 0 };
+
+    const [price] = await this.getSpotPrices([id], vsCurrency);
+    if (!price) {
+      throw new MarketDataError(`Unknown coin: ${id}`, 404);
+    }
+    return price;
+  }
+
+  async getSpotPrices(ids: string[], vsCurrency: string): Promise<SpotPrice[]> {
+    const direct = this.directCode(vsCurrency);
+    if (direct) return this.provider.getSpotPrices(ids, direct);
+
+    const prices = await this.provider.getSpotPrices(Array.from(new Set([...ids, vsCurrency])), PIVOT_CURRENCY);
+    const quote = prices.find(price => price.id === vsCurrency);
+    if (!quote || !(quote.price > 0)) {
+      throw new MarketDataError(`Unknown quote asset: ${vsCurrency}`, 404);
+    }
+    return ids
+      .map(id => prices.find(price => price.id === id))
+      .filter((price): price is SpotPrice => price !== undefined)
+      .map(price => ({
+        id: price.id,
+        price: price.price / quote.price,
+        change24h: crossChange(price.change24h, quote.change24h),
+      }));
+  }
+
+  async getPriceAtDate(id: string, date: Date, vsCurrency: string): Promise<number | null> {
+    const direct = this.directCode(vsCurrency);
+    if (direct) return this.provider.getPriceAtDate(id, date, direct);
+
+    const [base, quote] = await Promise.all([
+      this.provider.getPriceAtDate(id, date, PIVOT_CURRENCY),
+      this.provider.getPriceAtDate(vsCurrency, date, PIVOT_CURRENCY),
+    ]);
+    return base === null || quote === null || !(quote > 0) ? null : base / quote;
+  }
+
+  // Each of the coin's points is divided by the quote's price at the same
+  // moment, interpolated between the quote's own points
+  async getPriceRange(id: string, from: Date, to: Date, vsCurrency: string): Promise<PricePoint[]> {
+    const direct = this.directCode(vsCurrency);
+    if (direct) return this.provider.getPriceRange(id, from, to, direct);
+
+    const [base, quote] = await Promise.all([
+      this.provider.getPriceRange(id, from, to, PIVOT_CURRENCY),
+      this.provider.getPriceRange(vsCurrency, from, to, PIVOT_CURRENCY),
+    ]);
+    return base
+      .map(point => ({ point, quotePrice: priceAt(quote, point.timestamp) }))
+      .filter(({ quotePrice }) => quotePrice !== null && quotePrice > 0)
+      .map(({ point, quotePrice }) => ({ timestamp: point.timestamp, price: point.price / quotePrice }));
+  }
+
+  getFiatRate(vsCurrency: string): Promise<number> {
+    return this.provider.getFiatRate(vsCurrency);
+  }
+
+  // Null when the pair has to be crossed; fiat codes always go straight through
+  private directCode(vsCurrency: string): string | null {
+    if (isSupportedCurrency(vsCurrency)) return vsCurrency;
+    return this.cryptoQuotes[vsCurrency] ?? null;
+  }
+}
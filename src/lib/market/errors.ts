@@ -0,0 +1,32 @@
+export class MarketDataError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 502,
+    // Seconds the upstream asked us to wait before retrying, for 429s
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+export const isMarketDataError = (error: unknown): error is MarketDataError =>
+  error instanceof MarketDataError;
+
+export type MarketErrorKind = 'offline' | 'rate-limited' | 'not-found' | 'invalid-request' | 'unavailable';
+
+// Thrown by the browser client when a request fails and there is no cached
+// copy to fall back to. The message is meant to be shown to the user.
+export class MarketRequestError extends Error {
+  constructor(
+    public readonly kind: MarketErrorKind,
+    message: string,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'MarketRequestError';
+  }
+}
+
+export const describeMarketError = (error: unknown, fallback = 'Failed to load market data. Please try again.') =>
+  error instanceof MarketRequestError ? error.message : fallback;
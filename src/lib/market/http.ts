@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { MarketDataError, isMarketDataError } from './errors';
+import { DEFAULT_CURRENCY, isSupportedCurrency } from '../currency';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COIN_ID_PATTERN = /^[a-z0-9][a-z0-9.-]*$/;
+
+export const requireParam = (params: URLSearchParams, name: string): string => {
+  const value = params.get(name);
+  if (!value) {
+    throw new MarketDataError(`Missing required query parameter: ${name}`, 400);
+  }
+  return value;
+};
+
+// Accepts YYYY-MM-DD and interprets it as midnight UTC
+export const parseDateParam = (params: URLSearchParams, name: string): Date => {
+  const value = requireParam(params, name);
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!DATE_PATTERN.test(value) || isNaN(date.getTime())) {
+    throw new MarketDataError(`Invalid date for ${name}, expected YYYY-MM-DD`, 400);
+  }
+  return date;
+};
+
+// Optional `vs` parameter, defaulting to USD
+export const parseCurrencyParam = (params: URLSearchParams): string => {
+  const value = (params.get('vs') || DEFAULT_CURRENCY).toLowerCase();
+  if (!isSupportedCurrency(value)) {
+    throw new MarketDataError(`Unsupported currency: ${value}`, 400);
+  }
+  return value;
+};
+
+// Optional `vs` parameter that may also be a coin id, for prices quoted in
+// another coin
+export const parseQuoteParam = (params: URLSearchParams): string => {
+  const value = (params.get('vs') || DEFAULT_CURRENCY).toLowerCase();
+  if (!isSupportedCurrency(value) && !COIN_ID_PATTERN.test(value)) {
+    throw new MarketDataError(`Unsupported currency: ${value}`, 400);
+  }
+  return value;
+};
+
+export const errorResponse = (error: unknown) => {
+  if (isMarketDataError(error)) {
+    const headers = error.retryAfterSeconds !== undefined ? { 'Retry-After': String(error.retryAfterSeconds) } : undefined;
+    return NextResponse.json({ error: error.message }, { status: error.status, headers });
+  }
+  console.error('Market data route failed:', error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+};
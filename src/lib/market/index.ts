@@ -0,0 +1,33 @@
+import { CachedMarketDataProvider } from './cached';
+import { CoinGeckoProvider } from './coingecko';
+import { CrossRateMarketDataProvider } from './crossRates';
+import { LocalProvider } from './local';
+import { MarketDataProvider } from './types';
+
+export * from './types';
+export { MarketDataError, isMarketDataError } from './errors';
+
+let provider: MarketDataProvider | null = null;
+
+const createProvider = (): MarketDataProvider => {
+  switch (process.env.MARKET_DATA_PROVIDER) {
+    case 'local':
+      return new LocalProvider();
+    case 'coingecko':
+    case undefined:
+    case '':
+      return new CoinGeckoProvider(process.env.COINGECKO_API_URL || undefined, process.env.COINGECKO_API_KEY);
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER: ${process.env.MARKET_DATA_PROVIDER}`);
+  }
+};
+
+// Server-side only: the provider instance (and its cache) is shared by every
+// request handled by this process. Cross rates sit outside the cache so they
+// are built from cached pivot prices.
+export const getMarketDataProvider = (): MarketDataProvider => {
+  if (!provider) {
+    provider = new CrossRateMarketDataProvider(new CachedMarketDataProvider(createProvider()));
+  }
+  return provider;
+};
@@ -0,0 +1,103 @@
+import coinsFixture from './fixtures/coins.json';
+import historyFixture from './fixtures/history.json';
+import fxFixture from './fixtures/fx.json';
+import { MarketDataError } from './errors';
+import { CoinListItem, MarketDataProvider, PricePoint, SpotPrice } from './types';
+
+interface FixtureCoin extends CoinListItem {
+  price: number;
+  change24h?: number;
+  // Token contract address by chain
+  platforms?: Record<string, string>;
+}
+
+const coins = coinsFixture as FixtureCoin[];
+const history = historyFixture as unknown as Record<string, [string, number][]>;
+const fx = fxFixture as Record<string, number>;
+
+// Offline provider backed by the bundled fixtures. The history fixture is
+// sparse, so prices between two points are linearly interpolated and the
+// fixture's spot price is used as the latest point. All fixture prices are in
+// USD and converted with the static rates in fx.json.
+export class LocalProvider implements MarketDataProvider {
+  readonly name = 'local';
+  // Fixture prices are USD only, so every crypto pair is a cross rate
+  readonly cryptoQuotes: Record<string, string> = {};
+
+  async getCoinList(): Promise<CoinListItem[]> {
+    return coins.map(({ id, name, symbol, market_cap_rank }) => ({
+      id,
+      name,
+      symbol: symbol.toUpperCase(),
+      market_cap_rank,
+    }));
+  }
+
+  async getCoinByContract(chain: string, address: string): Promise<CoinListItem> {
+    const coin = coins.find(c => c.platforms?.[chain]?.toLowerCase() === address.toLowerCase());
+    if (!coin) {
+      throw new MarketDataError(`No coin found for contract ${address} on ${chain}`, 404);
+    }
+    return { id: coin.id, name: coin.name, symbol: coin.symbol.toUpperCase(), market_cap_rank: coin.market_cap_rank };
+  }
+
+  async getSpotPrice(id: string, vsCurrency: string): Promise<SpotPrice> {
+    const coin = this.findCoin(id);
+    return { id, price: coin.price * (await this.getFiatRate(vsCurrency)), change24h: coin.change24h };
+  }
+
+  async getSpotPrices(ids: string[], vsCurrency: string): Promise<SpotPrice[]> {
+    const rate = await this.getFiatRate(vsCurrency);
+    return coins
+      .filter(coin => ids.includes(coin.id))
+      .map(coin => ({ id: coin.id, price: coin.price * rate, change24h: coin.change24h }));
+  }
+
+  async getPriceAtDate(id: string, date: Date, vsCurrency: string): Promise<number | null> {
+    const series = this.series(id, await this.getFiatRate(vsCurrency));
+    const time = date.getTime();
+    if (series.length === 0 || time < series[0].timestamp || time > series[series.length - 1].timestamp) {
+      return null;
+    }
+
+    const nextIndex = series.findIndex(point => point.timestamp >= time);
+    const next = series[nextIndex];
+    if (next.timestamp === time || nextIndex === 0) {
+      return next.price;
+    }
+    const previous = series[nextIndex - 1];
+    const ratio = (time - previous.timestamp) / (next.timestamp - previous.timestamp);
+    return previous.price + (next.price - previous.price) * ratio;
+  }
+
+  async getPriceRange(id: string, from: Date, to: Date, vsCurrency: string): Promise<PricePoint[]> {
+    return this.series(id, await this.getFiatRate(vsCurrency)).filter(
+      point => point.timestamp >= from.getTime() && point.timestamp <= to.getTime()
+    );
+  }
+
+  async getFiatRate(vsCurrency: string): Promise<number> {
+    const rate = fx[vsCurrency];
+    if (!rate) {
+      throw new MarketDataError(`Unsupported currency: ${vsCurrency}`, 400);
+    }
+    return rate;
+  }
+
+  private findCoin(id: string): FixtureCoin {
+    const coin = coins.find(c => c.id === id);
+    if (!coin) {
+      throw new MarketDataError(`Unknown coin: ${id}`, 404);
+    }
+    return coin;
+  }
+
+  private series(id: string, rate: number): PricePoint[] {
+    const coin = this.findCoin(id);
+    const points = (history[id] || []).map(([date, price]) => ({
+      timestamp: Date.parse(`${date}T00:00:00Z`),
+      price: price * rate,
+    }));
+    return [...points, { timestamp: Date.now(), price: coin.price * rate }];
+  }
+}
@@ -0,0 +1,60 @@
+// Last successful market data responses, kept in IndexedDB so the pages can
+// fall back to them when offline or rate limited. The cache is best effort:
+// failures (SSR, private browsing, quota) are a cache miss, and a request that
+// then has nothing to fall back on reports its own error.
+
+const DB_NAME = 'crypto-profit-calculator';
+const DB_VERSION = 1;
+const STORE = 'market-data';
+
+export interface OfflineEntry<T> {
+  key: string;
+  data: T;
+  // When the data was fetched from the server
+  fetchedAt: number;
+}
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  if (!database) {
+    database = new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return database;
+};
+
+const runRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const readOffline = async <T>(key: string): Promise<OfflineEntry<T> | null> => {
+  try {
+    const db = await openDatabase();
+    if (!db) return null;
+    const entry = await runRequest(db.transaction(STORE, 'readonly').objectStore(STORE).get(key));
+    return (entry as OfflineEntry<T> | undefined) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeOffline = async <T>(key: string, data: T, fetchedAt: number = Date.now()) => {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const entry: OfflineEntry<T> = { key, data, fetchedAt };
+    await runRequest(db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry));
+  } catch {
+    // Only the offline copy is missing; the fresh data is still returned
+  }
+};
@@ -0,0 +1,39 @@
+// Retry helpers shared by the server-side provider and the browser client.
+// Rate-limited responses are retried after the delay the server asks for in
+// `Retry-After`; other transient failures back off exponentially.
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date. Returns seconds,
+// or null when the header is missing or malformed.
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - now) / 1000));
+};
+
+// 1s, 2s, 4s, ... capped at `maxMs`, with up to 20% jitter so clients that
+// failed together don't retry together
+export const backoffDelay = (attempt: number, baseMs = 1000, maxMs = 30000) =>
+  Math.min(maxMs, Math.round(baseMs * Math.pow(2, attempt) * (1 + Math.random() * 0.2)));
+
+// Runs `operation` until it succeeds or `retryDelay` returns null for the
+// error, waiting the returned number of milliseconds between attempts
+export const retryWithBackoff = async <T>(
+  operation: () => Promise<T>,
+  retryDelay: (error: unknown, attempt: number) => number | null,
+  maxRetries = 3
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const delay = attempt < maxRetries ? retryDelay(error, attempt) : null;
+      if (delay === null) throw error;
+      await sleep(delay);
+    }
+  }
+};
@@ -0,0 +1,40 @@
+export interface CoinListItem {
+  id: string;
+  name: string;
+  symbol: string;
+  market_cap_rank?: number;
+  // Logo URL, when the provider has one
+  image?: string;
+}
+
+export interface SpotPrice {
+  id: string;
+  price: number;
+  change24h?: number;
+}
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+// Prices are quoted in `vsCurrency`, a lower-case fiat code such as 'usd'.
+// Behind getMarketDataProvider() it may also be a coin id (see crossRates.ts).
+export interface MarketDataProvider {
+  readonly name: string;
+  // Coins the provider can quote prices in directly, mapped to the
+  // `vsCurrency` code it expects for them
+  readonly cryptoQuotes: Record<string, string>;
+  // The whole catalog, ranked coins first
+  getCoinList(): Promise<CoinListItem[]>;
+  // The coin for a token contract on a chain (a CoinGecko asset platform id)
+  getCoinByContract(chain: string, address: string): Promise<CoinListItem>;
+  getSpotPrice(id: string, vsCurrency: string): Promise<SpotPrice>;
+  // Batch lookup; unknown ids are left out of the result rather than failing
+  getSpotPrices(ids: string[], vsCurrency: string): Promise<SpotPrice[]>;
+  // Resolves to null when the provider has no price for the coin on that day
+  getPriceAtDate(id: string, date: Date, vsCurrency: string): Promise<number | null>;
+  getPriceRange(id: string, from: Date, to: Date, vsCurrency: string): Promise<PricePoint[]>;
+  // Units of `vsCurrency` per US dollar
+  getFiatRate(vsCurrency: string): Promise<number>;
+}
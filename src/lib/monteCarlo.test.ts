@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_RETURNS, returnStatistics, simulatePrices, SimulationParams } from './monteCarlo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily closes alternating up 3% and down 2%
+const history = (days: number) => {
+  let price = 100;
+  return Array.from({ length: days }, (_, day) => {
+    if (day > 0) price *= day % 2 === 0 ? 1.03 : 0.98;
+    return { timestamp: Date.UTC(2024, 0, 1) + day * DAY_MS, price };
+  });
+};
+
+const statistics = returnStatistics(history(60))!;
+
+const params: SimulationParams = {
+  model: 'gbm',
+  startPrice: 100,
+  targetPrice: 110,
+  breakevenPrice: 95,
+  horizonDays: 30,
+  paths: 2000,
+  seed: 42,
+};
+
+describe('returnStatistics', () => {
+  it('needs at least MIN_RETURNS returns', () => {
+    expect(returnStatistics(history(MIN_RETURNS))).toBeNull();
+    expect(returnStatistics(history(MIN_RETURNS + 1))?.returns).toHaveLength(MIN_RETURNS);
+  });
+});
+
+describe('simulatePrices', () => {
+  it('gives identical results for the same seed and inputs', () => {
+    expect(simulatePrices(statistics, params)).toEqual(simulatePrices(statistics, params));
+  });
+
+  it('gives different results for a different seed', () => {
+    const first = simulatePrices(statistics, params);
+    const second = simulatePrices(statistics, { ...params, seed: 43 });
+    expect(second.finalPrices).not.toEqual(first.finalPrices);
+    expect(second.probabilityTouchTarget).not.toBe(first.probabilityTouchTarget);
+  });
+
+  it('bootstraps only from the observed returns', () => {
+    // 101 paths put every percentile on a path rather than between two
+    const bootstrap = { ...params, model: 'bootstrap' as const, horizonDays: 1, paths: 101 };
+    expect(simulatePrices(statistics, bootstrap)).toEqual(simulatePrices(statistics, bootstrap));
+
+    // After one day every path ends at the start price times one observed return
+    const observed = new Set(statistics.returns.map(r => (100 * Math.exp(r)).toFixed(8)));
+    simulatePrices(statistics, bootstrap).finalPrices.forEach(({ price }) => {
+      expect(observed.has(price.toFixed(8))).toBe(true);
+    });
+  });
+});
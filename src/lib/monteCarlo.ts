@@ -0,0 +1,148 @@
+import { PricePoint } from './market/types';
+
+// Monte Carlo price paths for the probability of reaching a target. Daily log
+// returns are either drawn from a normal distribution with the coin's
+// historical drift and volatility (geometric Brownian motion) or resampled
+// from the historical returns themselves (bootstrap), which keeps their fat
+// tails. Every draw comes from a seeded generator, so the same inputs and seed
+// always give the same result.
+
+export type SimulationModel = 'gbm' | 'bootstrap';
+
+export const SIMULATION_MODELS: { value: SimulationModel; label: string }[] = [
+  { value: 'gbm', label: 'Geometric Brownian motion' },
+  { value: 'bootstrap', label: 'Bootstrapped historical returns' },
+];
+
+export const FINAL_PERCENTILES = [5, 25, 50, 75, 95];
+
+// Crypto trades every day, so a year is 365 daily returns
+const DAYS_PER_YEAR = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Fewer returns than this say too little about the coin's volatility
+export const MIN_RETURNS = 20;
+
+export interface ReturnStatistics {
+  // Daily-equivalent log returns, one per interval between prices
+  returns: number[];
+  // Mean and standard deviation of the daily log return
+  drift: number;
+  volatility: number;
+}
+
+export interface SimulationParams {
+  model: SimulationModel;
+  startPrice: number;
+  targetPrice: number;
+  breakevenPrice: number;
+  horizonDays: number;
+  paths: number;
+  seed: number;
+}
+
+export interface SimulationResult {
+  // Share of paths whose daily close reaches the target at any point
+  probabilityTouchTarget: number;
+  // Share of paths that end below the breakeven price
+  probabilityBelowBreakeven: number;
+  finalPrices: { percentile: number; price: number }[];
+  // Yearly drift and volatility of the log returns used, in percent
+  annualDrift: number;
+  annualVolatility: number;
+}
+
+// Mulberry32: small, fast and good enough for simulation; not for anything
+// that needs to be unpredictable
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Box-Muller transform; 1 - u keeps the logarithm away from zero
+const standardNormal = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+// One price per UTC day, the last one seen that day
+const dailyCloses = (points: PricePoint[]): { day: number; price: number }[] => {
+  const closes = new Map<number, number>();
+  [...points]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .filter(point => point.price > 0)
+    .forEach(point => closes.set(Math.floor(point.timestamp / DAY_MS), point.price));
+  return Array.from(closes, ([day, price]) => ({ day, price }));
+};
+
+// Gaps between prices (sparse history, missing days) are spread evenly: a
+// g-day return adds g days of drift and sqrt(g) days of volatility, so each
+// one is scaled back to a daily-equivalent return around the drift
+export const returnStatistics = (points: PricePoint[]): ReturnStatistics | null => {
+  const closes = dailyCloses(points);
+  const intervals = closes.slice(1).map((close, index) => ({
+    logReturn: Math.log(close.price / closes[index].price),
+    days: close.day - closes[index].day,
+  }));
+  if (intervals.length < MIN_RETURNS) return null;
+
+  const totalDays = intervals.reduce((sum, interval) => sum + interval.days, 0);
+  const drift = intervals.reduce((sum, interval) => sum + interval.logReturn, 0) / totalDays;
+  const residuals = intervals.map(({ logReturn, days }) => (logReturn - drift * days) / Math.sqrt(days));
+  const variance = residuals.reduce((sum, residual) => sum + residual * residual, 0) / (residuals.length - 1);
+
+  return {
+    returns: residuals.map(residual => drift + residual),
+    drift,
+    volatility: Math.sqrt(variance),
+  };
+};
+
+const percentileOf = (sorted: Float64Array, percentile: number) => {
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const simulatePrices = (statistics: ReturnStatistics, params: SimulationParams): SimulationResult => {
+  const random = createRandom(params.seed);
+  const { returns, drift, volatility } = statistics;
+  const horizon = Math.max(1, Math.round(params.horizonDays));
+  const paths = Math.max(1, Math.round(params.paths));
+  // A target below today's price is reached by falling to it
+  const targetAbove = params.targetPrice >= params.startPrice;
+  const logTarget = Math.log(params.targetPrice);
+  const logStart = Math.log(params.startPrice);
+
+  const finals = new Float64Array(paths);
+  let touched = 0;
+  let belowBreakeven = 0;
+
+  for (let path = 0; path < paths; path++) {
+    let logPrice = logStart;
+    let hit = targetAbove ? logPrice >= logTarget : logPrice <= logTarget;
+    for (let day = 0; day < horizon; day++) {
+      logPrice += params.model === 'bootstrap'
+        ? returns[Math.floor(random() * returns.length)]
+        : drift + volatility * standardNormal(random);
+      if (!hit && (targetAbove ? logPrice >= logTarget : logPrice <= logTarget)) hit = true;
+    }
+    const finalPrice = Math.exp(logPrice);
+    finals[path] = finalPrice;
+    if (hit) touched++;
+    if (finalPrice < params.breakevenPrice) belowBreakeven++;
+  }
+
+  finals.sort();
+  return {
+    probabilityTouchTarget: (touched / paths) * 100,
+    probabilityBelowBreakeven: (belowBreakeven / paths) * 100,
+    finalPrices: FINAL_PERCENTILES.map(percentile => ({ percentile, price: percentileOf(finals, percentile) })),
+    annualDrift: drift * DAYS_PER_YEAR * 100,
+    annualVolatility: volatility * Math.sqrt(DAYS_PER_YEAR) * 100,
+  };
+};
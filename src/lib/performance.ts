@@ -0,0 +1,83 @@
+import { PricePoint } from './market/types';
+import { annualizedReturn, divide } from './calculation';
+
+// Return and risk figures for holding an asset over a period, from prices
+// sampled at month ends. Shared by the coin and the benchmarks it is compared
+// against so every asset is measured the same way.
+
+export type ValueAt = (timestamp: number) => number | null;
+
+export interface PerformanceStats {
+  multiplier: number | null;
+  // Compound annual growth rate, in percent
+  cagr: number | null;
+  // Largest fall from a previous high, in percent (zero or negative)
+  maxDrawdown: number | null;
+  // Annualized standard deviation of monthly log returns, in percent
+  volatility: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EMPTY_STATS: PerformanceStats = { multiplier: null, cagr: null, maxDrawdown: null, volatility: null };
+
+// Value at `from`, at every month end after it and at `to`. Times without a
+// value (e.g. before a coin was listed) are left out.
+export const sampleMonthly = (valueAt: ValueAt, from: number, to: number): PricePoint[] => {
+  const times = [from];
+  const start = new Date(from);
+  for (let month = start.getUTCMonth() + 1; ; month++) {
+    const monthEnd = Date.UTC(start.getUTCFullYear(), month, 0);
+    if (monthEnd >= to) break;
+    if (monthEnd > from) times.push(monthEnd);
+  }
+  if (to > from) times.push(to);
+
+  return times
+    .map(timestamp => ({ timestamp, price: valueAt(timestamp) }))
+    .filter((point): point is PricePoint => point.price !== null && point.price > 0);
+};
+
+export const maxDrawdown = (values: number[]): number | null => {
+  if (values.length < 2) return null;
+  let peak = values[0];
+  let worst = 0;
+  values.forEach(value => {
+    peak = Math.max(peak, value);
+    worst = Math.min(worst, (value / peak - 1) * 100);
+  });
+  return worst;
+};
+
+export const annualizedVolatility = (values: number[], periodsPerYear = 12): number | null => {
+  const returns = values.slice(1).map((value, index) => Math.log(value / values[index]));
+  if (returns.length < 2) return null;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * periodsPerYear) * 100;
+};
+
+// Stats for buying at the first sample and valuing at the last one
+export const performanceStats = (samples: PricePoint[]): PerformanceStats => {
+  if (samples.length < 2) return EMPTY_STATS;
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const values = samples.map(sample => sample.price);
+  return {
+    multiplier: divide(last.price, first.price)?.toNumber() ?? null,
+    cagr: annualizedReturn(first.price, last.price, (last.timestamp - first.timestamp) / DAY_MS),
+    maxDrawdown: maxDrawdown(values),
+    volatility: annualizedVolatility(values),
+  };
+};
+
+// The part of `samples` from `from` onwards, starting with the value at
+// `from`. Lets one set of samples over a long period serve many start dates.
+export const samplesSince = (samples: PricePoint[], from: number, valueAt: ValueAt): PricePoint[] => {
+  const price = valueAt(from);
+  if (price === null || price <= 0) return [];
+  return [{ timestamp: from, price }, ...samples.filter(sample => sample.timestamp > from)];
+};
+
+export const performanceSince = (samples: PricePoint[], from: number, valueAt: ValueAt): PerformanceStats =>
+  performanceStats(samplesSince(samples, from, valueAt));
@@ -0,0 +1,69 @@
+// Query parameters used to share a calculation:
+// ?coin=bitcoin&type=amount&amount=1000&target=150000&vs=eur&bought=2021-11-10
+// A trade priced in another coin adds &quote=ethereum
+
+export interface CalculatorPermalink {
+  coin: string;
+  investmentType: 'amount' | 'quantity';
+  amount?: number;
+  quantity?: number;
+  targetPrice: number;
+  currency?: string;
+  // Coin id the prices are quoted in, instead of the fiat currency
+  quoteAsset?: string;
+  // Past purchase date (YYYY-MM-DD) and optional time (HH:MM) to take the
+  // buy price from instead of today's price
+  entryDate?: string;
+  entryTime?: string;
+}
+
+const ENTRY_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}))?$/;
+
+const positiveNumber = (value: string | null) => {
+  if (value === null) return undefined;
+  const parsed = parseFloat(value);
+  return isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+export const encodePermalink = (link: CalculatorPermalink): string => {
+  const params = new URLSearchParams({ coin: link.coin, type: link.investmentType });
+  if (link.investmentType === 'amount' && link.amount !== undefined) {
+    params.set('amount', String(link.amount));
+  }
+  if (link.investmentType === 'quantity' && link.quantity !== undefined) {
+    params.set('qty', String(link.quantity));
+  }
+  params.set('target', String(link.targetPrice));
+  if (link.currency) params.set('vs', link.currency);
+  if (link.quoteAsset) params.set('quote', link.quoteAsset);
+  if (link.entryDate) {
+    params.set('bought', link.entryTime ? `${link.entryDate}T${link.entryTime}` : link.entryDate);
+  }
+  return params.toString();
+};
+
+// Returns null unless the query holds enough to recompute a result
+export const decodePermalink = (search: string): CalculatorPermalink | null => {
+  const params = new URLSearchParams(search);
+  const coin = params.get('coin');
+  const investmentType = params.get('type') === 'quantity' ? 'quantity' : 'amount';
+  const amount = positiveNumber(params.get('amount'));
+  const quantity = positiveNumber(params.get('qty'));
+  const targetPrice = positiveNumber(params.get('target'));
+  const entry = ENTRY_PATTERN.exec(params.get('bought') || '');
+
+  if (!coin || targetPrice === undefined) return null;
+  if (investmentType === 'amount' ? amount === undefined : quantity === undefined) return null;
+
+  return {
+    coin,
+    investmentType,
+    amount,
+    quantity,
+    targetPrice,
+    currency: params.get('vs') || undefined,
+    quoteAsset: params.get('quote') || undefined,
+    entryDate: entry ? entry[1] : undefined,
+    entryTime: entry ? entry[2] : undefined,
+  };
+};
@@ -0,0 +1,93 @@
+import { calculatePosition, CostBasisMethod, LedgerEntry } from './ledger';
+import { DEFAULT_CURRENCY } from './currency';
+import { SpotPrice } from './market/types';
+
+// Every open ledger position in one currency, valued at current prices
+
+export interface Holding {
+  coinId: string;
+  quantity: number;
+  costBasis: number;
+  averageBuyPrice: number;
+  realizedPnl: number;
+  // Null until the coin has a price
+  price: number | null;
+  value: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  change24h?: number;
+  // Share of the priced holdings' value, in percent
+  allocation: number | null;
+}
+
+export interface PortfolioSummary {
+  holdings: Holding[];
+  // Totals cover priced holdings only
+  totalValue: number;
+  totalCost: number;
+  unrealizedPnl: number;
+  // Includes positions that have since been sold off entirely
+  realizedPnl: number;
+  change24hValue: number;
+  change24hPercent: number | null;
+  unpricedCount: number;
+}
+
+export const entriesInCurrency = (entries: LedgerEntry[], currency: string) =>
+  entries.filter(entry => (entry.currency || DEFAULT_CURRENCY) === currency);
+
+export const ledgerCoinIds = (entries: LedgerEntry[]) => Array.from(new Set(entries.map(entry => entry.coinId)));
+
+export const summarizePortfolio = (
+  entries: LedgerEntry[],
+  method: CostBasisMethod,
+  prices: Record<string, SpotPrice>
+): PortfolioSummary => {
+  const positions = ledgerCoinIds(entries).map(coinId => {
+    const quote = prices[coinId];
+    const position = calculatePosition(entries.filter(entry => entry.coinId === coinId), method, quote?.price ?? 0);
+    return { coinId, quote, position };
+  });
+
+  const open = positions.filter(({ position }) => position.quantity > 0);
+  const priced = open.filter(({ quote }) => quote !== undefined);
+  const totalValue = priced.reduce((sum, { quote, position }) => sum + position.quantity * quote.price, 0);
+  const totalCost = priced.reduce((sum, { position }) => sum + position.costBasis, 0);
+  // The value a day ago, backed out of each coin's 24h change
+  const change24hValue = priced.reduce((sum, { quote, position }) => {
+    if (quote.change24h === undefined) return sum;
+    const value = position.quantity * quote.price;
+    return sum + value - value / (1 + quote.change24h / 100);
+  }, 0);
+
+  const holdings: Holding[] = open
+    .map(({ coinId, quote, position }) => {
+      const value = quote ? position.quantity * quote.price : null;
+      return {
+        coinId,
+        quantity: position.quantity,
+        costBasis: position.costBasis,
+        averageBuyPrice: position.averageBuyPrice,
+        realizedPnl: position.realizedPnl,
+        price: quote ? quote.price : null,
+        value,
+        unrealizedPnl: quote ? position.unrealizedPnl : null,
+        unrealizedPnlPercent: quote && position.costBasis > 0 ? (position.unrealizedPnl / position.costBasis) * 100 : null,
+        change24h: quote?.change24h,
+        allocation: value !== null && totalValue > 0 ? (value / totalValue) * 100 : null
+      };
+    })
+    .sort((a, b) => (b.value ?? -1) - (a.value ?? -1));
+
+  const previousValue = totalValue - change24hValue;
+  return {
+    holdings,
+    totalValue,
+    totalCost,
+    unrealizedPnl: totalValue - totalCost,
+    realizedPnl: positions.reduce((sum, { position }) => sum + position.realizedPnl, 0),
+    change24hValue,
+    change24hPercent: previousValue > 0 ? (change24hValue / previousValue) * 100 : null,
+    unpricedCount: open.length - priced.length
+  };
+};
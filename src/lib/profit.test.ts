@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { entryMoment } from './profit';
+
+describe('entryMoment', () => {
+  it('reads the date and time as UTC', () => {
+    expect(entryMoment('2024-03-01', '13:30').toISOString()).toBe('2024-03-01T13:30:00.000Z');
+  });
+
+  it('starts a date without a time at UTC midnight', () => {
+    expect(entryMoment('2024-03-01', '').toISOString()).toBe('2024-03-01T00:00:00.000Z');
+  });
+});
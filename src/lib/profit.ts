@@ -0,0 +1,366 @@
+import { TradingCosts } from './fees';
+import { evaluateTarget } from './scenarios';
+import {
+  amountForQuantity,
+  annualizedReturn,
+  positionValue,
+  ProfitAndLoss,
+  profitAndLoss,
+  quantityForAmount,
+  unitCost
+} from './calculation';
+import { PositionSize, positionSize, RiskReward, riskReward } from './risk';
+import { calculateFutures, FuturesResult, FuturesSide, MarginMode, PositionType } from './futures';
+import { CostBasisMethod, LedgerPosition } from './ledger';
+import { estimateCapitalGainsTax, findJurisdiction, TaxableGain, TaxEstimate, taxDependsOnCurrency } from './tax';
+import { CompoundingFrequency, projectStaking, RateType, StakingParams, StakingProjection } from './staking';
+
+// The calculator's inputs and results, shared by the calculator page and the
+// /api/v1/profit route so both produce the same numbers.
+
+export interface CryptoProfitCalculatorForm {
+  cryptocurrency: string;
+  // Coin id the trade is priced in, e.g. 'bitcoin' for an altcoin/BTC pair;
+  // empty for the selected fiat currency
+  quoteAsset: string;
+  investmentType: 'amount' | 'quantity' | 'risk';
+  entryMode: 'current' | 'past';
+  entryDate: string;
+  entryTime: string;
+  positionType: PositionType;
+  leverage: number;
+  marginMode: MarginMode;
+  maintenanceMarginPercent: number;
+  fundingRatePercent: number;
+  holdingDays: number;
+  crossBalance: number;
+  initialInvestment: number;
+  quantity?: number;
+  targetPrice: number;
+  stopLossPrice?: number;
+  accountSize: number;
+  riskPercent: number;
+  feePreset: string;
+  buyFeePercent: number;
+  buyFeeFlat: number;
+  sellFeePercent: number;
+  sellFeeFlat: number;
+  slippagePercent: number;
+  withdrawalFee: number;
+  useLedger: boolean;
+  taxJurisdiction: string;
+  purchaseDate: string;
+  saleDate: string;
+  otherIncome: number;
+  stakingEnabled: boolean;
+  stakingRateType: RateType;
+  stakingRatePercent: number;
+  stakingCompounding: CompoundingFrequency;
+  stakingCommissionPercent: number;
+  stakingLockupDays: number;
+  stakingHorizonDays: number;
+}
+
+export interface ProfitCalculation {
+  crypto: { id: string; name: string; symbol: string };
+  initialInvestment: number;
+  quantity: number;
+  buyPrice: number;
+  targetPrice: number;
+  potentialValue: number;
+  profitAmount: number;
+  profitPercentage: number;
+  breakevenPrice: number;
+  grossProfit: number;
+  netProfit: number;
+  totalCost: number;
+  totalFees: number;
+  costs: TradingCosts;
+  entryCostsIncluded: boolean;
+  ledger?: {
+    method: CostBasisMethod;
+    costBasis: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+  };
+  tax?: TaxEstimate;
+  risk?: RiskReward & { stopLossPrice: number };
+  pastEntry?: {
+    date: string;
+    time?: string;
+    currentPrice: number;
+    currentValue: number;
+    currentProfit: ProfitAndLoss;
+    holdingDays: number;
+    // Annualized return to date, in percent
+    cagr: number | null;
+  };
+  futures?: FuturesResult & { side: FuturesSide; leverage: number; marginMode: MarginMode };
+  // Fiat equivalents when every price and amount above is in a quote coin.
+  // The sale is converted at today's quote price, the purchase at the quote
+  // price on the entry date when there is one.
+  quote?: QuoteAsset & {
+    fiatInvestment: number;
+    fiatTotalCost: number;
+    fiatPotentialValue: number;
+    fiatNetProfit: number;
+    fiatCurrentValue?: number;
+    fiatProfitToDate?: number;
+  };
+  // Selling the staked balance, rewards included, at the target price after the horizon
+  staking?: StakingProjection & {
+    params: StakingParams;
+    rewardsValue: number;
+    potentialValue: number;
+    netProfit: number;
+    // netProfit split into what the price move and the rewards contributed
+    priceProfit: number;
+    yieldProfit: number;
+  };
+}
+
+export interface QuoteAsset {
+  id: string;
+  name: string;
+  symbol: string;
+  fiatCurrency: string;
+  // Fiat price of one unit of the quote coin, today and at the past entry
+  fiatPrice: number;
+  entryFiatPrice?: number;
+}
+
+export interface ProfitContext {
+  crypto: { id: string; name: string; symbol: string };
+  currentPrice: number;
+  // Historical buy price in past-entry mode; null while it is unknown
+  pastPrice: number | null;
+  // The coin's ledger position, used when the form asks for it
+  ledgerPosition: LedgerPosition | null;
+  // Set when the prices above are in a quote coin rather than fiat
+  quote?: QuoteAsset;
+  // Units of the tax jurisdiction's currency per unit of the fiat the gains
+  // are in. Without it there is no tax estimate for jurisdictions whose
+  // brackets or exemptions are amounts.
+  taxCurrencyRate?: number | null;
+  now?: Date;
+}
+
+export type ProfitOutcome =
+  | { calculation: ProfitCalculation; error?: undefined }
+  | { calculation: null; error: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toNumber = (value?: number | string) => parseFloat(String(value ?? 0)) || 0;
+
+// Entry dates and times are UTC in the calculator and the API alike, so a
+// shared link or API call names the same moment wherever it is opened. A date
+// alone is the start of that UTC day, matching the daily history.
+export const entryMoment = (date: string, time: string) =>
+  new Date(`${date}T${time || '00:00'}:00Z`);
+
+// The form fields a position is sized from; the amount and quantity are only
+// read by the investment type that takes them as input
+export type PositionSizingInput = Pick<CryptoProfitCalculatorForm,
+  'investmentType' | 'quantity' | 'quoteAsset' | 'positionType' | 'accountSize' | 'riskPercent' | 'stopLossPrice' |
+  'buyFeePercent' | 'sellFeePercent' | 'slippagePercent'> & { initialInvestment?: number };
+
+export interface SizedPosition extends Pick<CryptoProfitCalculatorForm, 'initialInvestment' | 'quantity'> {
+  // The risk behind the quantity when the position is sized by risk
+  risk?: PositionSize;
+}
+
+// The quantity and amount implied by the investment type at `entryPrice`,
+// as the calculator fills them in while the user types
+export const sizePosition = (data: PositionSizingInput, entryPrice: number): SizedPosition | null => {
+  const inCoin = Boolean(data.quoteAsset);
+  if (data.investmentType === 'amount') {
+    const quantity = quantityForAmount(toNumber(data.initialInvestment), entryPrice);
+    return quantity === null ? null : { initialInvestment: toNumber(data.initialInvestment), quantity };
+  }
+  if (data.investmentType === 'quantity') {
+    return { initialInvestment: amountForQuantity(toNumber(data.quantity), entryPrice, inCoin), quantity: toNumber(data.quantity) };
+  }
+
+  // Percentage fees and slippage count towards the risk; flat fees are left out
+  const slippage = toNumber(data.slippagePercent);
+  const sizing = positionSize({
+    accountSize: toNumber(data.accountSize),
+    riskPercent: toNumber(data.riskPercent),
+    entryPrice,
+    stopLossPrice: toNumber(data.stopLossPrice),
+    direction: data.positionType === 'short' ? 'short' : 'long',
+    entryCostPercent: toNumber(data.buyFeePercent) + slippage,
+    exitCostPercent: toNumber(data.sellFeePercent) + slippage
+  });
+  if (!sizing || !(sizing.quantity > 0)) return null;
+  return { initialInvestment: amountForQuantity(sizing.quantity, entryPrice, inCoin), quantity: sizing.quantity, risk: sizing };
+};
+
+export const calculateProfit = (data: CryptoProfitCalculatorForm, context: ProfitContext): ProfitOutcome => {
+  const { ledgerPosition, currentPrice, pastPrice } = context;
+  const fromLedger = data.useLedger && ledgerPosition !== null && ledgerPosition.quantity > 0;
+  if (data.useLedger && !fromLedger) {
+    return { calculation: null, error: 'There is no open ledger position for this coin.' };
+  }
+  if (fromLedger && context.quote) {
+    return { calculation: null, error: `Ledger positions are tracked in fiat. Clear the quote asset to use the ${context.quote.fiatCurrency.toUpperCase()} ledger.` };
+  }
+  const side = data.positionType === 'spot' ? null : data.positionType;
+  if (side && fromLedger) {
+    return { calculation: null, error: 'Ledger positions are spot holdings. Switch the position type to Spot to use them.' };
+  }
+  const pastEntry = data.entryMode === 'past' && !fromLedger;
+  if (pastEntry && pastPrice === null) {
+    return { calculation: null, error: 'Choose a purchase date with an available price to calculate from a past entry.' };
+  }
+  const investment = fromLedger ? ledgerPosition.costBasis : toNumber(data.initialInvestment);
+  const quantity = fromLedger ? ledgerPosition.quantity : toNumber(data.quantity);
+  const targetPrice = toNumber(data.targetPrice);
+  const buyPrice = unitCost(investment, quantity);
+  if (buyPrice === null) {
+    return { calculation: null, error: 'Enter a quantity above zero, or an amount to work it out from the current price.' };
+  }
+  const costs: TradingCosts = {
+    buyFeePercent: toNumber(data.buyFeePercent),
+    buyFeeFlat: toNumber(data.buyFeeFlat),
+    sellFeePercent: toNumber(data.sellFeePercent),
+    sellFeeFlat: toNumber(data.sellFeeFlat),
+    slippagePercent: toNumber(data.slippagePercent),
+    withdrawalFee: toNumber(data.withdrawalFee)
+  };
+
+  // Futures use the taker fee rates from the fee settings for opening and closing
+  const futuresParams = side ? {
+    side,
+    entryPrice: buyPrice,
+    quantity,
+    targetPrice,
+    leverage: toNumber(data.leverage),
+    marginMode: data.marginMode,
+    maintenanceMarginPercent: toNumber(data.maintenanceMarginPercent),
+    fundingRatePercent: toNumber(data.fundingRatePercent),
+    holdingHours: toNumber(data.holdingDays) * 24,
+    openFeePercent: costs.buyFeePercent,
+    closeFeePercent: costs.sellFeePercent,
+    crossBalance: toNumber(data.crossBalance)
+  } : null;
+  const futures = futuresParams ? calculateFutures(futuresParams) : null;
+
+  const spot = evaluateTarget(quantity, buyPrice, targetPrice, costs, { entryCostsIncluded: fromLedger });
+  const { breakdown } = spot;
+  const potentialValue = futures ? positionValue(quantity, targetPrice) : spot.potentialValue;
+  const netProfit = futures ? futures.netPnl : spot.profitAmount;
+  const profitPercentage = futures ? futures.roe : spot.profitPercentage;
+  const grossProfit = futures ? futures.pnl : profitAndLoss(investment, potentialValue).amount;
+
+  // The stop is valued exactly like the target, fees and funding included
+  const stopLossPrice = toNumber(data.stopLossPrice);
+  const resultAtStop = stopLossPrice <= 0 ? null : futuresParams
+    ? calculateFutures({ ...futuresParams, targetPrice: stopLossPrice }).netPnl
+    : evaluateTarget(quantity, buyPrice, stopLossPrice, costs, { entryCostsIncluded: fromLedger }).profitAmount;
+
+  // Fiat equivalents for a trade priced in a quote coin
+  const totalCost = futures ? futures.requiredMargin : breakdown.totalCost;
+  const quote = context.quote;
+  const entryRate = quote ? (pastEntry && quote.entryFiatPrice) || quote.fiatPrice : 0;
+  const fiatTotalCost = totalCost * entryRate;
+  const fiatNetProfit = quote ? (totalCost + netProfit) * quote.fiatPrice - fiatTotalCost : 0;
+
+  // Ledger positions are taxed lot by lot, since each lot has its own holding
+  // period; gains on quote-coin trades are taxed in fiat
+  const jurisdiction = findJurisdiction(data.taxJurisdiction);
+  const taxableGains: TaxableGain[] = fromLedger
+    ? ledgerPosition.openLots.map(lot => ({
+      gain: (lot.quantity / quantity) * breakdown.netProceeds - lot.quantity * lot.unitCost,
+      acquiredDate: lot.date
+    }))
+    : [{ gain: quote ? fiatNetProfit : netProfit, acquiredDate: data.purchaseDate }];
+  const taxCurrencyRate = jurisdiction && !taxDependsOnCurrency(jurisdiction) ? 1 : context.taxCurrencyRate;
+  const tax = jurisdiction && taxCurrencyRate
+    ? estimateCapitalGainsTax(taxableGains, data.saleDate, jurisdiction, toNumber(data.otherIncome), taxCurrencyRate)
+    : undefined;
+
+  // Only spot holdings can be staked. The same total cost spread over the
+  // grown balance keeps buy-side fees unchanged while sell-side fees apply to
+  // the rewards as well.
+  const stakingParams: StakingParams | null = data.stakingEnabled && !side ? {
+    rateType: data.stakingRateType,
+    ratePercent: toNumber(data.stakingRatePercent),
+    compounding: data.stakingCompounding,
+    commissionPercent: toNumber(data.stakingCommissionPercent),
+    lockupDays: toNumber(data.stakingLockupDays),
+    horizonDays: toNumber(data.stakingHorizonDays)
+  } : null;
+  const projection = stakingParams ? projectStaking(quantity, stakingParams) : null;
+  const staked = projection && projection.finalQuantity > 0
+    ? evaluateTarget(projection.finalQuantity, unitCost(investment, projection.finalQuantity) ?? 0, targetPrice, costs, { entryCostsIncluded: fromLedger })
+    : null;
+
+  // What the position is worth now, for a buy made in the past
+  const now = context.now ?? new Date();
+  const entryAt = entryMoment(data.entryDate, data.entryTime);
+  const heldDays = pastEntry ? (now.getTime() - entryAt.getTime()) / DAY_MS : 0;
+  const currentValue = positionValue(quantity, currentPrice);
+
+  return {
+    calculation: {
+      crypto: context.crypto,
+      initialInvestment: investment,
+      quantity: quantity,
+      buyPrice: buyPrice,
+      targetPrice: targetPrice,
+      potentialValue: potentialValue,
+      profitAmount: netProfit,
+      profitPercentage: profitPercentage,
+      breakevenPrice: futures ? futures.breakevenPrice ?? Infinity : breakdown.breakevenPrice,
+      grossProfit: grossProfit,
+      netProfit: netProfit,
+      totalCost,
+      totalFees: futures ? futures.fees + futures.fundingCost : breakdown.totalFees,
+      costs,
+      entryCostsIncluded: fromLedger,
+      ledger: fromLedger ? {
+        method: ledgerPosition.method,
+        costBasis: ledgerPosition.costBasis,
+        realizedPnl: ledgerPosition.realizedPnl,
+        unrealizedPnl: ledgerPosition.unrealizedPnl
+      } : undefined,
+      tax,
+      pastEntry: pastEntry ? {
+        date: data.entryDate,
+        time: data.entryTime || undefined,
+        currentPrice,
+        currentValue,
+        currentProfit: profitAndLoss(investment, currentValue),
+        holdingDays: Math.floor(heldDays),
+        cagr: annualizedReturn(investment, currentValue, heldDays)
+      } : undefined,
+      risk: resultAtStop === null ? undefined : { ...riskReward(resultAtStop, netProfit), stopLossPrice },
+      staking: projection && staked ? {
+        ...projection,
+        params: stakingParams,
+        rewardsValue: positionValue(projection.rewardQuantity, targetPrice),
+        potentialValue: staked.potentialValue,
+        netProfit: staked.profitAmount,
+        priceProfit: netProfit,
+        yieldProfit: staked.profitAmount - netProfit
+      } : undefined,
+      quote: quote ? {
+        ...quote,
+        fiatInvestment: investment * entryRate,
+        fiatTotalCost,
+        fiatPotentialValue: potentialValue * quote.fiatPrice,
+        fiatNetProfit,
+        fiatCurrentValue: pastEntry ? currentValue * quote.fiatPrice : undefined,
+        fiatProfitToDate: pastEntry ? currentValue * quote.fiatPrice - investment * entryRate : undefined
+      } : undefined,
+      futures: futures && side ? {
+        ...futures,
+        side,
+        leverage: toNumber(data.leverage),
+        marginMode: data.marginMode
+      } : undefined
+    }
+  };
+};
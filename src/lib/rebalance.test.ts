@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { planRebalance } from './rebalance';
+
+describe('planRebalance', () => {
+  it('reaches the target weights after paying the fees', () => {
+    const plan = planRebalance([
+      { coinId: 'a', value: 8000, price: 100, targetPercent: 50 },
+      { coinId: 'b', value: 2000, price: 10, targetPercent: 50 },
+    ], { feePercent: 1, minTradeValue: 10 });
+    expect(plan.trades).toEqual([
+      { coinId: 'a', side: 'sell', value: 3030, quantity: 30.3, fee: 30.3 },
+      { coinId: 'b', side: 'buy', value: 2970, quantity: 297, fee: 29.7 },
+    ]);
+    expect(plan.after.map(asset => asset.percent)).toEqual([50, 50]);
+    expect(plan.unallocatedCash).toBe(0);
+  });
+
+  it('skips trades below the minimum size', () => {
+    const plan = planRebalance([
+      { coinId: 'a', value: 5005, price: 100, targetPercent: 50 },
+      { coinId: 'b', value: 4995, price: 10, targetPercent: 50 },
+    ], { feePercent: 0, minTradeValue: 10 });
+    expect(plan.trades).toEqual([]);
+  });
+
+  it('handles assets without a price or target', () => {
+    const plan = planRebalance([{ coinId: 'a', value: 0, price: 0, targetPercent: 0 }], { feePercent: 0.1, minTradeValue: 0 });
+    expect(plan.trades).toEqual([]);
+    expect(plan.after[0]).toMatchObject({ value: 0, percent: 0, targetPercent: 0 });
+  });
+});
@@ -0,0 +1,116 @@
+import Decimal from 'decimal.js';
+import { divide, toDecimal } from './calculation';
+
+// Trades that bring a portfolio back to its target weights. Sales fund the
+// purchases, and every trade pays `feePercent` of its value, so the targets
+// are set against the value left after fees. Trades smaller than
+// `minTradeValue` are skipped; when that leaves purchases short of funding
+// they are scaled down, and any proceeds left over stay as cash.
+
+export interface RebalanceAsset {
+  coinId: string;
+  value: number;
+  price: number;
+  targetPercent: number;
+}
+
+export interface RebalanceOptions {
+  feePercent: number;
+  minTradeValue: number;
+}
+
+export interface RebalanceTrade {
+  coinId: string;
+  side: 'buy' | 'sell';
+  // Value of the coins bought or sold, before the fee
+  value: number;
+  quantity: number;
+  fee: number;
+}
+
+export interface RebalancePlan {
+  trades: RebalanceTrade[];
+  totalFees: number;
+  // Sale proceeds not spent on purchases
+  unallocatedCash: number;
+  after: { coinId: string; value: number; percent: number; targetPercent: number }[];
+}
+
+const FIXED_POINT_ITERATIONS = 50;
+
+const ZERO = toDecimal(0);
+
+const sumOf = (values: Decimal[]) => values.reduce((total, value) => total.plus(value), ZERO);
+
+const nonNegative = (value: number) => {
+  const decimal = toDecimal(value);
+  return decimal.lt(0) ? ZERO : decimal;
+};
+
+export const targetSum = (assets: RebalanceAsset[]) => assets.reduce((sum, asset) => sum + asset.targetPercent, 0);
+
+export const planRebalance = (assets: RebalanceAsset[], options: RebalanceOptions): RebalancePlan => {
+  const fee = nonNegative(options.feePercent).div(100);
+  const minTrade = nonNegative(options.minTradeValue);
+  const weightSum = toDecimal(targetSum(assets));
+  const weights = assets.map(asset => divide(asset.targetPercent, weightSum) ?? ZERO);
+  const values = assets.map(asset => toDecimal(asset.value));
+  const startValue = sumOf(values);
+
+  // The value after rebalancing is what's left once the fees on the trades
+  // that reach it are paid; fees are a small fraction, so this converges fast
+  let total = startValue;
+  for (let i = 0; i < FIXED_POINT_ITERATIONS; i++) {
+    const turnover = sumOf(values.map((value, index) => weights[index].mul(total).minus(value).abs()));
+    total = startValue.minus(fee.mul(turnover));
+  }
+
+  const deltas = values.map((value, index) => {
+    const delta = weights[index].mul(total).minus(value);
+    return delta.abs().lt(minTrade) ? ZERO : delta;
+  });
+  const sells = sumOf(deltas.map(delta => (delta.lt(0) ? delta.neg() : ZERO)));
+  const available = sells.mul(toDecimal(1).minus(fee));
+
+  // Scale purchases to the sale proceeds, dropping any that fall below the minimum
+  let buys = deltas.map(delta => (delta.gt(0) ? delta : ZERO));
+  for (;;) {
+    const wanted = sumOf(buys).mul(fee.plus(1));
+    if (wanted.lte(available) || wanted.isZero()) break;
+    const scale = available.div(wanted);
+    const scaled = buys.map(value => value.mul(scale));
+    const dropped = scaled.map(value => (value.gt(0) && value.lt(minTrade) ? ZERO : value));
+    buys = dropped;
+    if (dropped.every((value, index) => value.eq(scaled[index]))) break;
+  }
+
+  const trades: RebalanceTrade[] = assets
+    .map((asset, index) => {
+      const value = deltas[index].lt(0) ? deltas[index].neg() : buys[index];
+      return {
+        coinId: asset.coinId,
+        side: deltas[index].lt(0) ? 'sell' as const : 'buy' as const,
+        value: value.toNumber(),
+        quantity: (divide(value, asset.price) ?? ZERO).toNumber(),
+        fee: value.mul(fee).toNumber()
+      };
+    })
+    .filter(trade => trade.value > 0);
+
+  const afterValues = values.map((value, index) => value.plus(deltas[index].lt(0) ? deltas[index] : buys[index]));
+  const afterTotal = sumOf(afterValues);
+  const spent = sumOf(buys).mul(fee.plus(1));
+  const leftover = available.minus(spent);
+
+  return {
+    trades,
+    totalFees: trades.reduce((total, trade) => total + trade.fee, 0),
+    unallocatedCash: leftover.gt(0) ? leftover.toNumber() : 0,
+    after: assets.map((asset, index) => ({
+      coinId: asset.coinId,
+      value: afterValues[index].toNumber(),
+      percent: (divide(afterValues[index], afterTotal) ?? ZERO).mul(100).toNumber(),
+      targetPercent: weights[index].mul(100).toNumber()
+    }))
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { positionSize, PositionSizeInput, riskReward } from './risk';
+
+// Risking 1% of 10,000 is 100
+const input = (overrides: Partial<PositionSizeInput>): PositionSizeInput => ({
+  accountSize: 10000,
+  riskPercent: 1,
+  entryPrice: 100,
+  stopLossPrice: 90,
+  direction: 'long',
+  ...overrides,
+});
+
+describe('positionSize', () => {
+  it('sizes a long so the stop loses the risk amount', () => {
+    expect(positionSize(input({}))).toEqual({
+      riskAmount: 100,
+      riskPerUnit: 10,
+      quantity: 10,
+      investment: 1000,
+      exceedsAccount: false,
+    });
+  });
+
+  it('sizes a short with the stop above the entry', () => {
+    expect(positionSize(input({ direction: 'short', stopLossPrice: 110 }))).toMatchObject({ riskPerUnit: 10, quantity: 10 });
+  });
+
+  it('counts percentage costs towards the risk and rounds the quantity down', () => {
+    const sizing = positionSize(input({ entryCostPercent: 1, exitCostPercent: 1 }));
+    // Pay 101 per coin and get 89.1 back at the stop
+    expect(sizing?.riskPerUnit).toBeCloseTo(11.9, 10);
+    expect(sizing?.quantity).toBe(8.40336134);
+  });
+
+  it('is null when the stop is on the wrong side of the entry', () => {
+    expect(positionSize(input({ stopLossPrice: 110 }))).toBeNull();
+    expect(positionSize(input({ direction: 'short', stopLossPrice: 90 }))).toBeNull();
+    expect(positionSize(input({ stopLossPrice: 100 }))).toBeNull();
+  });
+
+  it('flags a position larger than the account', () => {
+    const sizing = positionSize(input({ stopLossPrice: 99.9 }));
+    expect(sizing).toMatchObject({ quantity: 1000, investment: 100000, exceedsAccount: true });
+  });
+});
+
+describe('riskReward', () => {
+  it('compares the loss at the stop with the reward at the target', () => {
+    expect(riskReward(-100, 300)).toEqual({
+      lossAtStop: 100,
+      rewardAtTarget: 300,
+      riskRewardRatio: 3,
+      breakevenWinRate: 25,
+    });
+  });
+
+  it('has no ratio when the stop still makes money', () => {
+    expect(riskReward(50, 300)).toMatchObject({ lossAtStop: 0, riskRewardRatio: null, breakevenWinRate: 0 });
+  });
+
+  it('needs every trade to win when the target loses money too', () => {
+    expect(riskReward(-100, -20)).toMatchObject({ riskRewardRatio: -0.2, breakevenWinRate: 100 });
+  });
+});
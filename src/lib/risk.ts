@@ -0,0 +1,79 @@
+import Decimal from 'decimal.js';
+import { divide, Numeric, QUANTITY_DECIMALS, toDecimal } from './calculation';
+
+export type TradeDirection = 'long' | 'short';
+
+export interface PositionSizeInput {
+  accountSize: number;
+  // Share of the account lost if the stop is hit, in percent
+  riskPercent: number;
+  entryPrice: number;
+  stopLossPrice: number;
+  direction: TradeDirection;
+  // Percentage costs paid on entry and at the stop (fees plus slippage)
+  entryCostPercent?: number;
+  exitCostPercent?: number;
+}
+
+export interface PositionSize {
+  riskAmount: number;
+  // Loss per coin if the stop is hit, including percentage costs
+  riskPerUnit: number;
+  quantity: number;
+  investment: number;
+  // The position costs more than the account, so it needs leverage
+  exceedsAccount: boolean;
+}
+
+export interface RiskReward {
+  lossAtStop: number;
+  rewardAtTarget: number;
+  // Reward per unit of risk; null when nothing is at risk
+  riskRewardRatio: number | null;
+  // Share of trades that must win for the setup to break even, in percent
+  breakevenWinRate: number | null;
+}
+
+const percentFactor = (percent: Numeric | undefined, sign: 1 | -1) =>
+  toDecimal(percent).div(100).mul(sign).plus(1);
+
+// Sizes a position so that hitting the stop loses `riskPercent` of the
+// account. Returns null when the stop is on the wrong side of the entry.
+export const positionSize = (input: PositionSizeInput): PositionSize | null => {
+  const entry = toDecimal(input.entryPrice);
+  const stop = toDecimal(input.stopLossPrice);
+  const long = input.direction === 'long';
+  if (entry.lte(0) || stop.lte(0) || (long ? stop.gte(entry) : stop.lte(entry))) return null;
+
+  // Long: pay the entry plus costs, receive the stop minus costs. Short: the reverse.
+  const entryCost = entry.mul(percentFactor(input.entryCostPercent, long ? 1 : -1));
+  const exitValue = stop.mul(percentFactor(input.exitCostPercent, long ? -1 : 1));
+  const riskPerUnit = long ? entryCost.minus(exitValue) : exitValue.minus(entryCost);
+
+  const riskAmount = toDecimal(input.accountSize).mul(toDecimal(input.riskPercent)).div(100);
+  const quantity = (divide(riskAmount, riskPerUnit) ?? toDecimal(0))
+    .toDecimalPlaces(QUANTITY_DECIMALS, Decimal.ROUND_DOWN);
+  const investment = quantity.mul(entry);
+
+  return {
+    riskAmount: riskAmount.toNumber(),
+    riskPerUnit: riskPerUnit.toNumber(),
+    quantity: quantity.toNumber(),
+    investment: investment.toNumber(),
+    exceedsAccount: investment.gt(toDecimal(input.accountSize)),
+  };
+};
+
+// Compares the net result at the stop with the net result at the target
+export const riskReward = (resultAtStop: Numeric, resultAtTarget: Numeric): RiskReward => {
+  const atStop = toDecimal(resultAtStop);
+  const loss = atStop.isNegative() ? atStop.neg() : toDecimal(0);
+  const reward = toDecimal(resultAtTarget);
+  const winRate = divide(loss.mul(100), reward.isPositive() ? loss.plus(reward) : loss);
+  return {
+    lossAtStop: loss.toNumber(),
+    rewardAtTarget: reward.toNumber(),
+    riskRewardRatio: loss.isZero() ? null : reward.div(loss).toNumber(),
+    breakevenWinRate: winRate === null ? null : winRate.toNumber(),
+  };
+};
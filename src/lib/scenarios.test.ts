@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { NO_TRADING_COSTS } from './fees';
+import { calculateLadder, sensitivityGrid } from './scenarios';
+
+describe('calculateLadder', () => {
+  it('sells the whole position across the rungs without leftovers', () => {
+    const result = calculateLadder(0.3, 60, [{ percent: 50, price: 300 }, { percent: 50, price: 400 }], NO_TRADING_COSTS);
+    expect(result.remainingQuantity).toBe(0);
+    expect(result.rungs.map(rung => rung.quantity)).toEqual([0.15, 0.15]);
+    expect(result.totalProceeds).toBe(105);
+    expect(result.realizedProfit).toBe(45);
+  });
+
+  it('charges the sell fee and slippage on each rung', () => {
+    const result = calculateLadder(1, 100, [{ percent: 100, price: 200 }], {
+      ...NO_TRADING_COSTS,
+      sellFeePercent: 1,
+      sellFeeFlat: 1,
+      slippagePercent: 1,
+    });
+    expect(result.rungs[0].fees).toBe(2.98);
+    expect(result.rungs[0].proceeds).toBe(195.02);
+  });
+
+  it('flags rungs adding up to more than the position', () => {
+    const result = calculateLadder(1, 100, [{ percent: 80, price: 200 }, { percent: 40, price: 300 }], NO_TRADING_COSTS);
+    expect(result.overAllocated).toBe(true);
+    expect(result.rungs[1].quantity).toBe(0.2);
+    expect(result.remainingQuantity).toBe(0);
+  });
+
+  it('handles a zero quantity', () => {
+    const result = calculateLadder(0, 0, [{ percent: 100, price: 200 }], { ...NO_TRADING_COSTS, sellFeeFlat: 1 });
+    expect(result.rungs[0]).toMatchObject({ quantity: 0, fees: 0, profit: 0 });
+  });
+});
+
+describe('sensitivityGrid', () => {
+  it('includes both ends of the range', () => {
+    const rows = sensitivityGrid(1, 100, NO_TRADING_COSTS, -50, 50, 25);
+    expect(rows.map(row => row.targetPrice)).toEqual([50, 75, 100, 125, 150]);
+  });
+
+  it('is empty for a zero step', () => {
+    expect(sensitivityGrid(1, 100, NO_TRADING_COSTS, -50, 50, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { calculateTradeCosts, TradeCostOptions, TradingCosts } from './fees';
+import { divide, positionValue, profitAndLoss, toDecimal } from './calculation';
+
+export interface LadderRung {
+  // Share of the original position sold at this rung
+  percent: number;
+  price: number;
+}
+
+export interface LadderRungResult extends LadderRung {
+  quantity: number;
+  proceeds: number;
+  fees: number;
+  profit: number;
+  cumulativeProfit: number;
+}
+
+export interface LadderResult {
+  rungs: LadderRungResult[];
+  totalProceeds: number;
+  realizedProfit: number;
+  remainingQuantity: number;
+  // Set when the rungs add up to more than the whole position
+  overAllocated: boolean;
+}
+
+export interface SensitivityRow {
+  changePercent: number;
+  targetPrice: number;
+  potentialValue: number;
+  profitAmount: number;
+  profitPercentage: number;
+}
+
+// Sells the position in stages. Each rung carries its share of the total
+// cost and pays the sell-side fee and slippage; the withdrawal fee is not
+// applied since coins are assumed to stay on the exchange between rungs.
+export const calculateLadder = (
+  quantity: number,
+  totalCost: number,
+  rungs: LadderRung[],
+  costs: TradingCosts
+): LadderResult => {
+  const kept = toDecimal(1).minus(toDecimal(costs.slippagePercent).div(100));
+  const position = toDecimal(quantity);
+  let remaining = position;
+  let cumulativeProfit = toDecimal(0);
+  let totalProceeds = toDecimal(0);
+  let allocated = toDecimal(0);
+
+  const results = rungs.map(rung => {
+    allocated = allocated.plus(toDecimal(rung.percent));
+    const share = position.mul(toDecimal(rung.percent)).div(100);
+    const rungQuantity = share.lt(remaining) ? share : remaining;
+    remaining = remaining.minus(rungQuantity);
+
+    const value = rungQuantity.mul(toDecimal(rung.price)).mul(kept);
+    const fees = rungQuantity.gt(0)
+      ? value.mul(toDecimal(costs.sellFeePercent)).div(100).plus(toDecimal(costs.sellFeeFlat))
+      : toDecimal(0);
+    const proceeds = value.minus(fees);
+    const costShare = (divide(rungQuantity, position) ?? toDecimal(0)).mul(toDecimal(totalCost));
+    const profit = proceeds.minus(costShare);
+
+    cumulativeProfit = cumulativeProfit.plus(profit);
+    totalProceeds = totalProceeds.plus(proceeds);
+    return {
+      ...rung,
+      quantity: rungQuantity.toNumber(),
+      proceeds: proceeds.toNumber(),
+      fees: fees.toNumber(),
+      profit: profit.toNumber(),
+      cumulativeProfit: cumulativeProfit.toNumber(),
+    };
+  });
+
+  return {
+    rungs: results,
+    totalProceeds: totalProceeds.toNumber(),
+    realizedProfit: cumulativeProfit.toNumber(),
+    remainingQuantity: remaining.toNumber(),
+    overAllocated: allocated.gt(100),
+  };
+};
+
+// Net result of selling the whole position at `targetPrice`, the same figures
+// the calculator shows for a single target
+export const evaluateTarget = (
+  quantity: number,
+  buyPrice: number,
+  targetPrice: number,
+  costs: TradingCosts,
+  options: TradeCostOptions = {}
+) => {
+  const breakdown = calculateTradeCosts(quantity, buyPrice, targetPrice, costs, options);
+  const { amount, percentage } = profitAndLoss(breakdown.totalCost, breakdown.netProceeds);
+  return {
+    breakdown,
+    potentialValue: positionValue(quantity, targetPrice),
+    profitAmount: amount,
+    // A position that cost nothing has no meaningful percentage return
+    profitPercentage: percentage ?? 0,
+  };
+};
+
+// Target prices from `fromPercent` to `toPercent` away from the buy price
+export const sensitivityGrid = (
+  quantity: number,
+  buyPrice: number,
+  costs: TradingCosts,
+  fromPercent: number,
+  toPercent: number,
+  stepPercent: number,
+  options: TradeCostOptions = {}
+): SensitivityRow[] => {
+  if (!(stepPercent > 0) || fromPercent > toPercent) return [];
+  const rows: SensitivityRow[] = [];
+  // Count steps instead of accumulating, so rounding cannot drop the last row
+  const steps = Math.floor((toPercent - fromPercent) / stepPercent + 1e-9);
+  for (let i = 0; i <= steps; i++) {
+    const changePercent = fromPercent + i * stepPercent;
+    const targetPrice = buyPrice * (1 + changePercent / 100);
+    if (targetPrice < 0) continue;
+    const { potentialValue, profitAmount, profitPercentage } = evaluateTarget(
+      quantity, buyPrice, targetPrice, costs, options
+    );
+    rows.push({ changePercent, targetPrice, potentialValue, profitAmount, profitPercentage });
+  }
+  return rows;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { projectStaking, StakingParams } from './staking';
+
+const params = (overrides: Partial<StakingParams>): StakingParams => ({
+  rateType: 'apr',
+  ratePercent: 10,
+  compounding: 'monthly',
+  commissionPercent: 0,
+  lockupDays: 0,
+  horizonDays: 365,
+  ...overrides,
+});
+
+describe('projectStaking', () => {
+  it('compounds an APR by the restaking frequency', () => {
+    expect(projectStaking(1, params({ compounding: 'yearly' })).finalQuantity).toBeCloseTo(1.1, 10);
+    expect(projectStaking(1, params({ compounding: 'monthly' })).finalQuantity).toBeCloseTo((1 + 0.1 / 12) ** 12, 10);
+    expect(projectStaking(1, params({ compounding: 'daily' })).finalQuantity).toBeCloseTo((1 + 0.1 / 365) ** 365, 10);
+  });
+
+  it('grows by an APY in a year whatever the restaking frequency', () => {
+    (['daily', 'weekly', 'monthly', 'yearly'] as const).forEach(compounding => {
+      const projection = projectStaking(1, params({ rateType: 'apy', compounding }));
+      expect(projection.finalQuantity).toBeCloseTo(1.1, 10);
+      expect(projection.netApy).toBeCloseTo(10, 8);
+    });
+  });
+
+  it('grows linearly when rewards are not restaked', () => {
+    const projection = projectStaking(2, params({ compounding: 'none', horizonDays: 730 }));
+    expect(projection.finalQuantity).toBeCloseTo(2.4, 10);
+    expect(projection.rewardQuantity).toBeCloseTo(0.4, 10);
+  });
+
+  it('takes the commission from every reward', () => {
+    const projection = projectStaking(1, params({ commissionPercent: 10 }));
+    expect(projection.finalQuantity).toBeCloseTo((1 + 0.09 / 12) ** 12, 10);
+    expect(projection.netApy).toBeCloseTo(((1 + 0.09 / 12) ** 12 - 1) * 100, 8);
+  });
+
+  it('reports a lock-up that outlasts the horizon', () => {
+    expect(projectStaking(1, params({ lockupDays: 400 })).lockedAtHorizon).toBe(true);
+    expect(projectStaking(1, params({ lockupDays: 30 })).lockedAtHorizon).toBe(false);
+  });
+
+  it('schedules the balance from day 0 to the horizon, including the lock-up end', () => {
+    const { schedule, finalQuantity } = projectStaking(1, params({ lockupDays: 100 }));
+    expect(schedule[0]).toEqual({ day: 0, quantity: 1, rewards: 0 });
+    expect(schedule.map(point => point.day)).toContain(100);
+    expect(schedule[schedule.length - 1]).toMatchObject({ day: 365, quantity: finalQuantity });
+  });
+});
@@ -0,0 +1,101 @@
+import { Numeric, toDecimal } from './calculation';
+
+// Staking and lending rewards paid in the coin itself. The quoted rate is
+// either an APR (simple, before compounding) or an APY (compounding already
+// included); the validator or platform commission is taken from every reward
+// before it is credited.
+
+export type RateType = 'apr' | 'apy';
+export type CompoundingFrequency = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const RATE_TYPES: { value: RateType; label: string }[] = [
+  { value: 'apy', label: 'APY (compounded)' },
+  { value: 'apr', label: 'APR (simple)' },
+];
+
+// How often rewards are restaked; 'none' leaves them unstaked so they never compound
+export const COMPOUNDING_FREQUENCIES: { value: CompoundingFrequency; label: string; perYear: number }[] = [
+  { value: 'daily', label: 'Daily', perYear: 365 },
+  { value: 'weekly', label: 'Weekly', perYear: 52 },
+  { value: 'monthly', label: 'Monthly', perYear: 12 },
+  { value: 'yearly', label: 'Yearly', perYear: 1 },
+  { value: 'none', label: 'Not restaked', perYear: 0 },
+];
+
+// Quoted rates are per 365-day year
+const DAYS_PER_YEAR = 365;
+const MAX_SCHEDULE_POINTS = 12;
+
+export interface StakingParams {
+  rateType: RateType;
+  ratePercent: number;
+  compounding: CompoundingFrequency;
+  commissionPercent: number;
+  // Days before the coins can be sold; rewards still accrue while locked
+  lockupDays: number;
+  horizonDays: number;
+}
+
+export interface StakingPoint {
+  day: number;
+  quantity: number;
+  rewards: number;
+}
+
+export interface StakingProjection {
+  finalQuantity: number;
+  rewardQuantity: number;
+  // Yearly growth of the coin balance after commission, in percent
+  netApy: number;
+  // The horizon ends before the lock-up does
+  lockedAtHorizon: boolean;
+  // Coin balance over the horizon, starting at day 0
+  schedule: StakingPoint[];
+}
+
+const perYear = (compounding: CompoundingFrequency) =>
+  COMPOUNDING_FREQUENCIES.find(frequency => frequency.value === compounding)?.perYear ?? 0;
+
+// Growth of one coin after `days`. Rewards accrue evenly between payouts, so
+// balances between two compounding dates are interpolated on the same curve.
+const growthFactor = (params: StakingParams, days: Numeric) => {
+  const rate = toDecimal(params.ratePercent).div(100);
+  const keep = toDecimal(1).minus(toDecimal(params.commissionPercent).div(100));
+  const years = toDecimal(days).div(DAYS_PER_YEAR);
+  const periods = perYear(params.compounding);
+
+  if (periods === 0) {
+    // Unstaked rewards grow linearly; an APY without compounding is just its APR
+    return rate.mul(keep).mul(years).plus(1);
+  }
+  const periodRate = params.rateType === 'apy'
+    ? rate.plus(1).pow(toDecimal(1).div(periods)).minus(1)
+    : rate.div(periods);
+  return periodRate.mul(keep).plus(1).pow(years.mul(periods));
+};
+
+const scheduleDays = (horizonDays: number, lockupDays: number): number[] => {
+  const step = Math.max(1, Math.ceil(horizonDays / MAX_SCHEDULE_POINTS));
+  const days = new Set<number>([0, horizonDays]);
+  for (let day = step; day < horizonDays; day += step) days.add(day);
+  if (lockupDays > 0 && lockupDays < horizonDays) days.add(lockupDays);
+  return Array.from(days).sort((a, b) => a - b);
+};
+
+export const projectStaking = (quantity: Numeric, params: StakingParams): StakingProjection => {
+  const start = toDecimal(quantity);
+  const horizonDays = Math.max(0, Math.round(params.horizonDays));
+  const balanceAt = (day: number) => start.mul(growthFactor(params, day));
+  const finalQuantity = balanceAt(horizonDays);
+
+  return {
+    finalQuantity: finalQuantity.toNumber(),
+    rewardQuantity: finalQuantity.minus(start).toNumber(),
+    netApy: growthFactor(params, DAYS_PER_YEAR).minus(1).mul(100).toNumber(),
+    lockedAtHorizon: params.lockupDays > horizonDays,
+    schedule: scheduleDays(horizonDays, Math.round(params.lockupDays)).map(day => {
+      const balance = balanceAt(day);
+      return { day, quantity: balance.toNumber(), rewards: balance.minus(start).toNumber() };
+    }),
+  };
+};
@@ -0,0 +1,37 @@
+// Thin wrappers around localStorage that tolerate SSR, private browsing and
+// corrupted values by falling back to the provided default. Failed writes
+// lose the user's data when the page closes, so they are reported to
+// listeners; a failed read is just the default.
+
+const PREFIX = 'crypto-profit-calculator:';
+
+type StorageErrorListener = (key: string) => void;
+
+const errorListeners = new Set<StorageErrorListener>();
+
+// Notified whenever a value could not be saved (storage full or disabled)
+export const onStorageError = (listener: StorageErrorListener) => {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+};
+
+export const loadFromStorage = <T>(key: string, fallback: T): T => {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveToStorage = <T>(key: string, value: T) => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch {
+    errorListeners.forEach(listener => listener(key));
+  }
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { estimateCapitalGainsTax, TaxJurisdiction } from '.';
+
+const SALE_DATE = '2024-06-01';
+const SHORT = '2024-01-01';
+const LONG = '2022-01-01';
+
+// 10% up to 10,000 and 20% above; long-term gains get their own brackets
+const progressive: TaxJurisdiction = {
+  id: 'progressive',
+  name: 'Progressive',
+  currency: 'USD',
+  longTermMinDays: 365,
+  shortTerm: { type: 'brackets', brackets: [{ upTo: 10000, rate: 10 }, { upTo: null, rate: 20 }] },
+  longTerm: { type: 'brackets', brackets: [{ upTo: 10000, rate: 0 }, { upTo: null, rate: 15 }] },
+};
+
+const flat = (exemption?: TaxJurisdiction['exemption']): TaxJurisdiction => ({
+  id: 'flat',
+  name: 'Flat',
+  currency: 'USD',
+  longTermMinDays: 365,
+  shortTerm: { type: 'flat', rate: 20 },
+  longTerm: { type: 'flat', rate: 10 },
+  exemption,
+});
+
+describe('estimateCapitalGainsTax', () => {
+  it('stacks gains on top of other income across brackets', () => {
+    const estimate = estimateCapitalGainsTax([{ gain: 5000, acquiredDate: SHORT }], SALE_DATE, progressive, 8000);
+    // 2,000 at 10% and 3,000 at 20%
+    expect(estimate.tax).toBeCloseTo(800, 8);
+    expect(estimate.effectiveRate).toBeCloseTo(16, 8);
+    expect(estimate.afterTaxProfit).toBeCloseTo(4200, 8);
+  });
+
+  it('stacks long-term gains on top of short-term ones', () => {
+    const estimate = estimateCapitalGainsTax(
+      [{ gain: 6000, acquiredDate: SHORT }, { gain: 6000, acquiredDate: LONG }],
+      SALE_DATE,
+      progressive
+    );
+    expect(estimate).toMatchObject({ shortTermGain: 6000, longTermGain: 6000 });
+    // 6,000 short-term at 10%, then 4,000 long-term at 0% and 2,000 at 15%
+    expect(estimate.tax).toBeCloseTo(900, 8);
+  });
+
+  it('nets a short-term loss against long-term gains', () => {
+    const estimate = estimateCapitalGainsTax(
+      [{ gain: -2000, acquiredDate: SHORT }, { gain: 5000, acquiredDate: LONG }],
+      SALE_DATE,
+      flat()
+    );
+    expect(estimate.taxableGain).toBeCloseTo(3000, 8);
+    expect(estimate.tax).toBeCloseTo(300, 8);
+  });
+
+  it('nets a long-term loss against short-term gains', () => {
+    const estimate = estimateCapitalGainsTax(
+      [{ gain: 3000, acquiredDate: SHORT }, { gain: -1000, acquiredDate: LONG }],
+      SALE_DATE,
+      flat()
+    );
+    expect(estimate.taxableGain).toBeCloseTo(2000, 8);
+    expect(estimate.tax).toBeCloseTo(400, 8);
+  });
+
+  it('owes nothing when losses outweigh gains', () => {
+    const estimate = estimateCapitalGainsTax(
+      [{ gain: 3000, acquiredDate: SHORT }, { gain: -4000, acquiredDate: LONG }],
+      SALE_DATE,
+      flat()
+    );
+    expect(estimate).toMatchObject({ taxableGain: 0, tax: 0, effectiveRate: 0 });
+  });
+
+  it('shields gains up to an allowance, short-term first', () => {
+    const estimate = estimateCapitalGainsTax(
+      [{ gain: 1000, acquiredDate: SHORT }, { gain: 5000, acquiredDate: LONG }],
+      SALE_DATE,
+      flat({ type: 'allowance', amount: 3000 })
+    );
+    // The allowance covers the 1,000 short-term gain and 2,000 of the long-term one
+    expect(estimate.taxableGain).toBeCloseTo(3000, 8);
+    expect(estimate.tax).toBeCloseTo(300, 8);
+  });
+
+  it('exempts gains only while they stay within a threshold', () => {
+    const threshold = flat({ type: 'threshold', amount: 600 });
+    expect(estimateCapitalGainsTax([{ gain: 600, acquiredDate: SHORT }], SALE_DATE, threshold).tax).toBe(0);
+    expect(estimateCapitalGainsTax([{ gain: 601, acquiredDate: SHORT }], SALE_DATE, threshold).tax).toBeCloseTo(120.2, 8);
+  });
+
+  it('applies brackets in the jurisdiction currency and converts the tax back', () => {
+    // Two units of the jurisdiction currency per unit of the gain's
+    const estimate = estimateCapitalGainsTax([{ gain: 5000, acquiredDate: SHORT }], SALE_DATE, progressive, 0, 2);
+    // 10,000 at 10% is 1,000, or 500 in the gain's currency
+    expect(estimate.shortTermGain).toBeCloseTo(5000, 8);
+    expect(estimate.tax).toBeCloseTo(500, 8);
+    expect(estimate.effectiveRate).toBeCloseTo(10, 8);
+  });
+});
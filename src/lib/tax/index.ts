@@ -0,0 +1,154 @@
+import jurisdictionsData from './jurisdictions.json';
+
+// Jurisdiction profiles live in jurisdictions.json; adding a country only
+// requires a new entry there.
+
+export interface TaxBracket {
+  // Upper bound of taxable income for this rate, null for the top bracket
+  upTo: number | null;
+  rate: number;
+}
+
+export interface TaxRule {
+  type: 'exempt' | 'flat' | 'brackets';
+  rate?: number;
+  brackets?: TaxBracket[];
+  // Share of the gain that is not taxed, e.g. Australia's CGT discount
+  discountPercent?: number;
+}
+
+export interface TaxExemption {
+  amount: number;
+  // An allowance shields gains up to the amount; a threshold makes gains
+  // tax free only while the total stays at or below it
+  type: 'allowance' | 'threshold';
+}
+
+export interface TaxJurisdiction {
+  id: string;
+  name: string;
+  currency: string;
+  // Minimum days held for the long-term rule, null if holding period is irrelevant
+  longTermMinDays: number | null;
+  shortTerm: TaxRule;
+  longTerm?: TaxRule;
+  exemption?: TaxExemption;
+  notes?: string;
+}
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface TaxableGain {
+  gain: number;
+  acquiredDate: string;
+}
+
+export interface TaxEstimate {
+  jurisdictionId: string;
+  shortTermGain: number;
+  longTermGain: number;
+  taxableGain: number;
+  tax: number;
+  effectiveRate: number;
+  afterTaxProfit: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TAX_JURISDICTIONS = jurisdictionsData as TaxJurisdiction[];
+
+export const findJurisdiction = (id: string) => TAX_JURISDICTIONS.find(j => j.id === id);
+
+export const holdingPeriodDays = (acquiredDate: string, saleDate: string) =>
+  Math.max(Math.floor((Date.parse(saleDate) - Date.parse(acquiredDate)) / DAY_MS), 0);
+
+export const classifyHolding = (days: number, jurisdiction: TaxJurisdiction): HoldingTerm =>
+  jurisdiction.longTermMinDays !== null && days >= jurisdiction.longTermMinDays ? 'long' : 'short';
+
+const cumulativeBracketTax = (brackets: TaxBracket[], income: number) => {
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of brackets) {
+    const upper = bracket.upTo ?? Infinity;
+    if (income <= lower) break;
+    tax += (Math.min(income, upper) - lower) * bracket.rate / 100;
+    lower = upper;
+  }
+  return tax;
+};
+
+// Brackets and exemptions are amounts in the jurisdiction's currency, so gains
+// in any other currency must be converted first; flat rates apply alike to all
+export const taxDependsOnCurrency = (jurisdiction: TaxJurisdiction) =>
+  Boolean(jurisdiction.exemption) || [jurisdiction.shortTerm, jurisdiction.longTerm].some(rule => rule?.type === 'brackets');
+
+// Tax on `gain` when stacked on top of `baseIncome`
+const applyRule = (rule: TaxRule, baseIncome: number, gain: number) => {
+  if (gain <= 0 || rule.type === 'exempt') return 0;
+  const taxable = gain * (1 - (rule.discountPercent ?? 0) / 100);
+  if (rule.type === 'flat') {
+    return taxable * (rule.rate ?? 0) / 100;
+  }
+  const brackets = rule.brackets ?? [];
+  return cumulativeBracketTax(brackets, baseIncome + taxable) - cumulativeBracketTax(brackets, baseIncome);
+};
+
+// Gains and other income in another currency are converted into the
+// jurisdiction's at `currencyRate` (its units per unit of theirs) before
+// brackets and exemptions apply, and the estimate is converted back
+export const estimateCapitalGainsTax = (
+  gains: TaxableGain[],
+  saleDate: string,
+  jurisdiction: TaxJurisdiction,
+  otherIncome: number = 0,
+  currencyRate: number = 1
+): TaxEstimate => {
+  let shortTermGain = 0;
+  let longTermGain = 0;
+  for (const { gain, acquiredDate } of gains) {
+    const term = classifyHolding(holdingPeriodDays(acquiredDate, saleDate), jurisdiction);
+    if (term === 'long') {
+      longTermGain += gain * currencyRate;
+    } else {
+      shortTermGain += gain * currencyRate;
+    }
+  }
+
+  // Net losses in one bucket against gains in the other
+  let taxableShort = shortTermGain;
+  let taxableLong = longTermGain;
+  if (taxableShort < 0) {
+    taxableLong += taxableShort;
+    taxableShort = 0;
+  }
+  if (taxableLong < 0) {
+    taxableShort = Math.max(taxableShort + taxableLong, 0);
+    taxableLong = 0;
+  }
+
+  const exemption = jurisdiction.exemption;
+  if (exemption?.type === 'threshold' && taxableShort + taxableLong <= exemption.amount) {
+    taxableShort = 0;
+    taxableLong = 0;
+  } else if (exemption?.type === 'allowance') {
+    const shortShielded = Math.min(taxableShort, exemption.amount);
+    taxableShort -= shortShielded;
+    taxableLong = Math.max(taxableLong - (exemption.amount - shortShielded), 0);
+  }
+
+  const baseIncome = otherIncome * currencyRate;
+  const shortTax = applyRule(jurisdiction.shortTerm, baseIncome, taxableShort);
+  const longTax = applyRule(jurisdiction.longTerm ?? jurisdiction.shortTerm, baseIncome + taxableShort, taxableLong);
+  const tax = shortTax + longTax;
+  const totalGain = shortTermGain + longTermGain;
+
+  return {
+    jurisdictionId: jurisdiction.id,
+    shortTermGain: shortTermGain / currencyRate,
+    longTermGain: longTermGain / currencyRate,
+    taxableGain: (taxableShort + taxableLong) / currencyRate,
+    tax: tax / currencyRate,
+    effectiveRate: totalGain > 0 ? (tax / totalGain) * 100 : 0,
+    afterTaxProfit: (totalGain - tax) / currencyRate,
+  };
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { importTrades } from './tradeImport';
+
+const coins = [
+  { id: 'bitcoin', name: 'Bitcoin', symbol: 'btc', market_cap_rank: 1 },
+  { id: 'ethereum', name: 'Ethereum', symbol: 'eth', market_cap_rank: 2 },
+  { id: 'zetachain', name: 'ZetaChain', symbol: 'zeta', market_cap_rank: 200 },
+];
+
+describe('importTrades', () => {
+  describe('Binance', () => {
+    const csv = [
+      'Date(UTC),Pair,Side,Price,Executed,Amount,Fee',
+      '2024-02-01 09:00:00,ETHEUR,BUY,2000,1ETH,2000EUR,0.001ETH',
+      '2024-01-01 09:00:00,BTCUSDT,BUY,40000,0.5BTC,20000USDT,20USDT',
+      '2024-03-01 09:00:00,ETHEUR,SELL,3000,0.5ETH,1500EUR,0.001ETH',
+    ].join('\n');
+
+    it('reads rows oldest first with their quote currency', () => {
+      const result = importTrades(csv, coins);
+      expect(result.format).toBe('binance');
+      expect(result.errors).toEqual([]);
+      expect(result.entries.map(entry => [entry.date, entry.coinId, entry.currency])).toEqual([
+        ['2024-01-01', 'bitcoin', 'usd'],
+        ['2024-02-01', 'ethereum', 'eur'],
+        ['2024-03-01', 'ethereum', 'eur'],
+      ]);
+    });
+
+    it('keeps a fee paid in the quote asset as a fee', () => {
+      expect(importTrades(csv, coins).entries[0]).toMatchObject({ type: 'buy', quantity: 0.5, price: 40000, fee: 20 });
+    });
+
+    it('takes a buy fee paid in the coin out of the quantity', () => {
+      expect(importTrades(csv, coins).entries[1]).toMatchObject({ type: 'buy', quantity: 0.999, price: 2000, fee: 0 });
+    });
+
+    it('values a sell fee paid in the coin at the trade price', () => {
+      expect(importTrades(csv, coins).entries[2]).toMatchObject({ type: 'sell', quantity: 0.5, price: 3000, fee: 3 });
+    });
+
+    it('leaves out a fee paid in another asset with a warning', () => {
+      const result = importTrades([
+        'Date(UTC),Pair,Side,Price,Executed,Amount,Fee',
+        '2024-01-01 09:00:00,BTCUSDT,BUY,40000,0.5BTC,20000USDT,0.01BNB',
+      ].join('\n'), coins);
+      expect(result.entries[0].fee).toBe(0);
+      expect(result.warnings).toEqual([{ row: 2, message: 'Fee paid in BNB was not included' }]);
+    });
+  });
+
+  describe('Coinbase', () => {
+    const csv = [
+      'Transactions',
+      'User,someone@example.com,abc123',
+      'Timestamp,Transaction Type,Asset,Quantity Transacted,Spot Price Currency,Spot Price at Transaction,Subtotal,Total (inclusive of fees and/or spread),Fees and/or Spread,Notes',
+      '2024-01-01T10:00:00Z,Buy,BTC,0.1,USD,40000,4000,4010,10,Bought 0.1 BTC',
+      '2024-01-02T10:00:00Z,Send,BTC,0.05,USD,41000,,,,Sent 0.05 BTC',
+      '2024-01-03T10:00:00Z,Advanced Trade Sell,BTC,-0.05,USD,42000,2100,2095,5,Sold 0.05 BTC',
+    ].join('\n');
+
+    it('imports buys and sells with their fees in the quote currency', () => {
+      const result = importTrades(csv, coins);
+      expect(result.format).toBe('coinbase');
+      expect(result.entries).toEqual([
+        { coinId: 'bitcoin', type: 'buy', date: '2024-01-01', quantity: 0.1, price: 40000, fee: 10, currency: 'usd' },
+        { coinId: 'bitcoin', type: 'sell', date: '2024-01-03', quantity: 0.05, price: 42000, fee: 5, currency: 'usd' },
+      ]);
+    });
+
+    it('skips rows that are not trades', () => {
+      expect(importTrades(csv, coins).skipped).toBe(1);
+    });
+  });
+
+  describe('Kraken', () => {
+    const header = '"txid","ordertxid","pair","time","type","ordertype","price","cost","fee","vol","margin","misc","ledgers"';
+
+    it('reads legacy asset codes with the fee in the quote currency', () => {
+      const result = importTrades([
+        header,
+        '"T1","O1","XXBTZUSD","2024-01-01 10:00:00.0000","buy","limit","40000","4000","6.4","0.1","0","",""',
+        '"T2","O2","XETHZEUR","2024-01-02 10:00:00.0000","sell","market","2000","2000","5.2","1","0","",""',
+      ].join('\n'), coins);
+      expect(result.format).toBe('kraken');
+      expect(result.errors).toEqual([]);
+      expect(result.entries).toEqual([
+        { coinId: 'bitcoin', type: 'buy', date: '2024-01-01', quantity: 0.1, price: 40000, fee: 6.4, currency: 'usd' },
+        { coinId: 'ethereum', type: 'sell', date: '2024-01-02', quantity: 1, price: 2000, fee: 5.2, currency: 'eur' },
+      ]);
+    });
+
+    it('keeps tickers that only look like legacy codes', () => {
+      const result = importTrades([
+        header,
+        '"T1","O1","ZETA/USD","2024-01-01 10:00:00.0000","buy","limit","0.5","50","0.1","100","0","",""',
+      ].join('\n'), coins);
+      expect(result.errors).toEqual([]);
+      expect(result.entries[0]).toMatchObject({ coinId: 'zetachain', quantity: 100, currency: 'usd' });
+    });
+  });
+});
@@ -0,0 +1,389 @@
+import { toDecimal } from './calculation';
+import { parseCsv } from './csv';
+import { isSupportedCurrency } from './currency';
+import { LedgerEntry } from './ledger';
+import { CoinListItem } from './market/types';
+
+export type ImportFormat = 'binance' | 'coinbase' | 'kraken' | 'generic';
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string }[] = [
+  { value: 'binance', label: 'Binance (Spot trade history)' },
+  { value: 'coinbase', label: 'Coinbase (Transaction history)' },
+  { value: 'kraken', label: 'Kraken (trades.csv)' },
+  { value: 'generic', label: 'Other (map columns)' },
+];
+
+// Header names of the columns holding each field in a generic CSV
+export interface ColumnMapping {
+  date: string;
+  side: string;
+  symbol: string;
+  quantity: string;
+  price: string;
+  fee?: string;
+  quote?: string;
+}
+
+export type ImportedEntry = Omit<LedgerEntry, 'id'>;
+
+export interface ImportIssue {
+  // 1-based line in the file
+  row: number;
+  message: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  entries: ImportedEntry[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+  // Rows that are valid but are not trades, e.g. deposits or staking rewards
+  skipped: number;
+}
+
+interface RawTrade {
+  row: number;
+  timestamp: number;
+  side: 'buy' | 'sell';
+  base: string;
+  quote: string;
+  quantity: number;
+  price: number;
+  fee: number;
+  feeAsset?: string;
+}
+
+type RowOutcome = RawTrade | ImportIssue | null;
+
+const STABLECOINS = ['USDT', 'USDC', 'BUSD', 'FDUSD', 'TUSD', 'DAI'];
+
+// Quote assets recognised at the end of a concatenated pair such as BTCUSDT
+const PAIR_QUOTES = [...STABLECOINS, 'USD', 'EUR', 'GBP', 'INR', 'JPY', 'AUD', 'CAD', 'CHF', 'TRY', 'BRL', 'BTC', 'ETH', 'BNB'];
+
+const SYMBOL_ALIASES: Record<string, string> = {
+  XBT: 'BTC',
+  XDG: 'DOGE',
+};
+
+class RowError extends Error {}
+
+const isIssue = (outcome: RowOutcome): outcome is ImportIssue =>
+  outcome !== null && !('timestamp' in outcome);
+
+const normalizeSymbol = (symbol: string) => {
+  const upper = symbol.trim().toUpperCase();
+  return SYMBOL_ALIASES[upper] || upper;
+};
+
+// Kraken's legacy asset codes, prefixed with X (crypto) or Z (fiat). Newer
+// listings such as ZETA use the plain ticker, so only these are rewritten.
+const KRAKEN_LEGACY_ASSETS: Record<string, string> = {
+  XXBT: 'XBT',
+  XETH: 'ETH',
+  XETC: 'ETC',
+  XLTC: 'LTC',
+  XXRP: 'XRP',
+  XXLM: 'XLM',
+  XXMR: 'XMR',
+  XZEC: 'ZEC',
+  XXDG: 'XDG',
+  XREP: 'REP',
+  XMLN: 'MLN',
+  ZUSD: 'USD',
+  ZEUR: 'EUR',
+  ZGBP: 'GBP',
+  ZCAD: 'CAD',
+  ZJPY: 'JPY',
+  ZAUD: 'AUD',
+};
+
+const normalizeKrakenAsset = (asset: string) => {
+  const upper = asset.toUpperCase();
+  return normalizeSymbol(KRAKEN_LEGACY_ASSETS[upper] ?? upper);
+};
+
+const splitPair = (pair: string, separator?: RegExp): [string, string] => {
+  const upper = pair.toUpperCase();
+  if (separator && separator.test(upper)) {
+    const [base, quote] = upper.split(separator);
+    return [base, quote];
+  }
+  const quote = [...PAIR_QUOTES]
+    .sort((a, b) => b.length - a.length)
+    .find(q => upper.endsWith(q) && upper.length > q.length);
+  if (!quote) throw new RowError(`Cannot split trading pair ${pair}`);
+  return [upper.slice(0, -quote.length), quote];
+};
+
+const parseNumber = (value: string | undefined, field: string): number => {
+  const cleaned = (value || '').replace(/[^\d.eE+-]/g, '');
+  const parsed = parseFloat(cleaned);
+  if (cleaned === '' || isNaN(parsed)) throw new RowError(`Invalid ${field}: "${value ?? ''}"`);
+  return parsed;
+};
+
+// Binance writes amounts with the asset appended, e.g. "0.015BTC". An exponent
+// needs digits after the E, so the E of "0.001ETH" or "4EUR" stays with the asset.
+const parseAmountWithAsset = (value: string, field: string): { amount: number; asset?: string } => {
+  const match = value.trim().match(/^(-?[\d.,]+(?:[eE][+-]?\d+)?)\s*([A-Za-z]*)$/);
+  if (!match) throw new RowError(`Invalid ${field}: "${value}"`);
+  return { amount: parseNumber(match[1], field), asset: match[2] ? match[2].toUpperCase() : undefined };
+};
+
+const parseTimestamp = (value: string): number => {
+  let text = value.trim().replace(/ UTC$/, 'Z');
+  // "2021-03-04 10:20:30" is not ISO 8601; read it as UTC
+  if (/^\d{4}-\d{2}-\d{2} \d/.test(text)) {
+    text = text.replace(' ', 'T');
+    if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) text += 'Z';
+  }
+  const timestamp = Date.parse(text);
+  if (isNaN(timestamp)) throw new RowError(`Invalid date: "${value}"`);
+  return timestamp;
+};
+
+const parseSide = (value: string): 'buy' | 'sell' => {
+  const side = value.trim().toLowerCase();
+  if (side === 'buy' || side === 'b') return 'buy';
+  if (side === 'sell' || side === 's') return 'sell';
+  throw new RowError(`Unknown side: "${value}"`);
+};
+
+const findHeaderIndex = (rows: string[][], columns: string[]) =>
+  rows.findIndex(row => columns.every(column => row.some(cell => cell.trim() === column)));
+
+const columnGetter = (header: string[]) => {
+  const index = new Map(header.map((name, i) => [name.trim(), i]));
+  return (row: string[], ...names: string[]) => {
+    for (const name of names) {
+      const i = index.get(name);
+      if (i !== undefined) return row[i]?.trim() ?? '';
+    }
+    return undefined;
+  };
+};
+
+const parseRows = (
+  rows: string[][],
+  headerIndex: number,
+  parseRow: (row: string[], get: ReturnType<typeof columnGetter>, line: number) => RawTrade | null
+): RowOutcome[] => {
+  if (headerIndex < 0) {
+    return [{ row: 1, message: 'Could not find the header row for this format' }];
+  }
+  const get = columnGetter(rows[headerIndex]);
+  return rows.slice(headerIndex + 1).map((row, i) => {
+    const line = headerIndex + i + 2;
+    try {
+      return parseRow(row, get, line);
+    } catch (error) {
+      if (error instanceof RowError) return { row: line, message: error.message };
+      throw error;
+    }
+  });
+};
+
+const parseBinance = (rows: string[][]): RowOutcome[] => {
+  const headerIndex = findHeaderIndex(rows, ['Date(UTC)']);
+  return parseRows(rows, headerIndex, (row, get, line) => {
+    const pair = get(row, 'Pair', 'Market') || '';
+    const [base, quote] = splitPair(pair);
+    const executed = get(row, 'Executed');
+    // The newer export has Executed/Amount with assets appended, the older one Amount/Total/Fee Coin
+    const quantity = executed !== undefined
+      ? parseAmountWithAsset(executed, 'quantity').amount
+      : parseNumber(get(row, 'Amount'), 'quantity');
+    const fee = parseAmountWithAsset(get(row, 'Fee') || '0', 'fee');
+    return {
+      row: line,
+      timestamp: parseTimestamp(get(row, 'Date(UTC)') || ''),
+      side: parseSide(get(row, 'Side', 'Type') || ''),
+      base,
+      quote,
+      quantity,
+      price: parseNumber(get(row, 'Price'), 'price'),
+      fee: fee.amount,
+      feeAsset: fee.asset || get(row, 'Fee Coin')?.toUpperCase() || undefined,
+    };
+  });
+};
+
+const COINBASE_TRADE_TYPES: Record<string, 'buy' | 'sell'> = {
+  'buy': 'buy',
+  'sell': 'sell',
+  'advanced trade buy': 'buy',
+  'advanced trade sell': 'sell',
+};
+
+const parseCoinbase = (rows: string[][]): RowOutcome[] => {
+  // Coinbase puts a few lines of account details above the header
+  const headerIndex = findHeaderIndex(rows, ['Timestamp', 'Transaction Type']);
+  return parseRows(rows, headerIndex, (row, get, line) => {
+    const side = COINBASE_TRADE_TYPES[(get(row, 'Transaction Type') || '').toLowerCase()];
+    if (!side) return null;
+    return {
+      row: line,
+      timestamp: parseTimestamp(get(row, 'Timestamp') || ''),
+      side,
+      base: normalizeSymbol(get(row, 'Asset') || ''),
+      quote: (get(row, 'Spot Price Currency', 'Price Currency') || 'USD').toUpperCase(),
+      quantity: Math.abs(parseNumber(get(row, 'Quantity Transacted'), 'quantity')),
+      price: parseNumber(get(row, 'Spot Price at Transaction', 'Price at Transaction'), 'price'),
+      fee: Math.abs(parseNumber(get(row, 'Fees and/or Spread', 'Fees') || '0', 'fee')),
+    };
+  });
+};
+
+const parseKraken = (rows: string[][]): RowOutcome[] => {
+  const headerIndex = findHeaderIndex(rows, ['pair', 'type', 'vol']);
+  return parseRows(rows, headerIndex, (row, get, line) => {
+    const pair = get(row, 'pair') || '';
+    const [rawBase, rawQuote] = splitKrakenPair(pair);
+    return {
+      row: line,
+      timestamp: parseTimestamp(get(row, 'time') || ''),
+      side: parseSide(get(row, 'type') || ''),
+      base: normalizeKrakenAsset(rawBase),
+      quote: normalizeKrakenAsset(rawQuote),
+      quantity: parseNumber(get(row, 'vol'), 'quantity'),
+      price: parseNumber(get(row, 'price'), 'price'),
+      fee: parseNumber(get(row, 'fee') || '0', 'fee'),
+    };
+  });
+};
+
+// Kraken pairs are either "XBT/USD" or concatenated legacy codes like "XXBTZUSD"
+const splitKrakenPair = (pair: string): [string, string] => {
+  const upper = pair.toUpperCase();
+  if (upper.includes('/')) return splitPair(upper, /\//);
+  if (upper.length === 8 && KRAKEN_LEGACY_ASSETS[upper.slice(0, 4)] && KRAKEN_LEGACY_ASSETS[upper.slice(4)]) {
+    return [upper.slice(0, 4), upper.slice(4)];
+  }
+  return splitPair(upper);
+};
+
+const parseGeneric = (rows: string[][], mapping: ColumnMapping, defaultQuote: string): RowOutcome[] =>
+  parseRows(rows, 0, (row, get, line) => ({
+    row: line,
+    timestamp: parseTimestamp(get(row, mapping.date) || ''),
+    side: parseSide(get(row, mapping.side) || ''),
+    base: normalizeSymbol(get(row, mapping.symbol) || ''),
+    quote: ((mapping.quote && get(row, mapping.quote)) || defaultQuote).toUpperCase(),
+    quantity: Math.abs(parseNumber(get(row, mapping.quantity), 'quantity')),
+    price: parseNumber(get(row, mapping.price), 'price'),
+    fee: mapping.fee ? Math.abs(parseNumber(get(row, mapping.fee) || '0', 'fee')) : 0,
+  }));
+
+export const detectImportFormat = (rows: string[][]): ImportFormat => {
+  if (findHeaderIndex(rows, ['txid', 'pair', 'vol']) !== -1) return 'kraken';
+  if (findHeaderIndex(rows, ['Timestamp', 'Transaction Type']) !== -1) return 'coinbase';
+  if (findHeaderIndex(rows, ['Date(UTC)']) !== -1) return 'binance';
+  return 'generic';
+};
+
+export const csvHeaders = (text: string): string[] => (parseCsv(text)[0] || []).map(h => h.trim());
+
+// Most coins share their ticker with others, so the highest ranked coin wins
+export const resolveCoinId = (symbol: string, coins: CoinListItem[]): string | undefined => {
+  const matches = coins.filter(coin => coin.symbol.toUpperCase() === symbol);
+  matches.sort((a, b) => (a.market_cap_rank ?? Infinity) - (b.market_cap_rank ?? Infinity));
+  return matches[0]?.id;
+};
+
+const quoteToCurrency = (quote: string): string | undefined => {
+  if (STABLECOINS.includes(quote)) return 'usd';
+  const code = quote.toLowerCase();
+  return isSupportedCurrency(code) ? code : undefined;
+};
+
+export const importTrades = (
+  text: string,
+  coins: CoinListItem[],
+  options: { format?: ImportFormat; mapping?: ColumnMapping; defaultQuote?: string } = {}
+): ImportResult => {
+  const rows = parseCsv(text);
+  const format = options.format || detectImportFormat(rows);
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+  let skipped = 0;
+
+  if (rows.length === 0) {
+    return { format, entries: [], errors: [{ row: 1, message: 'The file is empty' }], warnings, skipped };
+  }
+  if (format === 'generic' && !options.mapping) {
+    return { format, entries: [], errors: [{ row: 1, message: 'Map the CSV columns before importing' }], warnings, skipped };
+  }
+
+  let outcomes: RowOutcome[];
+  switch (format) {
+    case 'binance':
+      outcomes = parseBinance(rows);
+      break;
+    case 'coinbase':
+      outcomes = parseCoinbase(rows);
+      break;
+    case 'kraken':
+      outcomes = parseKraken(rows);
+      break;
+    default:
+      outcomes = parseGeneric(rows, options.mapping, options.defaultQuote || 'USD');
+  }
+
+  const trades: (RawTrade & { coinId: string; currency: string })[] = [];
+  for (const outcome of outcomes) {
+    if (outcome === null) {
+      skipped++;
+      continue;
+    }
+    if (isIssue(outcome)) {
+      errors.push(outcome);
+      continue;
+    }
+    const coinId = resolveCoinId(outcome.base, coins);
+    if (!coinId) {
+      errors.push({ row: outcome.row, message: `Unknown coin symbol ${outcome.base}` });
+      continue;
+    }
+    const currency = quoteToCurrency(outcome.quote);
+    if (!currency) {
+      errors.push({ row: outcome.row, message: `Quote asset ${outcome.quote} is not a supported fiat currency` });
+      continue;
+    }
+
+    // A buy's fee in the coin itself comes out of the coins received, so it
+    // shrinks the quantity; on a sell those coins are spent at the trade price
+    let fee = outcome.fee;
+    let quantity = outcome.quantity;
+    if (outcome.feeAsset && outcome.feeAsset === outcome.base) {
+      if (outcome.side === 'buy') {
+        quantity = toDecimal(outcome.quantity).minus(toDecimal(outcome.fee)).toNumber();
+        fee = 0;
+      } else {
+        fee = toDecimal(outcome.fee).mul(toDecimal(outcome.price)).toNumber();
+      }
+    } else if (outcome.feeAsset && quoteToCurrency(outcome.feeAsset) !== currency) {
+      warnings.push({ row: outcome.row, message: `Fee paid in ${outcome.feeAsset} was not included` });
+      fee = 0;
+    }
+    if (!(quantity > 0) || !(outcome.price >= 0)) {
+      errors.push({ row: outcome.row, message: 'Quantity and price must be positive' });
+      continue;
+    }
+    trades.push({ ...outcome, quantity, fee, coinId, currency });
+  }
+
+  // Exports are often newest first; the ledger needs chronological order
+  const entries = trades
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(trade => ({
+      coinId: trade.coinId,
+      type: trade.side,
+      date: new Date(trade.timestamp).toISOString().slice(0, 10),
+      quantity: trade.quantity,
+      price: trade.price,
+      fee: trade.fee,
+      currency: trade.currency,
+    }));
+
+  return { format, entries, errors, warnings, skipped };
+};